@@ -12,6 +12,8 @@ const Auth = lazy(() => import("./pages/Auth"));
 const History = lazy(() => import("./pages/History"));
 const BatchUpload = lazy(() => import("./pages/BatchUpload"));
 const AnswerKeys = lazy(() => import("./pages/AnswerKeys"));
+const Review = lazy(() => import("./pages/Review"));
+const Usage = lazy(() => import("./pages/Usage"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 
 const queryClient = new QueryClient({
@@ -45,6 +47,8 @@ const App = () => (
             <Route path="/history" element={<History />} />
             <Route path="/batch" element={<BatchUpload />} />
             <Route path="/answer-keys" element={<AnswerKeys />} />
+            <Route path="/review" element={<Review />} />
+            <Route path="/usage" element={<Usage />} />
             {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
             <Route path="*" element={<NotFound />} />
           </Routes>
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Layers, Loader2 } from "lucide-react";
+import { fetchActiveBatchJobs } from "@/lib/batchJobs";
+
+type ActiveJob = Awaited<ReturnType<typeof fetchActiveBatchJobs>>[number];
+
+/** Batches still running on the server, so a teacher can follow one from this device. */
+const ActiveBatchJobs = () => {
+  const [jobs, setJobs] = useState<ActiveJob[]>([]);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    fetchActiveBatchJobs()
+      .then(setJobs)
+      .catch((error) => console.error('Error loading batches:', error));
+  }, []);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="max-w-sm mx-auto mt-6 space-y-2">
+      <p className="text-sm font-medium text-foreground text-center">Batches in progress</p>
+      {jobs.map(job => (
+        <div key={job.id} className="flex items-center gap-3 p-3 rounded-lg border bg-muted/30 text-sm">
+          {job.status === 'running'
+            ? <Loader2 className="h-4 w-4 animate-spin text-primary shrink-0" />
+            : <Layers className="h-4 w-4 text-muted-foreground shrink-0" />}
+          <div className="flex-1 min-w-0">
+            <div className="font-medium">{job.sheetCount} sheet{job.sheetCount !== 1 ? 's' : ''}</div>
+            <div className="text-xs text-muted-foreground">
+              Started {formatDistanceToNow(new Date(job.created_at), { addSuffix: true })}
+            </div>
+          </div>
+          <Badge variant="outline" className="capitalize">{job.status}</Badge>
+          <Button size="sm" variant="outline" onClick={() => navigate(`/batch?job=${job.id}`)}>
+            Open
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ActiveBatchJobs;
@@ -4,22 +4,57 @@ import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
-import { Key, Play, Loader2, GripVertical, ClipboardPaste, Grid3X3, List, ArrowUp, ArrowDown, Trash2, Plus } from "lucide-react";
+import { Key, Play, Loader2, GripVertical, ClipboardPaste, Grid3X3, List, ArrowUp, ArrowDown, Trash2, Plus, Gift, Ban } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import SavedAnswerKeySelector from "./SavedAnswerKeySelector";
+import MarkingSchemeEditor from "./MarkingSchemeEditor";
+import QuestionAnswerInput from "./QuestionAnswerInput";
+import OptionSetSelect from "./OptionSetSelect";
+import PaperSetTabs, { type PaperSetState } from "./PaperSetTabs";
+import { AnswerKeyOptions } from "@/hooks/useSavedAnswerKeys";
+import {
+  BONUS_KEY,
+  DEFAULT_MARKING_SCHEME,
+  DEFAULT_OPTION_SET,
+  DEFAULT_QUESTION_SPEC,
+  DROPPED_KEY,
+  describeOptionSet,
+  describeQuestionSpec,
+  isDefaultOptionSet,
+  isValidKeyEntry,
+  normalizeQuestionTypes,
+  type MarkingScheme,
+  type QuestionSpec,
+} from "@shared/scoring";
+import type { PaperSet } from "@shared/paperSets";
+import { entryForSpec, formatBulkAnswers, parseBulkAnswers } from "@/lib/answerKey";
+import { commitActiveSet } from "@/lib/paperSets";
 
 interface AnswerKeyFormProps {
-  onSubmit: (answers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean) => void;
+  onSubmit: (answers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean, options?: AnswerKeyOptions) => void;
   disabled: boolean;
   isProcessing: boolean;
   initialAnswers?: string[];
   initialGridConfig?: { rows: number; columns: number };
   initialDetectRollNumber?: boolean;
   initialDetectSubjectCode?: boolean;
+  initialOptions?: AnswerKeyOptions;
 }
 
 type EntryMode = "individual" | "bulk";
 
+interface LinkedKey {
+  id: string;
+  answers: string[];
+  markingScheme: MarkingScheme;
+  questionTypes?: QuestionSpec[];
+  optionSet?: string[];
+  paperSets?: PaperSet[];
+}
+
+const resizeTypes = (types: QuestionSpec[], length: number) =>
+  Array.from({ length }, (_, i) => types[i] ?? DEFAULT_QUESTION_SPEC);
+
 const AnswerKeyForm = ({ 
   onSubmit, 
   disabled, 
@@ -28,10 +63,13 @@ const AnswerKeyForm = ({
   initialGridConfig,
   initialDetectRollNumber,
   initialDetectSubjectCode,
+  initialOptions,
 }: AnswerKeyFormProps) => {
   const [gridMode, setGridMode] = useState(!!initialGridConfig);
   const [detectRollNumber, setDetectRollNumber] = useState(initialDetectRollNumber ?? true);
   const [detectSubjectCode, setDetectSubjectCode] = useState(initialDetectSubjectCode ?? true);
+  const [consensus, setConsensus] = useState(initialOptions?.consensus ?? false);
+  const [bubbleSheet, setBubbleSheet] = useState(initialOptions?.bubbleSheet ?? false);
   const [rows, setRows] = useState(initialGridConfig?.rows ?? 5);
   const [columns, setColumns] = useState(initialGridConfig?.columns ?? 4);
   const defaultTotal = initialGridConfig ? initialGridConfig.rows * initialGridConfig.columns : (initialAnswers?.length ?? 20);
@@ -41,18 +79,67 @@ const AnswerKeyForm = ({
   const [bulkText, setBulkText] = useState("");
   const [dragIndex, setDragIndex] = useState<number | null>(null);
   const [showGridPreview, setShowGridPreview] = useState(false);
+  const [markingScheme, setMarkingScheme] = useState<MarkingScheme>(initialOptions?.markingScheme ?? DEFAULT_MARKING_SCHEME);
+  const [questionTypes, setQuestionTypes] = useState<QuestionSpec[]>(resizeTypes(initialOptions?.questionTypes ?? [], defaultTotal));
+  const [optionSet, setOptionSet] = useState<string[]>(initialOptions?.optionSet ?? DEFAULT_OPTION_SET);
+  // Paper set variants; `answers` always holds the active set while editing
+  const [paperSets, setPaperSets] = useState<PaperSet[] | null>(initialOptions?.paperSets ?? null);
+  const [activeSet, setActiveSet] = useState(0);
+  // Saved key the form was loaded from; evaluations stay linked to it only while the answers and scheme are unchanged
+  const [linkedKey, setLinkedKey] = useState<LinkedKey | null>(
+    initialOptions?.answerKeyId && initialAnswers
+      ? {
+          id: initialOptions.answerKeyId,
+          answers: initialAnswers,
+          markingScheme: initialOptions.markingScheme ?? DEFAULT_MARKING_SCHEME,
+          questionTypes: initialOptions.questionTypes,
+          optionSet: initialOptions.optionSet,
+          paperSets: initialOptions.paperSets,
+        }
+      : null
+  );
+
+  const currentSets = paperSets ? commitActiveSet(paperSets, activeSet, answers) : undefined;
+  // Saved keys store the first set as their answers
+  const keyAnswers = currentSets ? currentSets[0].answers : answers;
+
+  const handlePaperSetChange = (next: PaperSetState) => {
+    setPaperSets(next.sets);
+    setActiveSet(next.active);
+    setAnswers(next.answers);
+    setBulkText(formatBulkAnswers(next.answers, questionTypes));
+  };
 
   const handleLoadKey = (
     loadedAnswers: string[],
     gridConfig?: { rows: number; columns: number },
     loadedDetectRollNumber?: boolean,
-    loadedDetectSubjectCode?: boolean
+    loadedDetectSubjectCode?: boolean,
+    loadedOptions?: AnswerKeyOptions
   ) => {
+    const loadedScheme = loadedOptions?.markingScheme ?? DEFAULT_MARKING_SCHEME;
     setAnswers(loadedAnswers);
+    setMarkingScheme(loadedScheme);
+    setQuestionTypes(resizeTypes(loadedOptions?.questionTypes ?? [], loadedAnswers.length));
+    setOptionSet(loadedOptions?.optionSet ?? DEFAULT_OPTION_SET);
+    setPaperSets(loadedOptions?.paperSets ?? null);
+    setConsensus(loadedOptions?.consensus ?? false);
+    setBubbleSheet(loadedOptions?.bubbleSheet ?? false);
+    setActiveSet(0);
+    setLinkedKey(loadedOptions?.answerKeyId
+      ? {
+          id: loadedOptions.answerKeyId,
+          answers: loadedAnswers,
+          markingScheme: loadedScheme,
+          questionTypes: loadedOptions.questionTypes,
+          optionSet: loadedOptions.optionSet,
+          paperSets: loadedOptions.paperSets,
+        }
+      : null);
     setNumQuestions(loadedAnswers.length);
     setDetectRollNumber(loadedDetectRollNumber ?? true);
     setDetectSubjectCode(loadedDetectSubjectCode ?? true);
-    setBulkText(loadedAnswers.join(', '));
+    setBulkText(formatBulkAnswers(loadedAnswers, loadedOptions?.questionTypes));
     
     if (gridConfig) {
       setGridMode(true);
@@ -69,6 +156,7 @@ const AnswerKeyForm = ({
       setNumQuestions(num);
       const newAnswers = Array(num).fill('').map((_, i) => answers[i] || '');
       setAnswers(newAnswers);
+      setQuestionTypes(resizeTypes(questionTypes, num));
     }
   };
 
@@ -82,35 +170,43 @@ const AnswerKeyForm = ({
     setNumQuestions(totalQuestions);
     const newAnswers = Array(Math.max(0, totalQuestions)).fill('').map((_, i) => answers[i] || '');
     setAnswers(newAnswers);
+    setQuestionTypes(resizeTypes(questionTypes, Math.max(0, totalQuestions)));
   };
 
+  // Entries arrive already shaped by the row controls; completeness is checked on submit
   const handleAnswerChange = (index: number, value: string) => {
-    const upperValue = value.toUpperCase();
-    if (upperValue === '' || ['A', 'B', 'C', 'D', 'E'].includes(upperValue)) {
-      const newAnswers = [...answers];
-      newAnswers[index] = upperValue;
-      setAnswers(newAnswers);
-    }
+    const newAnswers = [...answers];
+    newAnswers[index] = value.toUpperCase();
+    setAnswers(newAnswers);
+  };
+
+  const handleSpecChange = (index: number, spec: QuestionSpec) => {
+    const newTypes = [...questionTypes];
+    newTypes[index] = spec;
+    setQuestionTypes(newTypes);
+  };
+
+  // Answers that used options missing from the new set are cleared
+  const handleOptionSetChange = (options: string[]) => {
+    setOptionSet(options);
+    setAnswers(answers.map((a, i) => entryForSpec(a, questionTypes[i] ?? DEFAULT_QUESTION_SPEC, options)));
   };
 
   // Bulk entry
   const handleBulkApply = () => {
-    const parsed = bulkText
-      .toUpperCase()
-      .split(/[\s,;]+/)
-      .map(s => s.trim())
-      .filter(s => /^[A-E]$/.test(s));
+    const { answers: parsed, types } = parseBulkAnswers(bulkText, optionSet);
 
     if (parsed.length === 0) {
       toast({
         title: "No valid answers found",
-        description: "Enter answers as A, B, C, D, or E separated by commas or spaces",
+        description: `Enter answers as ${describeOptionSet(optionSet)} (or multiple options with | or +, 12.5, T/F, BONUS, DROP) separated by commas or spaces`,
         variant: "destructive",
       });
       return;
     }
 
     setAnswers(parsed);
+    setQuestionTypes(types);
     setNumQuestions(parsed.length);
     if (!gridMode) {
       // keep grid mode off
@@ -129,11 +225,17 @@ const AnswerKeyForm = ({
     const [moved] = newAnswers.splice(fromIndex, 1);
     newAnswers.splice(toIndex, 0, moved);
     setAnswers(newAnswers);
+
+    const newTypes = [...questionTypes];
+    const [movedType] = newTypes.splice(fromIndex, 1);
+    newTypes.splice(toIndex, 0, movedType);
+    setQuestionTypes(newTypes);
   };
 
   const addQuestion = () => {
     if (answers.length >= 200) return;
     setAnswers([...answers, '']);
+    setQuestionTypes([...questionTypes, DEFAULT_QUESTION_SPEC]);
     setNumQuestions(answers.length + 1);
   };
 
@@ -141,6 +243,7 @@ const AnswerKeyForm = ({
     if (answers.length <= 1) return;
     const newAnswers = answers.filter((_, i) => i !== index);
     setAnswers(newAnswers);
+    setQuestionTypes(questionTypes.filter((_, i) => i !== index));
     setNumQuestions(newAnswers.length);
   };
 
@@ -170,23 +273,77 @@ const AnswerKeyForm = ({
       return;
     }
     
-    const filledAnswers = answers.filter(a => a !== '');
-    
-    if (filledAnswers.length !== numQuestions) {
+    if (currentSets) {
+      const codes = currentSets.map(set => set.code);
+      if (codes.some(code => !code) || new Set(codes).size !== codes.length) {
+        toast({
+          title: "Invalid paper sets",
+          description: "Every paper set needs its own code",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    for (const variant of currentSets ?? [{ code: '', answers }]) {
+      const setPrefix = currentSets ? `Set ${variant.code}: ` : '';
+      const filledAnswers = variant.answers.filter(a => a !== '');
+
+      if (filledAnswers.length !== numQuestions) {
+        toast({
+          title: "Incomplete answer key",
+          description: `${setPrefix}Please fill all ${numQuestions} answers`,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const invalidIndex = variant.answers.findIndex((a, i) => !isValidKeyEntry(a, optionSet, questionTypes[i]));
+      if (invalidIndex !== -1) {
+        toast({
+          title: "Invalid answer",
+          description: `${setPrefix}Q${invalidIndex + 1}: "${variant.answers[invalidIndex]}" is not a valid ${describeQuestionSpec(questionTypes[invalidIndex]).toLowerCase()} answer`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    const invalidSection = markingScheme.sections?.find(s => s.start > s.end || s.end > numQuestions);
+    if (invalidSection) {
       toast({
-        title: "Incomplete answer key",
-        description: `Please fill all ${numQuestions} answers`,
+        title: "Invalid marking section",
+        description: `"${invalidSection.name || 'Section'}" must cover questions between 1 and ${numQuestions}`,
         variant: "destructive",
       });
       return;
     }
 
     const gridConfig = gridMode ? { rows, columns } : undefined;
-    onSubmit(answers, gridConfig, detectRollNumber, detectSubjectCode);
+    const types = normalizeQuestionTypes(questionTypes, answers.length);
+    const options = isDefaultOptionSet(optionSet) ? undefined : optionSet;
+    const isLinked = linkedKey
+      && JSON.stringify(linkedKey.answers) === JSON.stringify(keyAnswers)
+      && JSON.stringify(linkedKey.markingScheme) === JSON.stringify(markingScheme)
+      && JSON.stringify(linkedKey.questionTypes ?? null) === JSON.stringify(types ?? null)
+      && JSON.stringify(linkedKey.optionSet ?? null) === JSON.stringify(options ?? null)
+      && JSON.stringify(linkedKey.paperSets ?? null) === JSON.stringify(currentSets ?? null);
+    onSubmit(keyAnswers, gridConfig, detectRollNumber, detectSubjectCode, {
+      markingScheme,
+      questionTypes: types,
+      optionSet: options,
+      paperSets: currentSets,
+      answerKeyId: isLinked ? linkedKey.id : undefined,
+      consensus: consensus || undefined,
+      bubbleSheet: (gridMode && bubbleSheet) || undefined,
+    });
   };
 
+  // Only single-choice questions are filled; typed questions keep their answers
   const quickFill = (option: string) => {
-    setAnswers(Array(numQuestions).fill(option));
+    setAnswers(Array(numQuestions).fill('').map((_, i) =>
+      questionTypes[i]?.type === 'single' || !questionTypes[i] ? option : answers[i] || ''
+    ));
     toast({
       title: "Quick filled",
       description: `All answers set to ${option}`,
@@ -194,6 +351,8 @@ const AnswerKeyForm = ({
   };
 
   const filledCount = answers.filter(a => a !== '').length;
+  const bulkExample = Array.from({ length: 10 }, (_, i) => optionSet[i % optionSet.length]).join(", ");
+  const alternatives = `${optionSet[0]}|${optionSet[Math.min(2, optionSet.length - 1)]}`;
 
   return (
     <section className="w-full">
@@ -205,11 +364,27 @@ const AnswerKeyForm = ({
           </p>
         </div>
         <SavedAnswerKeySelector
-          currentAnswers={answers}
+          currentAnswers={keyAnswers}
           currentGridConfig={gridMode ? { rows, columns } : undefined}
           detectRollNumber={detectRollNumber}
           detectSubjectCode={detectSubjectCode}
+          currentOptions={{
+            markingScheme,
+            questionTypes: normalizeQuestionTypes(questionTypes, answers.length),
+            optionSet: isDefaultOptionSet(optionSet) ? undefined : optionSet,
+            paperSets: currentSets,
+            consensus: consensus || undefined,
+            bubbleSheet: (gridMode && bubbleSheet) || undefined,
+          }}
           onLoadKey={handleLoadKey}
+          onKeySaved={(key) => setLinkedKey({
+            id: key.id,
+            answers: [...keyAnswers],
+            markingScheme,
+            questionTypes: normalizeQuestionTypes(questionTypes, answers.length),
+            optionSet: isDefaultOptionSet(optionSet) ? undefined : optionSet,
+            paperSets: currentSets,
+          })}
           disabled={isProcessing}
         />
       </div>
@@ -253,6 +428,24 @@ const AnswerKeyForm = ({
             </div>
           </div>
 
+          <div className="flex items-center gap-4 p-3 bg-primary/5 rounded-lg border border-primary/20">
+            <div className="flex items-center gap-2 flex-1">
+              <input
+                id="consensus-mode"
+                type="checkbox"
+                checked={consensus}
+                onChange={(e) => setConsensus(e.target.checked)}
+                className="w-4 h-4 cursor-pointer accent-primary"
+              />
+              <Label htmlFor="consensus-mode" className="cursor-pointer font-medium">
+                Consensus Reading (high-stakes exams)
+              </Label>
+            </div>
+            <div className="text-xs text-muted-foreground hidden sm:block">
+              Reads each sheet twice; disagreements go to review
+            </div>
+          </div>
+
           {/* Grid / Question Config */}
           <div className="flex items-center gap-4 flex-wrap">
             <div className="flex items-center gap-2">
@@ -302,6 +495,16 @@ const AnswerKeyForm = ({
                     </p>
                   )}
                 </div>
+                <div className="flex items-center gap-2" title="Each cell is a question number followed by one printed bubble per option; filled bubbles are read without the AI. The grid must fill the sheet edge to edge, with no header or roll-number block.">
+                  <input
+                    id="bubble-sheet"
+                    type="checkbox"
+                    checked={bubbleSheet}
+                    onChange={(e) => setBubbleSheet(e.target.checked)}
+                    className="w-4 h-4 cursor-pointer"
+                  />
+                  <Label htmlFor="bubble-sheet" className="cursor-pointer">Bubble Sheet</Label>
+                </div>
               </>
             ) : (
               <div className="flex-1">
@@ -322,8 +525,25 @@ const AnswerKeyForm = ({
                 )}
               </div>
             )}
+            <div className="w-full sm:w-36">
+              <Label htmlFor="option-set">Options</Label>
+              <OptionSetSelect id="option-set" value={optionSet} onChange={handleOptionSetChange} className="mt-1" />
+            </div>
           </div>
 
+          <MarkingSchemeEditor
+            value={markingScheme}
+            onChange={setMarkingScheme}
+            questionCount={numQuestions}
+          />
+
+          <PaperSetTabs
+            sets={paperSets}
+            active={activeSet}
+            answers={answers}
+            onChange={handlePaperSetChange}
+          />
+
           {/* Entry Mode Toggle + Quick Fill */}
           <div className="flex flex-wrap items-center gap-2 border-t pt-4">
             <div className="flex rounded-lg border border-border overflow-hidden">
@@ -360,7 +580,7 @@ const AnswerKeyForm = ({
             )}
 
             <div className="ml-auto flex gap-1">
-              {['A', 'B', 'C', 'D', 'E'].map(opt => (
+              {optionSet.map(opt => (
                 <Button key={opt} variant="outline" size="sm" onClick={() => quickFill(opt)} className="min-h-[36px] w-10">
                   {opt}
                 </Button>
@@ -390,18 +610,20 @@ const AnswerKeyForm = ({
                 <div>
                   <Label className="text-sm font-semibold">Paste Answers</Label>
                   <p className="text-xs text-muted-foreground mt-1">
-                    Enter answers separated by commas, spaces, or new lines. Example: <code className="bg-muted px-1 rounded">A, B, C, D, A, B, C, D, A, B</code>
+                    Enter answers separated by commas, spaces, or new lines. Example: <code className="bg-muted px-1 rounded">{bulkExample}</code>.
+                    Use <code className="bg-muted px-1 rounded">{alternatives}</code> when several options are correct, <code className="bg-muted px-1 rounded">BONUS</code> to award a question to everyone and <code className="bg-muted px-1 rounded">DROP</code> to remove it from the total.
+                    Multi-select answers are written <code className="bg-muted px-1 rounded">{alternatives.replace("|", "+")}</code>, numeric answers as numbers (<code className="bg-muted px-1 rounded">12.5</code>) and true/false as <code className="bg-muted px-1 rounded">T</code> or <code className="bg-muted px-1 rounded">F</code>.
                   </p>
                 </div>
                 <Textarea
                   value={bulkText}
                   onChange={(e) => setBulkText(e.target.value)}
-                  placeholder="A, B, C, D, A, B, C, D, A, B..."
+                  placeholder={`${bulkExample}...`}
                   className="font-mono text-sm min-h-[100px]"
                 />
                 <div className="flex items-center justify-between">
                   <span className="text-xs text-muted-foreground">
-                    {bulkText.toUpperCase().split(/[\s,;]+/).filter(s => /^[A-E]$/.test(s.trim())).length} valid answers detected
+                    {parseBulkAnswers(bulkText, optionSet).answers.length} valid answers detected
                   </span>
                   <Button onClick={handleBulkApply} size="sm" className="gap-1.5">
                     <ClipboardPaste className="h-3.5 w-3.5" />
@@ -415,9 +637,12 @@ const AnswerKeyForm = ({
           {/* Individual Entry Mode */}
           {entryMode === "individual" && (
             <div>
-              <Label className="text-sm md:text-base font-semibold mb-2 md:mb-3 block">
-                Answer Key (A–E) {gridMode && `— ${rows}×${columns}`}
+              <Label className="text-sm md:text-base font-semibold mb-1 block">
+                Answer Key ({describeOptionSet(optionSet)}){currentSets && ` — Set ${currentSets[activeSet].code}`} {gridMode && `— ${rows}×${columns}`}
               </Label>
+              <p className="text-xs text-muted-foreground mb-2 md:mb-3">
+                Pick a type per question. On single-choice questions shift-click to accept more than one option. Mark faulty questions as bonus or drop them from the total.
+              </p>
               {numQuestions === 0 ? (
                 <div className="text-center py-12 text-muted-foreground">
                   <p className="text-lg mb-2">No questions configured</p>
@@ -448,23 +673,13 @@ const AnswerKeyForm = ({
                         Q{index + 1}
                       </span>
                       
-                      {/* Option buttons */}
-                      <div className="flex gap-1">
-                        {['A', 'B', 'C', 'D', 'E'].map(opt => (
-                          <button
-                            key={opt}
-                            type="button"
-                            onClick={() => handleAnswerChange(index, opt)}
-                            className={`w-9 h-9 rounded-md text-sm font-bold transition-all border ${
-                              answer === opt
-                                ? 'bg-primary text-primary-foreground border-primary shadow-sm'
-                                : 'bg-background text-muted-foreground border-border hover:border-primary/50 hover:text-foreground'
-                            }`}
-                          >
-                            {opt}
-                          </button>
-                        ))}
-                      </div>
+                      <QuestionAnswerInput
+                        answer={answer}
+                        spec={questionTypes[index] ?? DEFAULT_QUESTION_SPEC}
+                        options={optionSet}
+                        onAnswerChange={(value) => handleAnswerChange(index, value)}
+                        onSpecChange={(spec) => handleSpecChange(index, spec)}
+                      />
 
                       {/* Reorder + Remove */}
                       <div className="flex items-center gap-0.5 ml-auto opacity-0 group-hover:opacity-100 transition-opacity">
@@ -545,24 +760,25 @@ const AnswerKeyForm = ({
                           const idx = r * columns + c;
                           const val = answers[idx] || '';
                           const filled = val !== '';
+                          const isSingle = (questionTypes[idx] ?? DEFAULT_QUESTION_SPEC).type === 'single';
                           return (
                             <td key={c} className="p-0.5">
               <button
                                 type="button"
                                 onClick={() => {
-                                  const options = ['A', 'B', 'C', 'D', 'E'];
-                                  const currentIdx = options.indexOf(val);
-                                  const nextVal = options[(currentIdx + 1) % options.length];
+                                  if (!isSingle) return;
+                                  const currentIdx = optionSet.indexOf(val);
+                                  const nextVal = optionSet[(currentIdx + 1) % optionSet.length];
                                   handleAnswerChange(idx, nextVal);
                                 }}
-                                className={`w-10 h-10 rounded-md border-2 flex items-center justify-center text-sm font-bold transition-colors cursor-pointer hover:border-primary/60 ${
+                                className={`w-10 h-10 rounded-md border-2 flex items-center justify-center font-bold transition-colors cursor-pointer hover:border-primary/60 ${val.length > 2 ? 'text-[10px]' : 'text-sm'} ${
                                   filled
                                     ? 'bg-primary/10 border-primary/40 text-primary'
                                     : 'bg-background border-border text-muted-foreground/30 hover:bg-muted/50'
                                 }`}
-                                title={`Click to set answer for Q${idx + 1}`}
+                                title={isSingle ? `Click to set answer for Q${idx + 1}` : `Q${idx + 1}: ${describeQuestionSpec(questionTypes[idx])}`}
                               >
-                                {filled ? val : `${idx + 1}`}
+                                {val === BONUS_KEY ? <Gift className="h-4 w-4" /> : val === DROPPED_KEY ? <Ban className="h-4 w-4" /> : filled ? val : `${idx + 1}`}
                               </button>
                             </td>
                           );
@@ -1,9 +1,10 @@
 import { useState, useEffect, useRef } from "react";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
-import { CheckCircle, XCircle, Loader2, FileText, FileSpreadsheet, Plus, Play, ChevronDown, RotateCcw, Clock, AlertTriangle } from "lucide-react";
+import { CheckCircle, XCircle, Loader2, FileText, FileSpreadsheet, Plus, Play, ChevronDown, RotateCcw, Clock, Gauge, AlertTriangle, FileQuestion, Copy } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
 import { formatBatchExport } from '@/lib/excelFormatter';
 import { useExportSettings } from '@/hooks/useExportSettings';
 import { Badge } from "@/components/ui/badge";
@@ -30,13 +31,24 @@ import {
 
 export interface BatchProcessingItem {
   fileName: string;
-  status: 'pending' | 'processing' | 'completed' | 'error';
+  // 'review': analyzed, but the paper set code couldn't be matched to the key
+  // 'conflict': saved next to an existing result for the same roll number and subject
+  status: 'pending' | 'processing' | 'completed' | 'error' | 'review' | 'conflict';
+  evaluationId?: string;
+  conflictWith?: string;    // Saved evaluation the rescan collided with
   rollNumber?: string;
   subjectCode?: string;
+  setCode?: string | null;  // Code read from the sheet, if any
+  paperSet?: string;        // Set the sheet was graded against
   score?: number;
   totalQuestions?: number;
   accuracy?: number;
+  rawMarks?: number;
+  penaltyMarks?: number;
+  maxMarks?: number;
   error?: string;
+  retryAt?: string;         // A pending sheet waiting on a backoff before its next attempt
+  finishedAt?: string;
 }
 
 interface BatchProcessorProps {
@@ -52,8 +64,15 @@ interface BatchProcessorProps {
   onRetryItem?: (index: number) => void;
   hasPendingSheets?: boolean;
   startTime?: number | null;
+  paperSetCodes?: string[];
+  onResolveSet?: (index: number, code: string) => void;
+  onCompareDuplicate?: (index: number) => void;
+  concurrency?: number | null;  // Sheets the server is reading at once
 }
 
+// Throughput is measured over the sheets finished in this trailing window
+const THROUGHPUT_WINDOW_MS = 5 * 60 * 1000;
+
 const BatchProcessor = ({ 
   items, 
   currentIndex, 
@@ -67,20 +86,26 @@ const BatchProcessor = ({
   onRetryItem,
   hasPendingSheets,
   startTime,
+  paperSetCodes,
+  onResolveSet,
+  onCompareDuplicate,
+  concurrency,
 }: BatchProcessorProps) => {
   const { settings } = useExportSettings();
   const [exporting, setExporting] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'completed' | 'error' | 'pending'>('all');
+  const [filter, setFilter] = useState<'all' | 'completed' | 'error' | 'pending' | 'review' | 'conflict'>('all');
   const listRef = useRef<HTMLDivElement>(null);
   
   const completedCount = items.filter(item => item.status === 'completed').length;
   const errorCount = items.filter(item => item.status === 'error').length;
   const pendingCount = items.filter(item => item.status === 'pending').length;
   const processingCount = items.filter(item => item.status === 'processing').length;
+  const reviewCount = items.filter(item => item.status === 'review').length;
+  const conflictCount = items.filter(item => item.status === 'conflict').length;
   const isComplete = !isProcessing && currentIndex >= items.length && pendingCount === 0;
   
   const totalTarget = expectedCount || items.length;
-  const progress = totalTarget > 0 ? ((completedCount + errorCount) / totalTarget) * 100 : 0;
+  const progress = totalTarget > 0 ? ((completedCount + errorCount + reviewCount + conflictCount) / totalTarget) * 100 : 0;
   const remainingCount = totalTarget - completedCount;
 
   // ETA calculation
@@ -91,7 +116,7 @@ const BatchProcessor = ({
       return;
     }
     const elapsed = (Date.now() - startTime) / 1000;
-    const avgPerItem = elapsed / (completedCount + errorCount);
+    const avgPerItem = elapsed / (completedCount + errorCount + reviewCount + conflictCount);
     const remaining = (pendingCount + processingCount) * avgPerItem;
     
     if (remaining < 60) {
@@ -99,7 +124,24 @@ const BatchProcessor = ({
     } else {
       setEta(`~${Math.ceil(remaining / 60)}m remaining`);
     }
-  }, [isProcessing, startTime, completedCount, errorCount, pendingCount, processingCount]);
+  }, [isProcessing, startTime, completedCount, errorCount, reviewCount, conflictCount, pendingCount, processingCount]);
+
+  // Throughput and retry countdowns depend on the clock, not just on item changes
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!isProcessing) return;
+    const timer = setInterval(() => setNow(Date.now()), 5000);
+    return () => clearInterval(timer);
+  }, [isProcessing]);
+
+  const windowStart = Math.max(now - THROUGHPUT_WINDOW_MS, startTime ?? 0);
+  const finishedInWindow = items.filter(item => item.finishedAt && Date.parse(item.finishedAt) >= windowStart).length;
+  const throughput = finishedInWindow > 0 && now > windowStart
+    ? finishedInWindow / ((now - windowStart) / 60000)
+    : null;
+  const queuedRetries = items.filter(
+    item => item.status === 'pending' && item.retryAt && Date.parse(item.retryAt) > now
+  ).length;
 
   // Auto-scroll to active item
   useEffect(() => {
@@ -174,6 +216,21 @@ const BatchProcessor = ({
                 </span>
               )}
             </p>
+            {isProcessing && (throughput !== null || queuedRetries > 0) && (
+              <p className="text-xs text-muted-foreground mt-0.5 flex flex-wrap items-center gap-x-3">
+                {throughput !== null && (
+                  <span className="inline-flex items-center gap-1">
+                    <Gauge className="h-3 w-3" /> {throughput.toFixed(1)} sheets/min
+                    {concurrency ? ` · ${concurrency} at a time` : ''}
+                  </span>
+                )}
+                {queuedRetries > 0 && (
+                  <span className="inline-flex items-center gap-1 text-amber-600 dark:text-amber-400">
+                    <RotateCcw className="h-3 w-3" /> {queuedRetries} retr{queuedRetries !== 1 ? 'ies' : 'y'} queued
+                  </span>
+                )}
+              </p>
+            )}
           </div>
           <div className="flex flex-wrap gap-2">
             {!isProcessing && onAddMore && (
@@ -296,7 +353,7 @@ const BatchProcessor = ({
         </div>
 
         {/* Status Summary Badges */}
-        {(completedCount > 0 || errorCount > 0) && (
+        {(completedCount > 0 || errorCount > 0 || reviewCount > 0 || conflictCount > 0) && (
           <div className="flex flex-wrap gap-2">
             <button
               onClick={() => setFilter('all')}
@@ -326,6 +383,28 @@ const BatchProcessor = ({
                 <XCircle className="h-3 w-3" /> {errorCount}
               </button>
             )}
+            {reviewCount > 0 && (
+              <button
+                onClick={() => setFilter('review')}
+                title="Sheets whose paper set could not be read"
+                className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium transition-all ${
+                  filter === 'review' ? 'bg-amber-600 text-white' : 'bg-amber-500/10 text-amber-700 dark:text-amber-400 hover:bg-amber-500/20'
+                }`}
+              >
+                <FileQuestion className="h-3 w-3" /> {reviewCount} need set
+              </button>
+            )}
+            {conflictCount > 0 && (
+              <button
+                onClick={() => setFilter('conflict')}
+                title="Rescans of students who already have a saved result"
+                className={`inline-flex items-center gap-1.5 px-3 py-1 rounded-full text-xs font-medium transition-all ${
+                  filter === 'conflict' ? 'bg-orange-600 text-white' : 'bg-orange-500/10 text-orange-700 dark:text-orange-400 hover:bg-orange-500/20'
+                }`}
+              >
+                <Copy className="h-3 w-3" /> {conflictCount} duplicate{conflictCount !== 1 ? 's' : ''}
+              </button>
+            )}
             {pendingCount > 0 && (
               <button
                 onClick={() => setFilter('pending')}
@@ -352,6 +431,10 @@ const BatchProcessor = ({
                     ? 'bg-green-500/10 border-green-500/20'
                     : item.status === 'error'
                     ? 'bg-red-500/10 border-red-500/20'
+                    : item.status === 'review'
+                    ? 'bg-amber-500/10 border-amber-500/30'
+                    : item.status === 'conflict'
+                    ? 'bg-orange-500/10 border-orange-500/30'
                     : item.status === 'processing'
                     ? 'bg-blue-500/10 border-blue-500/20 ring-1 ring-blue-500/30'
                     : 'bg-muted/30 border-border'
@@ -364,6 +447,12 @@ const BatchProcessor = ({
                   {item.status === 'error' && (
                     <XCircle className="h-5 w-5 text-red-600 dark:text-red-400" />
                   )}
+                  {item.status === 'review' && (
+                    <FileQuestion className="h-5 w-5 text-amber-600 dark:text-amber-400" />
+                  )}
+                  {item.status === 'conflict' && (
+                    <Copy className="h-5 w-5 text-orange-600 dark:text-orange-400" />
+                  )}
                   {item.status === 'processing' && (
                     <Loader2 className="h-5 w-5 text-blue-600 dark:text-blue-400 animate-spin" />
                   )}
@@ -385,14 +474,20 @@ const BatchProcessor = ({
                       {item.subjectCode && (
                         <p>Subject: <span className="font-mono">{item.subjectCode}</span></p>
                       )}
+                      {item.paperSet && (
+                        <p>Set: <span className="font-mono">{item.paperSet}</span></p>
+                      )}
                       {item.score !== undefined && item.totalQuestions !== undefined && (
                         <p>
                           Score: <span className="font-semibold">
-                            {item.score}/{item.totalQuestions}
+                            {item.score}/{item.maxMarks ?? item.totalQuestions}
                           </span>
                           {item.accuracy !== undefined && (
                             <span className="ml-2">({item.accuracy.toFixed(1)}%)</span>
                           )}
+                          {!!item.penaltyMarks && (
+                            <span className="ml-2 text-destructive">−{item.penaltyMarks} penalty</span>
+                          )}
                         </p>
                       )}
                     </div>
@@ -418,11 +513,70 @@ const BatchProcessor = ({
                     </div>
                   )}
                   
+                  {item.status === 'review' && (
+                    <div className="mt-1 space-y-1">
+                      <p className="text-xs text-amber-700 dark:text-amber-400 flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3 shrink-0" />
+                        {item.error || 'Paper set could not be read'}
+                      </p>
+                      {item.rollNumber && (
+                        <p className="text-xs text-muted-foreground">Roll: <span className="font-mono">{item.rollNumber}</span></p>
+                      )}
+                      {onResolveSet && paperSetCodes && paperSetCodes.length > 0 && (
+                        <div className="flex items-center gap-1 flex-wrap">
+                          <span className="text-xs text-muted-foreground mr-1">Grade as set:</span>
+                          {paperSetCodes.map(code => (
+                            <Button
+                              key={code}
+                              variant="outline"
+                              size="sm"
+                              className="h-6 min-w-[28px] px-2 text-xs font-mono"
+                              onClick={() => onResolveSet(originalIndex, code)}
+                            >
+                              {code}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
+                  {item.status === 'conflict' && (
+                    <div className="mt-1 space-y-1">
+                      <p className="text-xs text-orange-700 dark:text-orange-400 flex items-center gap-1">
+                        <AlertTriangle className="h-3 w-3 shrink-0" />
+                        Roll {item.rollNumber} already has a saved {item.subjectCode} result
+                      </p>
+                      {item.score !== undefined && (
+                        <p className="text-xs text-muted-foreground">
+                          New scan: <span className="font-semibold">{item.score}/{item.maxMarks ?? item.totalQuestions}</span>
+                        </p>
+                      )}
+                      {onCompareDuplicate && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-6 px-2 text-xs gap-1"
+                          onClick={() => onCompareDuplicate(originalIndex)}
+                        >
+                          <Copy className="h-3 w-3" />
+                          Compare & resolve
+                        </Button>
+                      )}
+                    </div>
+                  )}
+
                   {item.status === 'processing' && (
                     <p className="text-xs text-blue-600 dark:text-blue-400 mt-1 animate-pulse">
                       Analyzing answer sheet...
                     </p>
                   )}
+
+                  {item.status === 'pending' && item.retryAt && Date.parse(item.retryAt) > now && (
+                    <p className="text-xs text-amber-600 dark:text-amber-400 mt-1">
+                      {item.error || 'Waiting to retry'} · retrying at {format(new Date(item.retryAt), 'HH:mm:ss')}
+                    </p>
+                  )}
                 </div>
               </div>
             );
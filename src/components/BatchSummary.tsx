@@ -27,7 +27,7 @@ const BatchSummary = ({ items }: BatchSummaryProps) => {
     .filter(item => item.score !== undefined && item.totalQuestions !== undefined)
     .map(item => ({
       score: item.score!,
-      total: item.totalQuestions!,
+      total: item.maxMarks ?? item.totalQuestions!,
       accuracy: item.accuracy || (item.score! / item.totalQuestions!) * 100,
       rollNumber: item.rollNumber,
       subjectCode: item.subjectCode,
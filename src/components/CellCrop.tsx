@@ -0,0 +1,72 @@
+import { useEffect, useRef, useState } from "react";
+import { ImageOff } from "lucide-react";
+import { padRegion, type CellRegion } from "@/lib/cellRegions";
+
+interface CellCropProps {
+  imageUrl: string | null;
+  region: CellRegion | null;
+  className?: string;
+}
+
+// Sheets have many cells in the queue; each image is downloaded once
+const imageCache = new Map<string, Promise<HTMLImageElement>>();
+
+const loadImage = (url: string) => {
+  let pending = imageCache.get(url);
+  if (!pending) {
+    pending = new Promise<HTMLImageElement>((resolve, reject) => {
+      const img = new Image();
+      img.onload = () => resolve(img);
+      img.onerror = () => reject(new Error('Image failed to load'));
+      img.src = url;
+    });
+    pending.catch(() => imageCache.delete(url));
+    imageCache.set(url, pending);
+  }
+  return pending;
+};
+
+/** Draws one cell of a sheet image, with a little of its surroundings for context. */
+const CellCrop = ({ imageUrl, region, className = "h-20 w-60" }: CellCropProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [failed, setFailed] = useState(false);
+  const usable = !!imageUrl && imageUrl.startsWith('http') && !!region;
+
+  useEffect(() => {
+    setFailed(false);
+    if (!usable) return;
+    let cancelled = false;
+
+    loadImage(imageUrl!)
+      .then((img) => {
+        const canvas = canvasRef.current;
+        if (cancelled || !canvas) return;
+        const area = padRegion(region!, 0.15);
+        const sx = area.x * img.naturalWidth;
+        const sy = area.y * img.naturalHeight;
+        const sw = area.width * img.naturalWidth;
+        const sh = area.height * img.naturalHeight;
+        canvas.width = Math.max(1, Math.round(sw));
+        canvas.height = Math.max(1, Math.round(sh));
+        canvas.getContext('2d')?.drawImage(img, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+      })
+      .catch(() => !cancelled && setFailed(true));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageUrl, region, usable]);
+
+  if (!usable || failed) {
+    return (
+      <div className={`${className} flex items-center justify-center gap-1 rounded-md border border-dashed text-xs text-muted-foreground`}>
+        <ImageOff className="h-4 w-4" />
+        {imageUrl && region ? 'Image unavailable' : 'No cell image'}
+      </div>
+    );
+  }
+
+  return <canvas ref={canvasRef} className={`${className} rounded-md border bg-white object-contain`} />;
+};
+
+export default CellCrop;
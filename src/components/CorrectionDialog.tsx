@@ -0,0 +1,144 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { describeQuestionSpec, isUnattemptedAnswer, type QuestionSpec } from "@shared/scoring";
+import { isValidCorrection } from "@shared/grading";
+import { applyOptionClick, isOptionSelected, optionsForSpec } from "@/lib/answerKey";
+import { formatCorrectionAnswer, type AnswerCorrection } from "@/lib/corrections";
+import CorrectionLog from "@/components/CorrectionLog";
+
+interface CorrectionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  question: number;
+  extracted: string;
+  correct: string;
+  spec: QuestionSpec;
+  options: string[];
+  history: AnswerCorrection[];
+  onSubmit: (answer: string, reason: string) => Promise<void>;
+}
+
+/** Overrides the answer read from one question of a sheet, with a reason for the audit trail. */
+const CorrectionDialog = ({ open, onOpenChange, question, extracted, correct, spec, options, history, onSubmit }: CorrectionDialogProps) => {
+  const current = isUnattemptedAnswer(extracted) ? '' : extracted;
+  const [answer, setAnswer] = useState(current);
+  const [reason, setReason] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+    setAnswer(current);
+    setReason('');
+  }, [open, question, current]);
+
+  const unchanged = answer === current;
+  const valid = isValidCorrection(answer, options, spec);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await onSubmit(answer, reason.trim());
+      onOpenChange(false);
+    } catch {
+      // The caller reports the failure; stay open so the correction can be retried
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !saving && onOpenChange(next)}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Correct Question {question}</DialogTitle>
+          <DialogDescription>
+            Read as <span className="font-mono font-semibold">{formatCorrectionAnswer(extracted)}</span>
+            {' · '}Key <span className="font-mono font-semibold">{correct}</span>
+            {spec.type !== 'single' && <> · {describeQuestionSpec(spec)}</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Marked answer</Label>
+            <div className="flex gap-1 flex-wrap">
+              {spec.type === 'numeric' ? (
+                <Input
+                  value={answer}
+                  onChange={(e) => setAnswer(e.target.value.replace(/\s/g, ''))}
+                  placeholder="e.g. 12.5"
+                  className="h-9 w-28 font-mono"
+                />
+              ) : (
+                optionsForSpec(spec, options).map(opt => (
+                  <button
+                    key={opt}
+                    type="button"
+                    onClick={() => setAnswer(applyOptionClick(answer, opt, false, spec, options))}
+                    className={`w-9 h-9 rounded-md text-sm font-bold transition-all border ${
+                      isOptionSelected(answer, opt, spec)
+                        ? 'bg-primary text-primary-foreground border-primary shadow-sm'
+                        : 'bg-background text-muted-foreground border-border hover:border-primary/50 hover:text-foreground'
+                    }`}
+                  >
+                    {opt}
+                  </button>
+                ))
+              )}
+              <Button
+                type="button"
+                variant={answer === '' ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setAnswer('')}
+                className="h-9"
+              >
+                Blank
+              </Button>
+            </div>
+            {!valid && <p className="text-xs text-destructive">Not a valid answer for this question</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="correction-reason">Reason</Label>
+            <Textarea
+              id="correction-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Faint mark on B missed by the reader; checked against the original sheet"
+              rows={3}
+            />
+          </div>
+
+          {history.length > 0 && (
+            <div className="space-y-2">
+              <Label>Previous corrections</Label>
+              <CorrectionLog corrections={history} showQuestion={false} />
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>Cancel</Button>
+          <Button onClick={handleSave} disabled={saving || unchanged || !valid || !reason.trim()}>
+            {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Save Correction
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CorrectionDialog;
@@ -0,0 +1,35 @@
+import { ArrowRight } from "lucide-react";
+import { format } from "date-fns";
+import { formatCorrectionAnswer, type AnswerCorrection } from "@/lib/corrections";
+
+interface CorrectionLogProps {
+  corrections: AnswerCorrection[];
+  showQuestion?: boolean;
+}
+
+const formatScore = (score: number | null) => (score == null ? '?' : Math.round(Number(score) * 100) / 100);
+
+/** Audit entries for manual answer corrections, newest first. */
+const CorrectionLog = ({ corrections, showQuestion = true }: CorrectionLogProps) => (
+  <ul className="space-y-2">
+    {corrections.map(correction => (
+      <li key={correction.id} className="text-xs p-2 rounded-md border bg-muted/30">
+        <div className="flex items-center gap-2 flex-wrap">
+          {showQuestion && <span className="font-semibold">Q{correction.question_number}</span>}
+          <span className="font-mono">{formatCorrectionAnswer(correction.original_answer)}</span>
+          <ArrowRight className="h-3 w-3 text-muted-foreground" />
+          <span className="font-mono font-bold">{formatCorrectionAnswer(correction.new_answer)}</span>
+          <span className="text-muted-foreground">
+            Score {formatScore(correction.old_score)} → {formatScore(correction.new_score)}
+          </span>
+          <span className="ml-auto text-muted-foreground">
+            {format(new Date(correction.created_at), 'MMM dd, yyyy HH:mm')}
+          </span>
+        </div>
+        <p className="mt-1 text-muted-foreground">{correction.reason}</p>
+      </li>
+    ))}
+  </ul>
+);
+
+export default CorrectionLog;
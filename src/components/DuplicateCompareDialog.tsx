@@ -0,0 +1,197 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Copy, ImageOff } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useSheetImageUrls } from "@/hooks/useSheetImageUrls";
+import { format } from "date-fns";
+import { formatCorrectionAnswer } from "@/lib/corrections";
+import {
+  differingQuestions,
+  fetchDuplicatePair,
+  resolveDuplicate,
+  type DuplicateChoice,
+  type DuplicateScan,
+} from "@/lib/duplicates";
+
+interface DuplicateCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  rescanId: string | null;
+  existingId: string | null;
+  /** Called with the scan that now counts for this student and subject. */
+  onResolved: (choice: DuplicateChoice, kept: DuplicateScan | null) => void;
+}
+
+interface ScanColumnProps {
+  title: string;
+  scan: DuplicateScan;
+  imageUrl?: string;
+  differing: Set<number>;
+}
+
+const ScanColumn = ({ title, scan, imageUrl, differing }: ScanColumnProps) => (
+  <div className="space-y-3 min-w-0">
+    <div className="flex items-center justify-between gap-2">
+      <h4 className="font-semibold text-sm">{title}</h4>
+      <span className="text-xs text-muted-foreground">{format(new Date(scan.created_at), 'MMM d, yyyy HH:mm')}</span>
+    </div>
+    {imageUrl ? (
+      <img src={imageUrl} alt={title} className="w-full max-h-72 object-contain rounded-lg border bg-muted/20" />
+    ) : (
+      <div className="h-40 flex flex-col items-center justify-center gap-1 rounded-lg border bg-muted/20 text-xs text-muted-foreground">
+        <ImageOff className="h-5 w-5" />
+        Image not available
+      </div>
+    )}
+    <div className="flex flex-wrap items-center gap-2 text-sm">
+      {scan.score == null ? (
+        <span className="font-semibold">Set needed</span>
+      ) : (
+        <>
+          <span className="font-semibold">{scan.score}/{scan.max_marks ?? scan.total_questions}</span>
+          <Badge variant="secondary">{Number(scan.accuracy).toFixed(1)}%</Badge>
+        </>
+      )}
+      {scan.paper_set && <Badge variant="outline">Set {scan.paper_set}</Badge>}
+      {scan.confidence && <Badge variant="outline">{scan.confidence} confidence</Badge>}
+      {!!scan.penalty_marks && <span className="text-xs text-destructive">−{scan.penalty_marks} penalty</span>}
+    </div>
+    <div className="grid grid-cols-5 gap-1 text-xs font-mono">
+      {scan.extracted_answers.map((answer, i) => (
+        <span
+          key={i}
+          className={`px-1 py-0.5 rounded border text-center truncate ${
+            differing.has(i + 1) ? 'border-amber-500 bg-amber-400/20 font-semibold' : 'border-transparent text-muted-foreground'
+          }`}
+        >
+          {i + 1}: {formatCorrectionAnswer(answer)}
+        </span>
+      ))}
+    </div>
+  </div>
+);
+
+/** Side-by-side view of a saved result and a rescan of the same student and subject. */
+const DuplicateCompareDialog = ({ open, onOpenChange, rescanId, existingId, onResolved }: DuplicateCompareDialogProps) => {
+  const [pair, setPair] = useState<{ existing: DuplicateScan | null; rescan: DuplicateScan | null } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [resolving, setResolving] = useState<DuplicateChoice | null>(null);
+
+  useEffect(() => {
+    if (!open || !rescanId || !existingId) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const result = await fetchDuplicatePair(rescanId, existingId);
+        if (!cancelled) setPair(result);
+      } catch (error) {
+        console.error('Error loading duplicate scans:', error);
+        toast({
+          title: "Couldn't load the scans",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, rescanId, existingId]);
+
+  const handleResolve = async (choice: DuplicateChoice) => {
+    if (!rescanId) return;
+    setResolving(choice);
+    try {
+      await resolveDuplicate(rescanId, choice);
+      onResolved(choice, choice === 'replace' ? pair?.rescan ?? null : pair?.existing ?? null);
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        title: "Couldn't resolve duplicate",
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const existing = pair?.existing;
+  const rescan = pair?.rescan;
+  const differing = new Set(existing && rescan ? differingQuestions(existing, rescan) : []);
+  const imageUrls = useSheetImageUrls([existing?.image_url, rescan?.image_url]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Copy className="h-5 w-5" />
+            Duplicate Sheet
+          </DialogTitle>
+          <DialogDescription>
+            Roll {rescan?.roll_number ?? existing?.roll_number ?? '—'} already has a saved result for
+            subject {rescan?.subject_code ?? existing?.subject_code ?? '—'}. Choose which scan counts;
+            replacing keeps the saved result as a previous version.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !rescan ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">This rescan no longer exists.</p>
+        ) : (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {!existing
+                ? "The earlier result was deleted, so this rescan can simply be kept."
+                : differing.size === 0
+                ? "Both scans read the same answers."
+                : `${differing.size} answer${differing.size !== 1 ? 's' : ''} read differently (highlighted).`}
+            </p>
+            <div className="grid md:grid-cols-2 gap-6">
+              {existing && <ScanColumn title="Saved result" scan={existing} imageUrl={imageUrls[existing.image_url]} differing={differing} />}
+              <ScanColumn title="New scan" scan={rescan} imageUrl={imageUrls[rescan.image_url]} differing={differing} />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-2 flex-wrap">
+          <Button variant="outline" onClick={() => handleResolve('keep-old')} disabled={!rescan || !!resolving}>
+            {resolving === 'keep-old' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {existing ? "Keep saved result" : "Discard new scan"}
+          </Button>
+          {existing && (
+            <Button variant="outline" onClick={() => handleResolve('keep-both')} disabled={!!resolving}>
+              {resolving === 'keep-both' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              Keep both, saved result counts
+            </Button>
+          )}
+          <Button onClick={() => handleResolve('replace')} disabled={!rescan || !!resolving}>
+            {resolving === 'replace' && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            {existing ? "Replace with new scan" : "Keep new scan"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DuplicateCompareDialog;
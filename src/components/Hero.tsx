@@ -1,4 +1,4 @@
-import { ScanSearch, Zap, CheckCircle, TrendingUp, LogOut, History, Key } from "lucide-react";
+import { ScanSearch, Zap, CheckCircle, TrendingUp, LogOut, History, Key, ClipboardCheck, Gauge } from "lucide-react";
 import { Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
@@ -37,6 +37,24 @@ const Hero = ({ session }: { session: Session }) => {
             <History className="h-4 w-4 md:mr-2" />
             <span className="hidden md:inline">History</span>
           </Button>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={() => navigate('/review')}
+            className="bg-white/10 border-white/20 hover:bg-white/20 text-white"
+          >
+            <ClipboardCheck className="h-4 w-4 md:mr-2" />
+            <span className="hidden md:inline">Review</span>
+          </Button>
+          <Button 
+            variant="outline" 
+            size="sm"
+            onClick={() => navigate('/usage')}
+            className="bg-white/10 border-white/20 hover:bg-white/20 text-white"
+          >
+            <Gauge className="h-4 w-4 md:mr-2" />
+            <span className="hidden md:inline">Usage</span>
+          </Button>
           <Button 
             variant="outline" 
             size="sm"
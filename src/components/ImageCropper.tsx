@@ -1,98 +1,266 @@
-import { useState, useRef, useCallback } from "react";
-import ReactCrop, { type Crop, type PixelCrop } from "react-image-crop";
-import "react-image-crop/dist/ReactCrop.css";
+import { useEffect, useMemo, useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Crop as CropIcon, Check, RotateCcw, X } from "lucide-react";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Crop as CropIcon, Check, Loader2, RotateCcw, RotateCw, Undo2, X } from "lucide-react";
+import {
+  DEFAULT_ADJUSTMENTS,
+  loadImage,
+  renderSheet,
+  rotateImage,
+  rotationFrame,
+  type SheetAdjustments,
+} from "@/lib/sheetPipeline";
+import type { Point, Quad } from "@shared/vision";
+
+/** How a photo was cropped, so the crop can be opened again on the same photo. */
+export interface CropSettings {
+  corners: Quad;  // In the photo's own pixels
+  turns: number;
+  degrees: number;
+  adjustments: SheetAdjustments;
+}
 
 interface ImageCropperProps {
   imageSrc: string;
-  onCropComplete: (croppedImageUrl: string) => void;
+  onCropComplete: (croppedImageUrl: string, crop: CropSettings) => void;
   onCancel: () => void;
+  sheetCorners?: Quad | null;  // Detected sheet outline, in the image's pixels
+  initialCrop?: CropSettings | null;  // The previous crop of this photo, when editing it again
 }
 
-const ImageCropper = ({ imageSrc, onCropComplete, onCancel }: ImageCropperProps) => {
-  const [crop, setCrop] = useState<Crop>({
-    unit: "%",
-    x: 10,
-    y: 10,
-    width: 80,
-    height: 80,
-  });
-  const [completedCrop, setCompletedCrop] = useState<PixelCrop | null>(null);
-  const imgRef = useRef<HTMLImageElement>(null);
-
-  const resetCrop = () => {
-    setCrop({ unit: "%", x: 10, y: 10, width: 80, height: 80 });
-  };
+const DISPLAY_SIDE = 1200;    // The editing view is drawn at most this large
+const OUTPUT_SIDE = 2400;     // The image is turned at this size before the final warp
+const PREVIEW_SIDE = 360;
+const PREVIEW_DELAY_MS = 150;
+const FINE_ROTATION_LIMIT = 15;
+const DEFAULT_INSET = 0.1;    // Without a detected outline the corners start 10% in from the edges
+const CORNER_LABELS = ["Top left", "Top right", "Bottom right", "Bottom left"];
+
+type Frame = ReturnType<typeof rotationFrame>;
+
+const clamp = (value: number, max: number) => Math.min(max, Math.max(0, value));
 
-  const getCroppedImage = useCallback(() => {
-    if (!imgRef.current || !completedCrop) return;
+// Corners are kept in the photo's own pixels, in the photo's own order. Turned
+// by quarter turns, the corner that was top-left is shown turns places on.
+const shownCorners = (corners: Quad, frame: Frame, turns: number): Quad => {
+  const shown = new Array<Point>(4);
+  corners.forEach((corner, i) => { shown[(i + turns) % 4] = frame.apply(corner); });
+  return shown as Quad;
+};
+
+const defaultCorners = (frame: Frame, turns: number): Quad => {
+  const [x0, y0] = [frame.width * DEFAULT_INSET, frame.height * DEFAULT_INSET];
+  const [x1, y1] = [frame.width - x0, frame.height - y0];
+  const shown: Quad = [{ x: x0, y: y0 }, { x: x1, y: y0 }, { x: x1, y: y1 }, { x: x0, y: y1 }];
+  return shown.map((_, i) => frame.invert(shown[(i + turns) % 4])) as Quad;
+};
 
-    const image = imgRef.current;
-    const canvas = document.createElement("canvas");
-    const scaleX = image.naturalWidth / image.width;
-    const scaleY = image.naturalHeight / image.height;
+/**
+ * Perspective crop: the four corners of the sheet are dragged onto the photo,
+ * which can be turned in quarter turns and straightened, and the result is
+ * previewed with the brightness, contrast and threshold it will be sent with.
+ */
+const ImageCropper = ({ imageSrc, onCropComplete, onCancel, sheetCorners, initialCrop }: ImageCropperProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [turns, setTurns] = useState(initialCrop?.turns ?? 0);
+  const [degrees, setDegrees] = useState(initialCrop?.degrees ?? 0);
+  // Null until the outline is detected or moved: the default frame then follows the rotation
+  const [corners, setCorners] = useState<Quad | null>(initialCrop?.corners ?? sheetCorners ?? null);
+  const [adjustments, setAdjustments] = useState<SheetAdjustments>(initialCrop?.adjustments ?? DEFAULT_ADJUSTMENTS);
+  const [preview, setPreview] = useState<string | null>(null);
+  const [applying, setApplying] = useState(false);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragging = useRef<number | null>(null);
 
-    canvas.width = completedCrop.width * scaleX;
-    canvas.height = completedCrop.height * scaleY;
+  useEffect(() => {
+    let cancelled = false;
+    setLoadFailed(false);
+    loadImage(imageSrc)
+      .then(loaded => { if (!cancelled) setImage(loaded); })
+      .catch(() => { if (!cancelled) setLoadFailed(true); });
+    return () => { cancelled = true; };
+  }, [imageSrc]);
 
-    const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+  useEffect(() => setCorners(initialCrop?.corners ?? sheetCorners ?? null), [sheetCorners, initialCrop]);
 
-    ctx.imageSmoothingEnabled = true;
-    ctx.imageSmoothingQuality = "high";
+  const frame = useMemo(
+    () => image && rotationFrame(image.naturalWidth, image.naturalHeight, turns, degrees),
+    [image, turns, degrees],
+  );
+  const display = useMemo(() => image && rotateImage(image, turns, degrees, DISPLAY_SIDE), [image, turns, degrees]);
+  const shown = useMemo(
+    () => frame && shownCorners(corners ?? defaultCorners(frame, turns), frame, turns),
+    [frame, corners, turns],
+  );
 
-    ctx.drawImage(
-      image,
-      completedCrop.x * scaleX,
-      completedCrop.y * scaleY,
-      completedCrop.width * scaleX,
-      completedCrop.height * scaleY,
-      0,
-      0,
-      canvas.width,
-      canvas.height
-    );
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !display) return;
+    canvas.width = display.width;
+    canvas.height = display.height;
+    canvas.getContext("2d")?.drawImage(display, 0, 0);
+  }, [display]);
 
-    const croppedDataUrl = canvas.toDataURL("image/jpeg", 0.9);
-    onCropComplete(croppedDataUrl);
-  }, [completedCrop, onCropComplete]);
+  // The preview is rendered exactly as the upload will be, once dragging pauses
+  useEffect(() => {
+    if (!display || !frame || !shown) return;
+    const timer = setTimeout(() => {
+      const scale = display.width / frame.width;
+      setPreview(renderSheet(display, shown.map(p => ({ x: p.x * scale, y: p.y * scale })) as Quad, adjustments, PREVIEW_SIDE));
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [display, frame, shown, adjustments]);
+
+  const moveCorner = (index: number, clientX: number, clientY: number) => {
+    const canvas = canvasRef.current;
+    if (!canvas || !frame || !shown) return;
+    const rect = canvas.getBoundingClientRect();
+    const point = {
+      x: clamp((clientX - rect.left) / rect.width, 1) * frame.width,
+      y: clamp((clientY - rect.top) / rect.height, 1) * frame.height,
+    };
+    const next = [...shown] as Quad;
+    next[index] = point;
+    setCorners(next.map((_, i) => frame.invert(next[(i + turns) % 4])) as Quad);
+  };
+
+  const rotate = (step: number) => setTurns(current => (current + step + 4) % 4);
+
+  const reset = () => {
+    setTurns(0);
+    setDegrees(0);
+    setCorners(sheetCorners ?? null);
+    setAdjustments(DEFAULT_ADJUSTMENTS);
+  };
+
+  const apply = () => {
+    if (!image || !frame || !shown) return;
+    setApplying(true);
+    // Let the button show its spinner before the full-size warp blocks the page
+    setTimeout(() => {
+      try {
+        const turned = rotateImage(image, turns, degrees, OUTPUT_SIDE);
+        const scale = turned.width / frame.width;
+        onCropComplete(
+          renderSheet(turned, shown.map(p => ({ x: p.x * scale, y: p.y * scale })) as Quad, adjustments),
+          { corners: corners ?? defaultCorners(frame, turns), turns, degrees, adjustments },
+        );
+      } finally {
+        setApplying(false);
+      }
+    }, 0);
+  };
+
+  const setAdjustment = (key: keyof SheetAdjustments) => ([value]: number[]) =>
+    setAdjustments(current => ({ ...current, [key]: value }));
 
   return (
     <div className="space-y-4">
       <div className="flex items-center gap-2 px-6 pt-2">
         <CropIcon className="h-5 w-5 text-primary" />
         <p className="text-sm font-medium text-foreground">
-          Drag to select the answer sheet area, then confirm
+          Drag the four corners onto the corners of the answer sheet, then confirm
         </p>
       </div>
 
-      <div className="flex justify-center bg-muted/30 p-2 max-h-[500px] overflow-auto">
-        <ReactCrop
-          crop={crop}
-          onChange={(c) => setCrop(c)}
-          onComplete={(c) => setCompletedCrop(c)}
-        >
-          <img
-            ref={imgRef}
-            src={imageSrc}
-            alt="Crop answer sheet"
-            className="max-h-[460px] w-auto"
-          />
-        </ReactCrop>
+      <div className="grid gap-4 px-2 md:grid-cols-[1fr_240px]">
+        <div className="flex justify-center bg-muted/30 p-2">
+          {shown ? (
+            <div className="relative inline-block select-none">
+              <canvas
+                ref={canvasRef}
+                className="block max-h-[460px] max-w-full h-auto w-auto"
+                style={{ filter: `brightness(${1 + adjustments.brightness / 100}) contrast(${1 + adjustments.contrast / 100})` }}
+              />
+              <svg
+                className="absolute inset-0 h-full w-full pointer-events-none"
+                viewBox={`0 0 ${frame?.width} ${frame?.height}`}
+                preserveAspectRatio="none"
+              >
+                <polygon
+                  points={shown.map(p => `${p.x},${p.y}`).join(" ")}
+                  className="fill-primary/10 stroke-primary"
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {shown.map((point, index) => (
+                <div
+                  key={index}
+                  title={`${CORNER_LABELS[index]} corner`}
+                  className="absolute h-6 w-6 -translate-x-1/2 -translate-y-1/2 rounded-full border-2 border-white bg-primary shadow-md cursor-grab touch-none"
+                  style={{ left: `${(point.x / (frame?.width || 1)) * 100}%`, top: `${(point.y / (frame?.height || 1)) * 100}%` }}
+                  onPointerDown={(e) => {
+                    e.currentTarget.setPointerCapture(e.pointerId);
+                    dragging.current = index;
+                  }}
+                  onPointerMove={(e) => {
+                    if (dragging.current === index) moveCorner(index, e.clientX, e.clientY);
+                  }}
+                  onPointerUp={() => { dragging.current = null; }}
+                />
+              ))}
+            </div>
+          ) : loadFailed ? (
+            <p className="text-sm text-muted-foreground my-12">This image could not be opened.</p>
+          ) : (
+            <Loader2 className="h-8 w-8 animate-spin text-primary my-12" />
+          )}
+        </div>
+
+        <div className="space-y-4 text-sm">
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => rotate(-1)} title="Turn left">
+              <RotateCcw className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => rotate(1)} title="Turn right">
+              <RotateCw className="h-4 w-4" />
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <Label>Straighten: {degrees > 0 ? '+' : ''}{degrees}°</Label>
+            <Slider
+              min={-FINE_ROTATION_LIMIT}
+              max={FINE_ROTATION_LIMIT}
+              step={0.5}
+              value={[degrees]}
+              onValueChange={([value]) => setDegrees(value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Brightness: {adjustments.brightness}</Label>
+            <Slider min={-100} max={100} step={1} value={[adjustments.brightness]} onValueChange={setAdjustment('brightness')} />
+          </div>
+          <div className="space-y-2">
+            <Label>Contrast: {adjustments.contrast}</Label>
+            <Slider min={-100} max={100} step={1} value={[adjustments.contrast]} onValueChange={setAdjustment('contrast')} />
+          </div>
+          <div className="space-y-2">
+            <Label>Threshold: {adjustments.threshold > 0 ? adjustments.threshold : 'Off'}</Label>
+            <Slider min={0} max={40} step={1} value={[adjustments.threshold]} onValueChange={setAdjustment('threshold')} />
+          </div>
+          {preview && (
+            <div className="space-y-1">
+              <p className="text-xs text-muted-foreground">Preview of what will be sent</p>
+              <img src={preview} alt="Flattened sheet preview" className="w-full rounded border" />
+            </div>
+          )}
+        </div>
       </div>
 
       <div className="flex justify-center gap-3 px-6 pb-4">
-        <Button variant="outline" size="sm" onClick={resetCrop}>
-          <RotateCcw className="mr-1 h-4 w-4" />
+        <Button variant="outline" size="sm" onClick={reset}>
+          <Undo2 className="mr-1 h-4 w-4" />
           Reset
         </Button>
         <Button variant="outline" size="sm" onClick={onCancel}>
           <X className="mr-1 h-4 w-4" />
           Skip Crop
         </Button>
-        <Button size="sm" onClick={getCroppedImage} disabled={!completedCrop}>
-          <Check className="mr-1 h-4 w-4" />
+        <Button size="sm" onClick={apply} disabled={!shown || applying}>
+          {applying ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Check className="mr-1 h-4 w-4" />}
           Apply Crop
         </Button>
       </div>
@@ -5,7 +5,11 @@ import { Button } from "@/components/ui/button";
 import { Card, CardDescription, CardTitle } from "@/components/ui/card";
 import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
 import { useToast } from "@/hooks/use-toast";
-import ImageCropper from "@/components/ImageCropper";
+import ImageCropper, { type CropSettings } from "@/components/ImageCropper";
+import PhotoQualityAlert from "@/components/PhotoQualityAlert";
+import { DEFAULT_ADJUSTMENTS, detectSheetCorners, prepareSheetImage } from "@/lib/sheetPipeline";
+import { checkPhotoQuality, type PhotoQuality } from "@/lib/photoQuality";
+import type { Quad } from "@shared/vision";
 
 interface ImageUploadProps {
   onImageUpload: (imageUrl: string) => void;
@@ -16,10 +20,22 @@ interface ImageUploadProps {
   onAppendModeChange?: (append: boolean) => void;
 }
 
+// A batch photo the quality check held back, kept unprocessed for "Add anyway"
+type SetAsideShot = { file: File; dataUrl: string; quality: PhotoQuality };
+
+// The photo behind the current sheet image and how it was cropped, so editing
+// the crop starts again from the photo rather than the already warped result
+type CroppedPhoto = { source: string; output: string; crop: CropSettings };
+
 const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode = false, appendMode = false, onAppendModeChange }: ImageUploadProps) => {
   const [isDragging, setIsDragging] = useState(false);
   const [showCamera, setShowCamera] = useState(false);
   const [cropImage, setCropImage] = useState<string | null>(null);
+  const [cropCorners, setCropCorners] = useState<Quad | null>(null);
+  const [initialCrop, setInitialCrop] = useState<CropSettings | null>(null);
+  const [croppedPhoto, setCroppedPhoto] = useState<CroppedPhoto | null>(null);
+  const [photoQuality, setPhotoQuality] = useState<PhotoQuality | null>(null);
+  const [setAside, setSetAside] = useState<SetAsideShot[]>([]);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
@@ -61,72 +77,24 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
     });
   };
 
-  const compressImage = async (dataUrl: string, maxWidth: number = 1920, maxHeight: number = 1920): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const img = new Image();
-      img.onload = () => {
-        let width = img.width;
-        let height = img.height;
-
-        // Only resize if needed
-        if (width > maxWidth || height > maxHeight) {
-          const ratio = Math.min(maxWidth / width, maxHeight / height);
-          width = Math.round(width * ratio);
-          height = Math.round(height * ratio);
-        }
-
-        // Use OffscreenCanvas if available for better performance
-        let canvas: HTMLCanvasElement | OffscreenCanvas;
-        let ctx: CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
-        
-        if (typeof OffscreenCanvas !== 'undefined') {
-          canvas = new OffscreenCanvas(width, height);
-          ctx = canvas.getContext('2d');
-        } else {
-          canvas = document.createElement('canvas');
-          canvas.width = width;
-          canvas.height = height;
-          ctx = canvas.getContext('2d');
-        }
-
-        if (!ctx) {
-          reject(new Error('Failed to get canvas context'));
-          return;
-        }
-
-        ctx.imageSmoothingEnabled = true;
-        ctx.imageSmoothingQuality = 'high';
-        ctx.drawImage(img, 0, 0, width, height);
-        
-        // Lightweight contrast enhancement via CSS filter alternative
-        const imageData = ctx.getImageData(0, 0, width, height);
-        const data = imageData.data;
-        const factor = 1.2;
-        const intercept = 128 * (1 - factor);
-        
-        // Process in chunks for large images to avoid jank
-        for (let i = 0; i < data.length; i += 4) {
-          data[i] = Math.min(255, Math.max(0, data[i] * factor + intercept));
-          data[i + 1] = Math.min(255, Math.max(0, data[i + 1] * factor + intercept));
-          data[i + 2] = Math.min(255, Math.max(0, data[i + 2] * factor + intercept));
-        }
-        
-        ctx.putImageData(imageData, 0, 0);
+  // Opens the cropper on a photo, framed on the sheet outline when one is found
+  const openCropper = async (dataUrl: string) => {
+    const corners = await detectSheetCorners(dataUrl).catch(() => null);
+    setInitialCrop(null);
+    setCropCorners(corners);
+    setCropImage(dataUrl);
+  };
 
-        if (canvas instanceof OffscreenCanvas) {
-          canvas.convertToBlob({ type: 'image/jpeg', quality: 0.82 }).then(blob => {
-            const reader = new FileReader();
-            reader.onloadend = () => resolve(reader.result as string);
-            reader.onerror = () => reject(new Error('Failed to read blob'));
-            reader.readAsDataURL(blob);
-          }).catch(reject);
-        } else {
-          resolve(canvas.toDataURL('image/jpeg', 0.82));
-        }
-      };
-      img.onerror = () => reject(new Error('Failed to load image'));
-      img.src = dataUrl;
-    });
+  // New photos are checked first: one that can't be read is refused with tips,
+  // one that may read poorly opens in the cropper with its warnings shown
+  const checkAndOpenCropper = async (dataUrl: string) => {
+    const quality = await checkPhotoQuality(dataUrl).catch(() => null);
+    if (!quality) return openCropper(dataUrl);
+    setPhotoQuality(quality.verdict === 'ok' ? null : quality);
+    if (quality.verdict === 'block') return;
+    setInitialCrop(null);
+    setCropCorners(quality.corners);
+    setCropImage(dataUrl);
   };
 
   const handleFile = async (file: File) => {
@@ -189,7 +157,7 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
           const originalDataUrl = reader.result as string;
           
           // Show cropper instead of directly processing
-          setCropImage(originalDataUrl);
+          await checkAndOpenCropper(originalDataUrl);
         } catch (error) {
           toast({
             title: "Processing failed",
@@ -240,6 +208,7 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
     // Batch upload mode - always use batch handler for batch mode, regardless of file count
     if (isBatchMode && onBatchUpload) {
       const processedImages: { file: File; dataUrl: string }[] = [];
+      const heldBack: SetAsideShot[] = [];
       
       toast({
         title: `Processing ${files.length} image${files.length > 1 ? 's' : ''}...`,
@@ -268,28 +237,36 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
             continue;
           }
 
-          // Read and compress
-          const dataUrl = await new Promise<string>((resolve, reject) => {
+          const originalDataUrl = await new Promise<string>((resolve, reject) => {
             const reader = new FileReader();
-            reader.onloadend = async () => {
-              try {
-                const originalDataUrl = reader.result as string;
-                const processedDataUrl = await compressImage(originalDataUrl);
-                resolve(processedDataUrl);
-              } catch (error) {
-                reject(error);
-              }
-            };
+            reader.onloadend = () => resolve(reader.result as string);
             reader.onerror = reject;
             reader.readAsDataURL(file);
           });
 
-          processedImages.push({ file, dataUrl });
+          // Shots that fail the quality check are set aside for a retake
+          const quality = await checkPhotoQuality(originalDataUrl);
+          if (quality.verdict !== 'ok') {
+            heldBack.push({ file, dataUrl: originalDataUrl, quality });
+            continue;
+          }
+
+          // Flatten the sheet and even out its lighting
+          const prepared = await prepareSheetImage(originalDataUrl, quality.corners);
+          processedImages.push({ file, dataUrl: prepared.dataUrl });
         } catch (error) {
           // Skip files that fail processing
         }
       }
 
+      if (heldBack.length > 0) {
+        setSetAside(prev => [...prev, ...heldBack]);
+        toast({
+          title: `${heldBack.length} photo${heldBack.length !== 1 ? 's' : ''} set aside`,
+          description: "They may not read well. See the tips below the upload area.",
+        });
+      }
+
       if (processedImages.length > 0) {
         // Always append in batch mode after first upload
         onBatchUpload(processedImages, appendMode);
@@ -297,7 +274,7 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
         if (onAppendModeChange) {
           onAppendModeChange(true);
         }
-      } else {
+      } else if (heldBack.length === 0) {
         toast({
           title: "No valid images",
           description: "None of the selected files could be processed",
@@ -316,37 +293,50 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
   };
 
   const handleRemove = () => {
+    setPhotoQuality(null);
+    setCroppedPhoto(null);
     onImageUpload("");
   };
 
-  const handleCropComplete = async (croppedDataUrl: string) => {
+  // Adds a set-aside shot whose problems were only warnings
+  const handleAddAnyway = async (shot: SetAsideShot) => {
+    if (!onBatchUpload) return;
     try {
-      toast({
-        title: "Processing image...",
-        description: "Optimizing and enhancing cropped image",
-      });
-      const processedDataUrl = await compressImage(croppedDataUrl);
-      setCropImage(null);
-      onImageUpload(processedDataUrl);
+      const prepared = await prepareSheetImage(shot.dataUrl, shot.quality.corners);
+      setSetAside(prev => prev.filter(item => item !== shot));
+      onBatchUpload([{ file: shot.file, dataUrl: prepared.dataUrl }], true);
+      onAppendModeChange?.(true);
     } catch (error) {
       toast({
         title: "Processing failed",
-        description: "Failed to process the cropped image.",
+        description: `Failed to process ${shot.file.name}.`,
         variant: "destructive",
       });
     }
   };
 
+  // The cropper hands back the sheet already flattened and adjusted
+  const handleCropComplete = (croppedDataUrl: string, crop: CropSettings) => {
+    if (cropImage) setCroppedPhoto({ source: cropImage, output: croppedDataUrl, crop });
+    setCropImage(null);
+    setPhotoQuality(null);
+    onImageUpload(croppedDataUrl);
+  };
+
   const handleCropSkip = async () => {
     if (!cropImage) return;
     try {
       toast({
         title: "Processing image...",
-        description: "Optimizing image quality",
+        description: "Straightening the sheet and evening out the lighting",
       });
-      const processedDataUrl = await compressImage(cropImage);
+      const prepared = await prepareSheetImage(cropImage, cropCorners);
+      setCroppedPhoto(prepared.corners
+        ? { source: cropImage, output: prepared.dataUrl, crop: { corners: prepared.corners, turns: 0, degrees: 0, adjustments: DEFAULT_ADJUSTMENTS } }
+        : null);
       setCropImage(null);
-      onImageUpload(processedDataUrl);
+      setPhotoQuality(null);
+      onImageUpload(prepared.dataUrl);
     } catch (error) {
       toast({
         title: "Processing failed",
@@ -357,10 +347,15 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
   };
 
   const handleEditCrop = () => {
-    if (currentImage) {
-      setCropImage(currentImage);
-      onImageUpload("");
+    if (!currentImage) return;
+    if (croppedPhoto?.output === currentImage) {
+      setInitialCrop(croppedPhoto.crop);
+      setCropCorners(croppedPhoto.crop.corners);
+      setCropImage(croppedPhoto.source);
+    } else {
+      openCropper(currentImage);
     }
+    onImageUpload("");
   };
 
   const startCamera = async () => {
@@ -427,8 +422,8 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
         const imageDataUrl = canvas.toDataURL('image/jpeg', 0.85);
         
         // Show cropper for captured photo
-        setCropImage(imageDataUrl);
         stopCamera();
+        await checkAndOpenCropper(imageDataUrl);
       }
     }
   };
@@ -442,13 +437,20 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
             Take a photo or upload an image of the completed answer sheet
             <div className="mt-2 text-xs space-y-1">
               <span className="block">✓ Accepted formats: JPG, JPEG, PNG (Max 10MB)</span>
-              <span className="block">✓ Images are validated, compressed, and enhanced automatically</span>
+              <span className="block">✓ Each photo is checked for blur, lighting and glare before upload</span>
+              <span className="block">✓ The sheet is found, straightened and its lighting evened out automatically</span>
               <span className="block">✓ Your images are processed securely and not stored permanently</span>
               <span className="block text-amber-600 dark:text-amber-400">⚠️ Do not upload sensitive personal documents unless necessary</span>
             </div>
           </div>
         </div>
 
+        {photoQuality && !isBatchMode && (
+          <div className="px-6 pb-4">
+            <PhotoQualityAlert quality={photoQuality} />
+          </div>
+        )}
+
         {showCamera ? (
           <div className="relative">
             <video 
@@ -473,6 +475,8 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
             imageSrc={cropImage}
             onCropComplete={handleCropComplete}
             onCancel={handleCropSkip}
+            sheetCorners={cropCorners}
+            initialCrop={initialCrop}
           />
         ) : !currentImage ? (
           <div
@@ -573,6 +577,26 @@ const ImageUpload = ({ onImageUpload, onBatchUpload, currentImage, isBatchMode =
             </div>
           </div>
         )}
+
+        {isBatchMode && setAside.length > 0 && (
+          <div className="p-6 space-y-3 border-t">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-foreground">Set aside for a retake ({setAside.length})</p>
+              <Button variant="ghost" size="sm" onClick={() => setSetAside([])}>
+                Clear
+              </Button>
+            </div>
+            {setAside.map((shot, index) => (
+              <PhotoQualityAlert key={`${shot.file.name}-${index}`} quality={shot.quality} fileName={shot.file.name}>
+                {shot.quality.verdict === 'warn' && (
+                  <Button size="sm" variant="outline" onClick={() => handleAddAnyway(shot)}>
+                    Add anyway
+                  </Button>
+                )}
+              </PhotoQualityAlert>
+            ))}
+          </div>
+        )}
       </Card>
     </section>
   );
@@ -0,0 +1,215 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Calculator, Plus, Trash2 } from "lucide-react";
+import { describeMarkingScheme, type MarkingScheme, type MarkingSection } from "@shared/scoring";
+
+interface MarkingSchemeEditorProps {
+  value: MarkingScheme;
+  onChange: (scheme: MarkingScheme) => void;
+  questionCount: number;
+}
+
+const PRESETS: Array<{ label: string; scheme: MarkingScheme }> = [
+  { label: "+1 / 0", scheme: { correct: 1, wrong: 0, unattempted: 0 } },
+  { label: "+4 / −1", scheme: { correct: 4, wrong: -1, unattempted: 0 } },
+  { label: "+3 / −1", scheme: { correct: 3, wrong: -1, unattempted: 0 } },
+  { label: "+1 / −0.25", scheme: { correct: 1, wrong: -0.25, unattempted: 0 } },
+];
+
+const parseMark = (value: string) => {
+  const n = parseFloat(value);
+  return Number.isFinite(n) ? n : 0;
+};
+
+const MarkingSchemeEditor = ({ value, onChange, questionCount }: MarkingSchemeEditorProps) => {
+  const sections = value.sections ?? [];
+
+  const applyPreset = (preset: MarkingScheme) => {
+    onChange({ ...preset, sections: value.sections });
+  };
+
+  const updateSection = (index: number, updates: Partial<MarkingSection>) => {
+    const next = sections.map((s, i) => (i === index ? { ...s, ...updates } : s));
+    onChange({ ...value, sections: next });
+  };
+
+  const addSection = () => {
+    const lastEnd = sections.length > 0 ? sections[sections.length - 1].end : 0;
+    const start = Math.min(lastEnd + 1, Math.max(1, questionCount));
+    onChange({
+      ...value,
+      sections: [
+        ...sections,
+        {
+          name: `Section ${String.fromCharCode(65 + sections.length)}`,
+          start,
+          end: Math.max(start, questionCount),
+          correct: value.correct,
+          wrong: value.wrong,
+          unattempted: value.unattempted,
+        },
+      ],
+    });
+  };
+
+  const removeSection = (index: number) => {
+    const next = sections.filter((_, i) => i !== index);
+    onChange({ ...value, sections: next.length > 0 ? next : undefined });
+  };
+
+  return (
+    <div className="space-y-3 p-3 bg-muted/30 rounded-lg border">
+      <div className="flex flex-wrap items-center gap-2">
+        <Calculator className="h-4 w-4 text-primary" />
+        <Label className="font-semibold">Marking Scheme</Label>
+        <span className="text-xs text-muted-foreground font-mono">{describeMarkingScheme(value)}</span>
+        <div className="ml-auto flex flex-wrap gap-1">
+          {PRESETS.map(preset => (
+            <Button
+              key={preset.label}
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => applyPreset(preset.scheme)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <div>
+          <Label htmlFor="marks-correct" className="text-xs">Correct</Label>
+          <Input
+            id="marks-correct"
+            type="number"
+            step="0.25"
+            value={value.correct}
+            onChange={(e) => onChange({ ...value, correct: parseMark(e.target.value) })}
+            className="mt-1 h-9"
+          />
+        </div>
+        <div>
+          <Label htmlFor="marks-wrong" className="text-xs">Wrong</Label>
+          <Input
+            id="marks-wrong"
+            type="number"
+            step="0.25"
+            value={value.wrong}
+            onChange={(e) => onChange({ ...value, wrong: parseMark(e.target.value) })}
+            className="mt-1 h-9"
+          />
+        </div>
+        <div>
+          <Label htmlFor="marks-unattempted" className="text-xs">Unattempted</Label>
+          <Input
+            id="marks-unattempted"
+            type="number"
+            step="0.25"
+            value={value.unattempted}
+            onChange={(e) => onChange({ ...value, unattempted: parseMark(e.target.value) })}
+            className="mt-1 h-9"
+          />
+        </div>
+      </div>
+
+      {sections.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs text-muted-foreground">
+            Sections override the marks above for their question range.
+          </p>
+          {sections.map((section, index) => (
+            <div key={index} className="grid grid-cols-[1fr_repeat(5,minmax(0,4.5rem))_auto] gap-1.5 items-end">
+              <div>
+                {index === 0 && <Label className="text-xs">Name</Label>}
+                <Input
+                  value={section.name}
+                  onChange={(e) => updateSection(index, { name: e.target.value })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">From Q</Label>}
+                <Input
+                  type="number"
+                  min="1"
+                  max={questionCount}
+                  value={section.start}
+                  onChange={(e) => updateSection(index, { start: parseInt(e.target.value) || 1 })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">To Q</Label>}
+                <Input
+                  type="number"
+                  min="1"
+                  max={questionCount}
+                  value={section.end}
+                  onChange={(e) => updateSection(index, { end: parseInt(e.target.value) || 1 })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">Correct</Label>}
+                <Input
+                  type="number"
+                  step="0.25"
+                  value={section.correct}
+                  onChange={(e) => updateSection(index, { correct: parseMark(e.target.value) })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">Wrong</Label>}
+                <Input
+                  type="number"
+                  step="0.25"
+                  value={section.wrong}
+                  onChange={(e) => updateSection(index, { wrong: parseMark(e.target.value) })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                {index === 0 && <Label className="text-xs">Blank</Label>}
+                <Input
+                  type="number"
+                  step="0.25"
+                  value={section.unattempted}
+                  onChange={(e) => updateSection(index, { unattempted: parseMark(e.target.value) })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-destructive hover:text-destructive"
+                onClick={() => removeSection(index)}
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={addSection}
+        disabled={questionCount === 0}
+        className="gap-1.5 w-full border-dashed"
+      >
+        <Plus className="h-3.5 w-3.5" />
+        Add Section
+      </Button>
+    </div>
+  );
+};
+
+export default MarkingSchemeEditor;
@@ -0,0 +1,38 @@
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { OPTION_SET_PRESETS, describeOptionSet } from "@shared/scoring";
+
+interface OptionSetSelectProps {
+  id?: string;
+  value: string[];
+  onChange: (options: string[]) => void;
+  className?: string;
+}
+
+/** Picks the options printed on the sheet (A–E, A–D, 1–4, T/F). */
+const OptionSetSelect = ({ id, value, onChange, className }: OptionSetSelectProps) => {
+  const current = OPTION_SET_PRESETS.find(p => p.options.join() === value.join());
+
+  return (
+    <Select
+      value={current?.id ?? "custom"}
+      onValueChange={(presetId) => {
+        const preset = OPTION_SET_PRESETS.find(p => p.id === presetId);
+        if (preset) onChange([...preset.options]);
+      }}
+    >
+      <SelectTrigger id={id} className={className}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {OPTION_SET_PRESETS.map(preset => (
+          <SelectItem key={preset.id} value={preset.id}>{preset.label}</SelectItem>
+        ))}
+        {!current && (
+          <SelectItem value="custom" disabled>{describeOptionSet(value)}</SelectItem>
+        )}
+      </SelectContent>
+    </Select>
+  );
+};
+
+export default OptionSetSelect;
@@ -0,0 +1,54 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { FileQuestion, Loader2 } from "lucide-react";
+
+interface PaperSetPromptProps {
+  setCode?: string | null;  // What was read from the sheet, if anything
+  codes: string[];
+  onPick: (code: string) => Promise<void>;
+}
+
+/** Shown instead of a score when the sheet's paper set couldn't be matched to the key. */
+const PaperSetPrompt = ({ setCode, codes, onPick }: PaperSetPromptProps) => {
+  const [picking, setPicking] = useState<string | null>(null);
+
+  const handlePick = async (code: string) => {
+    setPicking(code);
+    try {
+      await onPick(code);
+    } finally {
+      setPicking(null);
+    }
+  };
+
+  return (
+    <Card className="border-amber-500/50">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <FileQuestion className="h-5 w-5 text-amber-600" />
+          Which paper set is this?
+        </CardTitle>
+        <CardDescription>
+          {setCode ? `The sheet says "${setCode}", which isn't one of this key's sets.` : "The set code couldn't be read from the sheet."}{' '}
+          It was saved without a score; pick its set to grade it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex flex-wrap gap-2">
+        {codes.map(code => (
+          <Button
+            key={code}
+            variant="outline"
+            className="min-w-[48px] font-mono"
+            onClick={() => handlePick(code)}
+            disabled={picking !== null}
+          >
+            {picking === code ? <Loader2 className="h-4 w-4 animate-spin" /> : code}
+          </Button>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PaperSetPrompt;
@@ -0,0 +1,136 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Plus, Trash2 } from "lucide-react";
+import { MAX_PAPER_SETS, nextSetCode, type PaperSet } from "@shared/paperSets";
+import { commitActiveSet } from "@/lib/paperSets";
+
+export interface PaperSetState {
+  sets: PaperSet[] | null;  // null when the key has a single set
+  active: number;           // Set whose answers are being edited
+  answers: string[];        // Answers of the active set, as edited by the form
+}
+
+interface PaperSetTabsProps extends PaperSetState {
+  id?: string;
+  onChange: (next: PaperSetState) => void;
+}
+
+/**
+ * Switches an answer key form between the variants of a paper set group. The
+ * form keeps editing a single answers array; this swaps it in and out of the
+ * sets as tabs change.
+ */
+const PaperSetTabs = ({ id = "paper-sets", sets, active, answers, onChange }: PaperSetTabsProps) => {
+  const blank = () => Array(answers.length).fill('');
+
+  const handleToggle = (enabled: boolean) => {
+    if (enabled) {
+      onChange({ sets: [{ code: "A", answers: [...answers] }, { code: "B", answers: blank() }], active: 0, answers });
+    } else if (sets) {
+      // Keep the set on screen as the key's only answers
+      onChange({ sets: null, active: 0, answers });
+    }
+  };
+
+  if (!sets) {
+    return (
+      <div className="flex items-center gap-2">
+        <Label htmlFor={id} className="cursor-pointer">Paper Sets</Label>
+        <input
+          id={id}
+          type="checkbox"
+          checked={false}
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="w-4 h-4 cursor-pointer"
+        />
+        <span className="text-xs text-muted-foreground">Separate keys for Set A, B, … read from each sheet</span>
+      </div>
+    );
+  }
+
+  const committed = () => commitActiveSet(sets, active, answers);
+
+  const select = (index: number) => {
+    if (index === active) return;
+    const next = committed();
+    onChange({ sets: next, active: index, answers: next[index].answers });
+  };
+
+  const add = () => {
+    const next = [...committed(), { code: nextSetCode(sets), answers: blank() }];
+    onChange({ sets: next, active: next.length - 1, answers: next[next.length - 1].answers });
+  };
+
+  const remove = () => {
+    const next = committed().filter((_, i) => i !== active);
+    onChange({ sets: next, active: 0, answers: next[0].answers });
+  };
+
+  const rename = (value: string) => {
+    const code = value.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+    onChange({ sets: sets.map((set, i) => (i === active ? { ...set, code } : set)), active, answers });
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2">
+        <Label htmlFor={id} className="cursor-pointer">Paper Sets</Label>
+        <input
+          id={id}
+          type="checkbox"
+          checked
+          onChange={(e) => handleToggle(e.target.checked)}
+          className="w-4 h-4 cursor-pointer"
+        />
+        <span className="text-xs text-muted-foreground">
+          Sheets are graded against the set whose code they show; all sets share the marking and question types
+        </span>
+      </div>
+      <div className="flex items-center gap-1 flex-wrap">
+        {sets.map((set, index) => (
+          <Button
+            key={index}
+            type="button"
+            variant={index === active ? "default" : "outline"}
+            size="sm"
+            onClick={() => select(index)}
+            className="h-8 min-w-[64px] font-mono"
+          >
+            Set {set.code || '?'}
+          </Button>
+        ))}
+        {sets.length < MAX_PAPER_SETS && (
+          <Button type="button" variant="ghost" size="sm" onClick={add} className="h-8 gap-1">
+            <Plus className="h-3.5 w-3.5" />
+            Add Set
+          </Button>
+        )}
+        <div className="flex items-center gap-1 ml-auto">
+          <Label htmlFor={`${id}-code`} className="text-xs text-muted-foreground">Code</Label>
+          <Input
+            id={`${id}-code`}
+            value={sets[active].code}
+            onChange={(e) => rename(e.target.value)}
+            title="Set code as printed on the sheet"
+            className="h-8 w-16 font-mono text-sm"
+          />
+          {sets.length > 2 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              onClick={remove}
+              title={`Remove Set ${sets[active].code}`}
+              className="h-8 w-8 text-destructive hover:text-destructive"
+            >
+              <Trash2 className="h-3.5 w-3.5" />
+            </Button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PaperSetTabs;
@@ -0,0 +1,37 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { AlertTriangle, XCircle } from "lucide-react";
+import type { PhotoQuality } from "@/lib/photoQuality";
+
+interface PhotoQualityAlertProps {
+  quality: PhotoQuality;
+  fileName?: string;
+  children?: React.ReactNode;  // Actions, shown under the tips
+}
+
+/** What the pre-upload check found wrong with a photo, with a tip for each problem. */
+const PhotoQualityAlert = ({ quality, fileName, children }: PhotoQualityAlertProps) => {
+  const blocked = quality.verdict === 'block';
+  const Icon = blocked ? XCircle : AlertTriangle;
+  return (
+    <Alert variant={blocked ? 'destructive' : 'default'}>
+      <Icon className="h-4 w-4" />
+      <AlertTitle>
+        {fileName && <span className="font-mono mr-2">{fileName}</span>}
+        {blocked ? 'Please retake this photo' : 'This photo may not read well'}
+      </AlertTitle>
+      <AlertDescription className="text-sm space-y-2">
+        <ul className="list-disc list-inside space-y-1">
+          {quality.issues.map(issue => (
+            <li key={issue.check}>
+              <span className={issue.severity === 'block' ? 'font-medium' : undefined}>{issue.message}</span>{' '}
+              <span className="text-muted-foreground">{issue.tip}</span>
+            </li>
+          ))}
+        </ul>
+        {children}
+      </AlertDescription>
+    </Alert>
+  );
+};
+
+export default PhotoQualityAlert;
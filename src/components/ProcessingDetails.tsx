@@ -0,0 +1,117 @@
+import { ArrowRight, ChevronDown } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import type { ProcessingMetadata } from "@shared/processingMetadata";
+
+interface ProcessingDetailsProps {
+  metadata: ProcessingMetadata;
+}
+
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)} s`;
+
+const Fact = ({ label, children }: { label: string; children: React.ReactNode }) => (
+  <div>
+    <dt className="text-xs text-muted-foreground">{label}</dt>
+    <dd className="font-medium">{children}</dd>
+  </div>
+);
+
+/** How a sheet was read, as saved by the analyzer, for explaining a given answer. */
+const ProcessingDetails = ({ metadata }: ProcessingDetailsProps) => {
+  const { aiProvider, bubbleReader, verification, consensus, quality, timing, replyValidation } = metadata;
+
+  return (
+    <div className="space-y-4 text-sm">
+      <dl className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <Fact label="Model">{aiProvider.model} <span className="text-xs text-muted-foreground">({aiProvider.name})</span></Fact>
+        <Fact label="Prompt version">{metadata.promptVersion}</Fact>
+        <Fact label="AI calls">{metadata.aiCalls}</Fact>
+        <Fact label="Time">
+          {formatSeconds(timing.totalMs)}
+          <span className="block text-xs font-normal text-muted-foreground">
+            Reading {formatSeconds(timing.readMs)}{verification.applied && ` · verification ${formatSeconds(timing.verifyMs)}`}
+          </span>
+        </Fact>
+        <Fact label="Bubble reader">
+          {bubbleReader.applied ? `${bubbleReader.resolved} read, ${bubbleReader.ambiguous} left to the model` : 'Not used'}
+        </Fact>
+        <Fact label="Verification pass">
+          {verification.applied ? `Applied, ${verification.corrections.length} change(s) proposed` : 'Not needed'}
+        </Fact>
+        <Fact label="Image quality">{quality.imageQuality}</Fact>
+        <Fact label="Lighting">
+          {quality.lightingCondition ?? 'unknown'}
+          <span className="block text-xs font-normal text-muted-foreground">Brightness {quality.brightnessLevel ?? 'unknown'}</span>
+        </Fact>
+      </dl>
+
+      {quality.issues.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {quality.issues.map(issue => <Badge key={issue} variant="outline">{issue}</Badge>)}
+        </div>
+      )}
+
+      {consensus && (
+        <p className="text-muted-foreground">
+          Read by {consensus.readers.join(' and ')};{' '}
+          {consensus.disagreements.length > 0
+            ? `they disagreed on ${consensus.disagreements.map(q => `Q${q}`).join(', ')}.`
+            : 'they agreed on every question.'}
+        </p>
+      )}
+
+      {replyValidation.repairAttempted && (
+        <div>
+          <p className="font-medium">
+            {replyValidation.valid ? 'The first reply was rejected and repaired' : 'The reply could not be repaired'}
+            {replyValidation.filledAnswers > 0 && `; ${replyValidation.filledAnswers} answer(s) left unread`}
+          </p>
+          <ul className="list-disc pl-5 text-xs text-muted-foreground">
+            {replyValidation.problems.map(problem => <li key={problem}>{problem}</li>)}
+          </ul>
+        </div>
+      )}
+
+      {verification.corrections.length > 0 && (
+        <ul className="space-y-2">
+          {verification.corrections.map(correction => (
+            <li key={correction.question} className="text-xs p-2 rounded-md border bg-muted/30">
+              <div className="flex items-center gap-2 flex-wrap">
+                <span className="font-semibold">Q{correction.question}</span>
+                <span className="font-mono">{correction.from || '–'}</span>
+                <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                <span className="font-mono font-bold">{correction.to || '–'}</span>
+                {!correction.applied && <span className="ml-auto text-muted-foreground">First reading kept</span>}
+              </div>
+              {correction.reason && <p className="mt-1 text-muted-foreground">{correction.reason}</p>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {metadata.modelReplies.length > 0 && (
+        <Collapsible>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="sm" className="px-2">
+              <ChevronDown className="h-4 w-4 mr-1" />
+              Raw model output ({metadata.modelReplies.length})
+            </Button>
+          </CollapsibleTrigger>
+          <CollapsibleContent className="space-y-2 mt-2">
+            {metadata.modelReplies.map((reply, index) => (
+              <div key={index}>
+                <div className="text-xs font-medium text-muted-foreground capitalize mb-1">{reply.pass}</div>
+                <pre className="text-xs p-2 rounded-md border bg-muted/30 max-h-64 overflow-auto whitespace-pre-wrap break-all">
+                  {reply.text}
+                </pre>
+              </div>
+            ))}
+          </CollapsibleContent>
+        </Collapsible>
+      )}
+    </div>
+  );
+};
+
+export default ProcessingDetails;
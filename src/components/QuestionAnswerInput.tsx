@@ -0,0 +1,121 @@
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gift, Ban } from "lucide-react";
+import { BONUS_KEY, DROPPED_KEY, QUESTION_TYPES, type QuestionSpec, type QuestionType } from "@shared/scoring";
+import { applyOptionClick, entryForSpec, isOptionSelected, optionsForSpec, toggleSpecialEntry } from "@/lib/answerKey";
+
+interface QuestionAnswerInputProps {
+  answer: string;
+  spec: QuestionSpec;
+  options: string[];
+  onAnswerChange: (answer: string) => void;
+  onSpecChange: (spec: QuestionSpec) => void;
+}
+
+const TYPE_LABELS: Record<QuestionType, string> = {
+  single: "Single",
+  multi: "Multi",
+  numeric: "Numeric",
+  truefalse: "True/False",
+};
+
+// Numbers may be typed partially ("-", "12.") and list alternatives ("12|12.5");
+// complete entries are validated when the key is submitted
+const PARTIAL_NUMERIC = /^[-0-9.|]*$/;
+
+/** Answer controls for one question of an answer key: type, answer, bonus/drop. */
+const QuestionAnswerInput = ({ answer, spec, options, onAnswerChange, onSpecChange }: QuestionAnswerInputProps) => {
+  const isSpecial = answer === BONUS_KEY || answer === DROPPED_KEY;
+
+  const handleTypeChange = (type: QuestionType) => {
+    const next: QuestionSpec = type === "numeric" ? { type, tolerance: spec.tolerance ?? 0 } : { type };
+    onSpecChange(next);
+    onAnswerChange(entryForSpec(answer, next, options));
+  };
+
+  return (
+    <>
+      <Select value={spec.type} onValueChange={(value) => handleTypeChange(value as QuestionType)}>
+        <SelectTrigger className="h-8 w-[104px] text-xs shrink-0">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {QUESTION_TYPES.map(type => (
+            <SelectItem key={type} value={type} className="text-xs">{TYPE_LABELS[type]}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {spec.type === "numeric" ? (
+        <div className="flex items-center gap-1">
+          <Input
+            value={isSpecial ? "" : answer}
+            onChange={(e) => {
+              const value = e.target.value.replace(/\s/g, "");
+              if (PARTIAL_NUMERIC.test(value)) onAnswerChange(value);
+            }}
+            placeholder="e.g. 12.5"
+            className="h-9 w-24 font-mono text-sm"
+          />
+          <span className="text-xs text-muted-foreground">±</span>
+          <Input
+            type="number"
+            min="0"
+            step="0.01"
+            value={spec.tolerance ?? 0}
+            onChange={(e) => onSpecChange({ type: "numeric", tolerance: Math.max(0, parseFloat(e.target.value) || 0) })}
+            title="Accepted difference from the correct value"
+            className="h-9 w-20 text-sm"
+          />
+        </div>
+      ) : (
+        <div className="flex gap-1">
+          {optionsForSpec(spec, options).map(opt => (
+            <button
+              key={opt}
+              type="button"
+              onClick={(e) => onAnswerChange(applyOptionClick(answer, opt, e.shiftKey || e.ctrlKey || e.metaKey, spec, options))}
+              className={`w-9 h-9 rounded-md text-sm font-bold transition-all border ${
+                isOptionSelected(answer, opt, spec)
+                  ? 'bg-primary text-primary-foreground border-primary shadow-sm'
+                  : 'bg-background text-muted-foreground border-border hover:border-primary/50 hover:text-foreground'
+              }`}
+            >
+              {opt}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Bonus / Drop */}
+      <div className="flex gap-1">
+        <button
+          type="button"
+          title="Bonus: award this question to everyone"
+          onClick={() => onAnswerChange(toggleSpecialEntry(answer, BONUS_KEY))}
+          className={`w-8 h-8 rounded-md flex items-center justify-center border transition-all ${
+            answer === BONUS_KEY
+              ? 'bg-success text-success-foreground border-success'
+              : 'bg-background text-muted-foreground/60 border-border hover:text-foreground'
+          }`}
+        >
+          <Gift className="h-3.5 w-3.5" />
+        </button>
+        <button
+          type="button"
+          title="Drop: remove this question from the total"
+          onClick={() => onAnswerChange(toggleSpecialEntry(answer, DROPPED_KEY))}
+          className={`w-8 h-8 rounded-md flex items-center justify-center border transition-all ${
+            answer === DROPPED_KEY
+              ? 'bg-destructive text-destructive-foreground border-destructive'
+              : 'bg-background text-muted-foreground/60 border-border hover:text-foreground'
+          }`}
+        >
+          <Ban className="h-3.5 w-3.5" />
+        </button>
+      </div>
+    </>
+  );
+};
+
+export default QuestionAnswerInput;
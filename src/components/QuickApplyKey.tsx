@@ -10,7 +10,7 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { Key, ChevronDown, Loader2, Play, Zap, Search, Calendar, Hash } from "lucide-react";
-import { SavedAnswerKey, useSavedAnswerKeys } from "@/hooks/useSavedAnswerKeys";
+import { AnswerKeyOptions, SavedAnswerKey, getAnswerKeyOptions, useSavedAnswerKeys } from "@/hooks/useSavedAnswerKeys";
 import { format } from "date-fns";
 
 interface QuickApplyKeyProps {
@@ -18,7 +18,8 @@ interface QuickApplyKeyProps {
     answers: string[],
     gridConfig?: { rows: number; columns: number },
     detectRollNumber?: boolean,
-    detectSubjectCode?: boolean
+    detectSubjectCode?: boolean,
+    options?: AnswerKeyOptions
   ) => void;
   disabled?: boolean;
   sheetsCount: number;
@@ -37,7 +38,8 @@ const QuickApplyKey = ({ onApplyKey, disabled, sheetsCount }: QuickApplyKeyProps
       key.answers,
       gridConfig,
       key.detect_roll_number,
-      key.detect_subject_code
+      key.detect_subject_code,
+      getAnswerKeyOptions(key)
     );
   };
 
@@ -0,0 +1,189 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Loader2, RefreshCw, ArrowRight } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { format } from "date-fns";
+import { SavedAnswerKey } from "@/hooks/useSavedAnswerKeys";
+import { RegradeChange, applyRegrade, isScoreChanged, previewRegrade } from "@/lib/regrade";
+
+interface RegradeDialogProps {
+  answerKey: SavedAnswerKey | null;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const formatDelta = (delta: number) => {
+  const rounded = Math.round(delta * 100) / 100;
+  return rounded > 0 ? `+${rounded}` : rounded < 0 ? `−${Math.abs(rounded)}` : '0';
+};
+
+const RegradeDialog = ({ answerKey, open, onOpenChange }: RegradeDialogProps) => {
+  const [changes, setChanges] = useState<RegradeChange[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  useEffect(() => {
+    if (!open || !answerKey) return;
+    let cancelled = false;
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const result = await previewRegrade(answerKey);
+        if (!cancelled) setChanges(result);
+      } catch (error) {
+        console.error('Error previewing re-grade:', error);
+        toast({
+          title: "Couldn't load graded sheets",
+          description: error instanceof Error ? error.message : "Please try again.",
+          variant: "destructive",
+        });
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, answerKey]);
+
+  const changedScores = changes.filter(isScoreChanged);
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      const { updated, unchanged, failed } = await applyRegrade(answerKey, changes);
+      if (failed > 0) {
+        toast({
+          title: "Re-grade partially applied",
+          description: `${updated} of ${updated + failed} changed sheets updated`,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Sheets re-graded",
+          description: `${updated} sheet${updated !== 1 ? 's' : ''} updated, ${changedScores.length} with a new score` +
+            (unchanged > 0 ? `; ${unchanged} unchanged` : ''),
+        });
+      }
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error applying re-grade:', error);
+      toast({
+        title: "Re-grade failed",
+        description: "Could not update the graded sheets",
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <RefreshCw className="h-5 w-5" />
+            Re-grade Sheets
+          </DialogTitle>
+          <DialogDescription>
+            Recompute every sheet graded with "{answerKey?.name}" from its stored answers. Nothing is re-scanned.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-10">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : changes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-6 text-center">
+            No sheets have been graded with this key yet.
+          </p>
+        ) : (
+          <div className="space-y-3 overflow-hidden flex flex-col">
+            <div className="flex flex-wrap gap-2 text-sm">
+              <Badge variant="secondary">{changes.length} sheet{changes.length !== 1 ? 's' : ''} linked</Badge>
+              <Badge variant={changedScores.length > 0 ? "default" : "outline"}>
+                {changedScores.length} score{changedScores.length !== 1 ? 's' : ''} change
+              </Badge>
+            </div>
+
+            {changedScores.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No scores change. Applying still refreshes the stored answer key and per-question results.
+              </p>
+            ) : (
+              <div className="overflow-y-auto max-h-[50vh] border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Roll No</TableHead>
+                      <TableHead>Subject</TableHead>
+                      <TableHead>Graded</TableHead>
+                      <TableHead className="text-right">Score</TableHead>
+                      <TableHead className="text-right">Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {changedScores.map(change => {
+                      const delta = change.newScore - change.oldScore;
+                      return (
+                        <TableRow key={change.id}>
+                          <TableCell className="font-mono">{change.rollNumber || 'N/A'}</TableCell>
+                          <TableCell>{change.subjectCode || '—'}</TableCell>
+                          <TableCell className="text-muted-foreground text-xs">
+                            {format(new Date(change.createdAt), 'MMM d, yyyy')}
+                          </TableCell>
+                          <TableCell className="text-right whitespace-nowrap">
+                            <span className="text-muted-foreground">{change.oldScore}/{change.oldMaxMarks}</span>
+                            <ArrowRight className="inline h-3 w-3 mx-1" />
+                            <span className="font-semibold">{change.newScore}/{change.newMaxMarks}</span>
+                          </TableCell>
+                          <TableCell className={`text-right font-mono ${delta > 0 ? 'text-success' : delta < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                            {formatDelta(delta)}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={applying}>
+            Cancel
+          </Button>
+          <Button onClick={handleApply} disabled={loading || applying || changes.length === 0}>
+            {applying && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+            Apply Re-grade
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RegradeDialog;
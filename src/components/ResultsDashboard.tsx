@@ -1,35 +1,102 @@
-import { CheckCircle, XCircle, Download, RotateCcw, TrendingUp, AlertCircle, Flag, ThumbsUp, ThumbsDown, FileSpreadsheet, User, BookOpen } from "lucide-react";
+import { CheckCircle, XCircle, Gift, Ban, Download, RotateCcw, TrendingUp, AlertCircle, Flag, Pencil, FileSpreadsheet, User, BookOpen, Calculator } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
 import { EvaluationResult } from "@/pages/Index";
 import { toast } from "@/hooks/use-toast";
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { formatEvaluationExport, ExcelFormatter } from '@/lib/excelFormatter';
 import { useExportSettings } from '@/hooks/useExportSettings';
+import { DEFAULT_OPTION_SET, describeMarkingScheme, describeQuestionSpec, normalizeQuestionTypes, questionStatus, specForQuestion, type QuestionStatus } from '@shared/scoring';
+import { applyCorrection, fetchCorrections, type AnswerCorrection } from '@/lib/corrections';
+import CorrectionDialog from '@/components/CorrectionDialog';
+import SheetOverlay from '@/components/SheetOverlay';
+import { overlayCells } from '@/lib/cellRegions';
+import { EXPORT_URL_TTL_SECONDS, signSheetImages } from '@/lib/sheetImages';
 
 interface ResultsDashboardProps {
   result: EvaluationResult;
   uploadedImage: string | null;
   onReset: () => void;
+  onResultChange?: (result: EvaluationResult) => void;
 }
 
-const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardProps) => {
-  const { extractedAnswers, correctAnswers, score, totalQuestions, accuracy, confidence, lowConfidenceCount, detailedResults, qualityIssues, imageQuality, rollNumber, gridConfig, subjectCode } = result;
-  const [feedback, setFeedback] = useState<{[key: number]: 'correct' | 'incorrect' | null}>({});
+const statusCardClass = (status: QuestionStatus) =>
+  status === 'dropped'
+    ? 'bg-muted/30 border-border'
+    : status === 'correct' || status === 'bonus'
+      ? 'bg-success/5 border-success/30'
+      : 'bg-destructive/5 border-destructive/30';
+
+const StatusIcon = ({ status }: { status: QuestionStatus }) => {
+  if (status === 'bonus') return <Gift className="h-6 w-6 text-success" />;
+  if (status === 'dropped') return <Ban className="h-6 w-6 text-muted-foreground" />;
+  if (status === 'correct') return <CheckCircle className="h-6 w-6 text-success" />;
+  return <XCircle className="h-6 w-6 text-destructive" />;
+};
+
+const ResultsDashboard = ({ result, uploadedImage, onReset, onResultChange }: ResultsDashboardProps) => {
+  const { extractedAnswers, correctAnswers, score, totalQuestions, accuracy, confidence, lowConfidenceCount, detailedResults, qualityIssues, imageQuality, rollNumber, gridConfig, subjectCode, setCode, paperSet, rawMarks, penaltyMarks, maxMarks, wrongCount, bonusCount, droppedCount, markingScheme, questionTypes, optionSet } = result;
+  const outOf = maxMarks ?? totalQuestions;
+  const [corrections, setCorrections] = useState<AnswerCorrection[]>([]);
+  const [editingQuestion, setEditingQuestion] = useState<number | null>(null);
   const { settings } = useExportSettings();
-  
-  const handleFeedback = (questionNum: number, isCorrect: boolean) => {
-    setFeedback(prev => ({
-      ...prev,
-      [questionNum]: isCorrect ? 'correct' : 'incorrect'
-    }));
-    
-    toast({
-      title: "Feedback recorded",
-      description: `Thank you! Your feedback helps improve accuracy. ${!isCorrect ? "We'll learn from this error." : ""}`,
-    });
+  const canCorrect = !!result.evaluationId && !!onResultChange;
+  const overlay = useMemo(() => overlayCells(detailedResults ?? [], gridConfig), [detailedResults, gridConfig]);
+
+  const handleCellClick = (question: number) => {
+    if (canCorrect) {
+      setEditingQuestion(question);
+    } else {
+      document.getElementById(`answer-q${question}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  };
+
+  useEffect(() => {
+    if (!result.evaluationId) return;
+    fetchCorrections(result.evaluationId)
+      .then(setCorrections)
+      .catch((error) => console.error('Error loading corrections:', error));
+  }, [result.evaluationId]);
+
+  const handleCorrection = async (answer: string, reason: string) => {
+    if (!result.evaluationId || editingQuestion === null || !onResultChange) return;
+    try {
+      const { summary, detailedResults: graded, extractedAnswers: corrected, correction } = await applyCorrection({
+        evaluationId: result.evaluationId,
+        question: editingQuestion,
+        answer,
+        reason,
+      });
+      setCorrections(prev => [correction, ...prev]);
+      onResultChange({
+        ...result,
+        extractedAnswers: corrected,
+        detailedResults: graded,
+        score: summary.netMarks,
+        totalQuestions: summary.scoredQuestions,
+        accuracy: summary.accuracy,
+        correctCount: summary.correctCount,
+        wrongCount: summary.wrongCount,
+        bonusCount: summary.bonusCount,
+        droppedCount: summary.droppedCount,
+        rawMarks: summary.rawMarks,
+        penaltyMarks: summary.penaltyMarks,
+        maxMarks: summary.maxMarks,
+      });
+      toast({
+        title: "Correction saved",
+        description: `Question ${editingQuestion} updated. Score is now ${summary.netMarks}/${summary.maxMarks}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Correction failed",
+        description: error instanceof Error ? error.message : "Couldn't save the correction",
+        variant: "destructive",
+      });
+      throw error;
+    }
   };
 
   const handleExport = async () => {
@@ -48,6 +115,12 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
         extractedAnswers,
         correctAnswers,
         detailedResults,
+        rawMarks,
+        penaltyMarks,
+        maxMarks,
+        markingScheme,
+        questionTypes,
+        optionSet,
       });
 
       toast({
@@ -75,6 +148,8 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
         .from('evaluations')
         .select('*')
         .eq('user_id', (await supabase.auth.getSession()).data.session?.user.id)
+        .eq('is_authoritative', true)
+        .eq('needs_paper_set', false)
         .order('subject_code', { ascending: true })
         .order('roll_number', { ascending: true })
         .order('created_at', { ascending: false });
@@ -90,6 +165,10 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
         return;
       }
 
+      // Image links in the file are signed for a day only
+      const imageUrls = await signSheetImages(evaluations.map(e => e.image_url), EXPORT_URL_TTL_SECONDS);
+      const linksExpire = new Date(Date.now() + EXPORT_URL_TTL_SECONDS * 1000);
+
       // Create workbook using ExcelJS
       const formatter = new ExcelFormatter(settings);
 
@@ -100,11 +179,13 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
         { 'Metric': 'Subjects', 'Value': new Set(evaluations.map(e => e.subject_code || 'N/A')).size },
         { 'Metric': 'Students', 'Value': new Set(evaluations.map(e => e.roll_number)).size },
         { 'Metric': '', 'Value': '' },
-        { 'Metric': 'Average Score', 'Value': `${(evaluations.reduce((sum, e) => sum + e.score, 0) / evaluations.length).toFixed(2)}/${evaluations[0]?.total_questions || 'N/A'}` },
+        { 'Metric': 'Average Score', 'Value': `${(evaluations.reduce((sum, e) => sum + Number(e.score), 0) / evaluations.length).toFixed(2)}/${evaluations[0]?.max_marks ?? evaluations[0]?.total_questions ?? 'N/A'}` },
+        { 'Metric': 'Total Penalty Marks', 'Value': evaluations.reduce((sum, e) => sum + Number(e.penalty_marks || 0), 0) },
         { 'Metric': 'Average Accuracy', 'Value': `${(evaluations.reduce((sum, e) => sum + e.accuracy, 0) / evaluations.length).toFixed(2)}%` },
         { 'Metric': 'High Confidence', 'Value': evaluations.filter(e => e.confidence === 'high').length },
         { 'Metric': 'Medium Confidence', 'Value': evaluations.filter(e => e.confidence === 'medium').length },
         { 'Metric': 'Low Confidence', 'Value': evaluations.filter(e => e.confidence === 'low').length },
+        { 'Metric': 'Image Links Expire', 'Value': linksExpire.toLocaleString() },
       ];
       formatter.addSheet('Summary', summaryData, [{ wch: 20 }, { wch: 30 }]);
 
@@ -112,16 +193,20 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
       const detailedData = evaluations.map(e => ({
         'Roll Number': e.roll_number || 'N/A',
         'Subject Code': e.subject_code || 'N/A',
-        'Score': e.score,
+        'Raw Marks': Number(e.raw_marks ?? e.score),
+        'Penalty': Number(e.penalty_marks ?? 0),
+        'Net Marks': Number(e.score),
+        'Max Marks': Number(e.max_marks ?? e.total_questions),
         'Total': e.total_questions,
         'Accuracy %': Number(e.accuracy).toFixed(2),
         'Confidence': e.confidence?.toUpperCase() || 'N/A',
         'Date': new Date(e.created_at).toLocaleDateString(),
         'Time': new Date(e.created_at).toLocaleTimeString(),
+        'Sheet Image': imageUrls[e.image_url] ?? '',
       }));
       formatter.addSheet('Detailed Results', detailedData, [
-        { wch: 15 }, { wch: 15 }, { wch: 8 }, { wch: 8 }, 
-        { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }
+        { wch: 15 }, { wch: 15 }, { wch: 10 }, { wch: 8 }, { wch: 10 }, { wch: 10 }, { wch: 8 },
+        { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 12 }, { wch: 40 }
       ]);
 
       // === SUBJECT-WISE SHEETS WITH ANSWERS ===
@@ -136,17 +221,19 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
         const row: any = {
           'REGD NO': evaluation.roll_number || 'N/A',
           'Date': new Date(evaluation.created_at).toLocaleDateString(),
-          'Score': `${evaluation.score}/${evaluation.total_questions}`,
+          'Score': `${evaluation.score}/${evaluation.max_marks ?? evaluation.total_questions}`,
+          'Penalty': Number(evaluation.penalty_marks ?? 0),
           'Accuracy': `${Number(evaluation.accuracy).toFixed(1)}%`,
         };
         
         // Add answers Q1-QN
+        const types = normalizeQuestionTypes(evaluation.question_types, evaluation.correct_answers.length);
         for (let i = 0; i < maxQuestions; i++) {
           const extracted = evaluation.extracted_answers[i] || '-';
           const correct = evaluation.correct_answers[i] || '-';
-          const isCorrect = extracted === correct;
+          const status = questionStatus(extracted === '-' ? '' : extracted, correct, specForQuestion(types, i));
           row[`Q${i + 1}`] = extracted;
-          row[`Q${i + 1}_Status`] = isCorrect ? '✓' : extracted === '-' ? '-' : '✗';
+          row[`Q${i + 1}_Status`] = status === 'correct' || status === 'bonus' ? '✓' : status === 'wrong' ? '✗' : '-';
         }
         
         groupedBySubject[subjectCode].push(row);
@@ -161,6 +248,7 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
           { wch: 15 }, // REGD NO
           { wch: 12 }, // Date
           { wch: 10 }, // Score
+          { wch: 8 },  // Penalty
           { wch: 10 }, // Accuracy
         ];
         
@@ -252,7 +340,7 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
       </div>
 
       {/* Detection Preview Card */}
-      {(rollNumber || subjectCode) && (
+      {(rollNumber || subjectCode || paperSet || setCode) && (
         <Card className="p-4 md:p-6 mb-4 md:mb-6 bg-gradient-to-br from-primary/5 to-primary/10 border-2 border-primary/20">
           <div className="flex items-center gap-2 mb-3">
             <CheckCircle className="h-5 w-5 text-primary" />
@@ -306,6 +394,14 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
               </p>
             </div>
           )}
+          {(paperSet || setCode) && (
+            <div className="mt-3 pt-3 border-t border-border/30">
+              <p className="text-xs text-muted-foreground">
+                <span className="font-medium">Paper Set:</span>{' '}
+                {paperSet ?? <span className="text-destructive">"{setCode}" not in this key, graded against the first set</span>}
+              </p>
+            </div>
+          )}
         </Card>
       )}
 
@@ -340,8 +436,8 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
 
       <div className="grid grid-cols-2 md:grid-cols-4 gap-3 md:gap-6 mb-4 md:mb-6">
         <StatCard
-          title="Score"
-          value={`${score}/${totalQuestions}`}
+          title={maxMarks !== undefined ? "Net Marks" : "Score"}
+          value={`${score}/${outOf}`}
           icon={<TrendingUp className="h-5 w-5" />}
           color="primary"
         />
@@ -359,12 +455,48 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
         />
         <StatCard
           title="Incorrect"
-          value={`${totalQuestions - score}`}
+          value={`${wrongCount ?? totalQuestions - score}`}
           icon={<XCircle className="h-5 w-5" />}
           color="destructive"
         />
       </div>
 
+      {rawMarks !== undefined && (
+        <Card className="p-3 md:p-4 mb-4 md:mb-6 border-2">
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+            <span className="flex items-center gap-1.5">
+              <Calculator className="h-4 w-4 text-primary" />
+              <span className="font-medium">Marks</span>
+              {markingScheme && (
+                <span className="text-xs text-muted-foreground font-mono">({describeMarkingScheme(markingScheme)})</span>
+              )}
+            </span>
+            <span>Raw: <span className="font-bold text-success">+{rawMarks}</span></span>
+            <span>Penalty: <span className="font-bold text-destructive">−{penaltyMarks ?? 0}</span></span>
+            <span>Net: <span className="font-bold text-foreground">{score}</span> / {outOf}</span>
+            {!!bonusCount && (
+              <span className="flex items-center gap-1 text-muted-foreground"><Gift className="h-3.5 w-3.5" />{bonusCount} bonus</span>
+            )}
+            {!!droppedCount && (
+              <span className="flex items-center gap-1 text-muted-foreground"><Ban className="h-3.5 w-3.5" />{droppedCount} dropped</span>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {uploadedImage && (
+        <Card className="p-4 md:p-6 mb-4 md:mb-6 border-2">
+          <h3 className="text-base md:text-lg font-semibold mb-3">Answer Sheet</h3>
+          <SheetOverlay
+            imageUrl={uploadedImage}
+            cells={overlay.cells}
+            estimated={overlay.estimated}
+            selectedQuestion={editingQuestion}
+            onCellClick={handleCellClick}
+          />
+        </Card>
+      )}
+
       <Card className="p-4 md:p-6 bg-gradient-card border-2">
         <div className="mb-4 md:mb-6">
           <div className="flex items-center justify-between mb-2">
@@ -380,17 +512,16 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
           <div className="grid grid-cols-1 gap-3 md:gap-4">
             {detailedResults ? (
               detailedResults.map((result) => {
+                const status: QuestionStatus = result.status ?? (result.isCorrect ? 'correct' : 'wrong');
+                const spec = specForQuestion(questionTypes, result.question - 1);
                 const confidenceColor = result.confidence === "high" ? "text-success" :
                                       result.confidence === "medium" ? "text-accent" : "text-destructive";
                 
                 return (
                   <div
                     key={result.question}
-                    className={`flex flex-col p-4 rounded-lg border-2 transition-all ${
-                      result.isCorrect
-                        ? 'bg-success/5 border-success/30'
-                        : 'bg-destructive/5 border-destructive/30'
-                    }`}
+                    id={`answer-q${result.question}`}
+                    className={`flex flex-col p-4 rounded-lg border-2 transition-all ${statusCardClass(status)}`}
                   >
                     <div className="flex items-center justify-between mb-2">
                       <div className="flex items-center gap-3">
@@ -398,8 +529,22 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
                           {result.question}
                         </div>
                         <div>
-                          <div className="text-sm text-muted-foreground">Extracted</div>
-                          <div className="text-lg font-bold">{result.extracted}</div>
+                          <div className="text-sm text-muted-foreground">
+                            Extracted
+                            {spec.type !== 'single' && <span className="ml-1.5 text-xs font-medium text-primary">{describeQuestionSpec(spec)}</span>}
+                          </div>
+                          {canCorrect ? (
+                            <button
+                              type="button"
+                              onClick={() => setEditingQuestion(result.question)}
+                              title="Correct this answer"
+                              className="text-lg font-bold underline decoration-dotted decoration-muted-foreground/50 underline-offset-4 hover:text-primary"
+                            >
+                              {result.extracted}
+                            </button>
+                          ) : (
+                            <div className="text-lg font-bold">{result.extracted}</div>
+                          )}
                         </div>
                       </div>
 
@@ -408,11 +553,7 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
                           <div className="text-sm text-muted-foreground text-right">Correct</div>
                           <div className="text-lg font-bold">{result.correct}</div>
                         </div>
-                        {result.isCorrect ? (
-                          <CheckCircle className="h-6 w-6 text-success" />
-                        ) : (
-                          <XCircle className="h-6 w-6 text-destructive" />
-                        )}
+                        <StatusIcon status={status} />
                       </div>
                     </div>
                     
@@ -421,56 +562,64 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
                         <span className={`text-xs font-semibold ${confidenceColor}`}>
                           {result.confidence.toUpperCase()}
                         </span>
+                        {result.marks !== undefined && (
+                          <span className={`text-xs font-mono font-semibold ${result.marks > 0 ? 'text-success' : result.marks < 0 ? 'text-destructive' : 'text-muted-foreground'}`}>
+                            {result.marks > 0 ? `+${result.marks}` : result.marks < 0 ? `−${Math.abs(result.marks)}` : '0'}
+                          </span>
+                        )}
+                        {result.source === 'manual' && (
+                          <span className="text-xs font-medium text-primary">Corrected</span>
+                        )}
                         {result.note && (
                           <span className="text-xs text-muted-foreground">• {result.note}</span>
                         )}
                       </div>
                       
-                      {/* Feedback buttons */}
-                      <div className="flex gap-1">
+                      {canCorrect && (
                         <Button
                           size="sm"
-                          variant={feedback[result.question] === 'correct' ? "default" : "ghost"}
+                          variant="ghost"
                           className="h-7 px-2"
-                          onClick={() => handleFeedback(result.question, true)}
-                          title="Mark as correctly extracted"
+                          onClick={() => setEditingQuestion(result.question)}
+                          title="Correct the extracted answer"
                         >
-                          <ThumbsUp className="h-3 w-3" />
+                          <Pencil className="h-3 w-3" />
                         </Button>
-                        <Button
-                          size="sm"
-                          variant={feedback[result.question] === 'incorrect' ? "destructive" : "ghost"}
-                          className="h-7 px-2"
-                          onClick={() => handleFeedback(result.question, false)}
-                          title="Report incorrect extraction"
-                        >
-                          <ThumbsDown className="h-3 w-3" />
-                        </Button>
-                      </div>
+                      )}
                     </div>
+
+                    {result.readings && result.readings.length > 1 && (
+                      <div className="flex flex-wrap gap-x-3 gap-y-1 mt-2 text-xs text-muted-foreground">
+                        {result.readings.map(reading => (
+                          <span key={reading.reader}>
+                            {reading.reader}: <span className="font-mono font-semibold text-foreground">{reading.answer || '–'}</span>
+                          </span>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 );
               })
             ) : (
               extractedAnswers.map((extracted, index) => {
                 const correct = correctAnswers[index];
-                const isCorrect = extracted === correct;
+                const spec = specForQuestion(questionTypes, index);
+                const status = questionStatus(extracted, correct, spec);
                 
                 return (
                   <div
                     key={index}
-                    className={`flex items-center justify-between p-4 rounded-lg border-2 transition-all ${
-                      isCorrect
-                        ? 'bg-success/5 border-success/30'
-                        : 'bg-destructive/5 border-destructive/30'
-                    }`}
+                    className={`flex items-center justify-between p-4 rounded-lg border-2 transition-all ${statusCardClass(status)}`}
                   >
                     <div className="flex items-center gap-3">
                       <div className="flex items-center justify-center w-8 h-8 rounded-full bg-background text-sm font-bold">
                         {index + 1}
                       </div>
                       <div>
-                        <div className="text-sm text-muted-foreground">Extracted</div>
+                        <div className="text-sm text-muted-foreground">
+                          Extracted
+                          {spec.type !== 'single' && <span className="ml-1.5 text-xs font-medium text-primary">{describeQuestionSpec(spec)}</span>}
+                        </div>
                         <div className="text-lg font-bold">{extracted}</div>
                       </div>
                     </div>
@@ -480,11 +629,7 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
                         <div className="text-sm text-muted-foreground text-right">Correct</div>
                         <div className="text-lg font-bold">{correct}</div>
                       </div>
-                      {isCorrect ? (
-                        <CheckCircle className="h-6 w-6 text-success" />
-                      ) : (
-                        <XCircle className="h-6 w-6 text-destructive" />
-                      )}
+                      <StatusIcon status={status} />
                     </div>
                   </div>
                 );
@@ -493,6 +638,20 @@ const ResultsDashboard = ({ result, uploadedImage, onReset }: ResultsDashboardPr
           </div>
         </div>
       </Card>
+
+      {editingQuestion !== null && (
+        <CorrectionDialog
+          open={editingQuestion !== null}
+          onOpenChange={(open) => !open && setEditingQuestion(null)}
+          question={editingQuestion}
+          extracted={extractedAnswers[editingQuestion - 1] ?? ''}
+          correct={correctAnswers[editingQuestion - 1] ?? ''}
+          spec={specForQuestion(questionTypes, editingQuestion - 1)}
+          options={optionSet ?? DEFAULT_OPTION_SET}
+          history={corrections.filter(c => c.question_number === editingQuestion)}
+          onSubmit={handleCorrection}
+        />
+      )}
     </section>
   );
 };
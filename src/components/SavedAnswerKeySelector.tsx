@@ -22,21 +22,44 @@ import {
   DropdownMenuSeparator,
 } from "@/components/ui/dropdown-menu";
 import { Save, FolderOpen, Trash2, ChevronDown, Key, Loader2, Pencil, Search, Calendar, Hash, Copy, Grid3X3 } from "lucide-react";
-import { SavedAnswerKey, useSavedAnswerKeys } from "@/hooks/useSavedAnswerKeys";
+import { AnswerKeyOptions, SavedAnswerKey, getAnswerKeyOptions, useSavedAnswerKeys } from "@/hooks/useSavedAnswerKeys";
+import MarkingSchemeEditor from "@/components/MarkingSchemeEditor";
+import RegradeDialog from "@/components/RegradeDialog";
+import { countLinkedEvaluations } from "@/lib/regrade";
+import { commitActiveSet } from "@/lib/paperSets";
+import {
+  BONUS_KEY,
+  DEFAULT_MARKING_SCHEME,
+  DEFAULT_OPTION_SET,
+  DROPPED_KEY,
+  describeMarkingScheme,
+  describeQuestionSpec,
+  isDefaultMarkingScheme,
+  isValidKeyEntry,
+  specForQuestion,
+  type MarkingScheme,
+  type QuestionSpec,
+} from "@shared/scoring";
 import { toast } from "@/hooks/use-toast";
 import { format } from "date-fns";
 
+// Separators plus the characters of numeric and true/false answers
+const PARTIAL_ENTRY_CHARS = "|,0123456789.-TF";
+
 interface SavedAnswerKeySelectorProps {
   currentAnswers: string[];
   currentGridConfig?: { rows: number; columns: number };
   detectRollNumber: boolean;
   detectSubjectCode: boolean;
+  currentOptions?: AnswerKeyOptions;
   onLoadKey: (
     answers: string[],
     gridConfig?: { rows: number; columns: number },
     detectRollNumber?: boolean,
-    detectSubjectCode?: boolean
+    detectSubjectCode?: boolean,
+    options?: AnswerKeyOptions
   ) => void;
+  onKeySaved?: (key: SavedAnswerKey) => void;
   disabled?: boolean;
 }
 
@@ -45,7 +68,9 @@ const SavedAnswerKeySelector = ({
   currentGridConfig,
   detectRollNumber,
   detectSubjectCode,
+  currentOptions,
   onLoadKey,
+  onKeySaved,
   disabled,
 }: SavedAnswerKeySelectorProps) => {
   const { savedKeys, loading, saveAnswerKey, deleteAnswerKey, updateAnswerKey } = useSavedAnswerKeys();
@@ -58,7 +83,12 @@ const SavedAnswerKeySelector = ({
   const [editAnswers, setEditAnswers] = useState<string[]>([]);
   const [editDetectRollNumber, setEditDetectRollNumber] = useState(true);
   const [editDetectSubjectCode, setEditDetectSubjectCode] = useState(true);
+  const [editMarkingScheme, setEditMarkingScheme] = useState<MarkingScheme>(DEFAULT_MARKING_SCHEME);
+  // Types are kept as saved here; they are changed on the form or the Answer Keys page
+  const [editQuestionTypes, setEditQuestionTypes] = useState<QuestionSpec[] | undefined>(undefined);
+  const [editOptionSet, setEditOptionSet] = useState<string[]>(DEFAULT_OPTION_SET);
   const [searchQuery, setSearchQuery] = useState("");
+  const [regradeKey, setRegradeKey] = useState<SavedAnswerKey | null>(null);
 
   const handleSave = async () => {
     if (!keyName.trim()) {
@@ -80,13 +110,15 @@ const SavedAnswerKeySelector = ({
     }
 
     setIsSaving(true);
-    await saveAnswerKey(
+    const saved = await saveAnswerKey(
       keyName.trim(),
       currentAnswers,
       currentGridConfig,
       detectRollNumber,
-      detectSubjectCode
+      detectSubjectCode,
+      currentOptions
     );
+    if (saved) onKeySaved?.(saved as unknown as SavedAnswerKey);
     setIsSaving(false);
     setSaveDialogOpen(false);
     setKeyName("");
@@ -101,7 +133,8 @@ const SavedAnswerKeySelector = ({
       key.answers,
       gridConfig,
       key.detect_roll_number,
-      key.detect_subject_code
+      key.detect_subject_code,
+      getAnswerKeyOptions(key)
     );
     
     toast({
@@ -122,6 +155,9 @@ const SavedAnswerKeySelector = ({
     setEditAnswers([...key.answers]);
     setEditDetectRollNumber(key.detect_roll_number ?? true);
     setEditDetectSubjectCode(key.detect_subject_code ?? true);
+    setEditMarkingScheme(getAnswerKeyOptions(key).markingScheme ?? DEFAULT_MARKING_SCHEME);
+    setEditQuestionTypes(getAnswerKeyOptions(key).questionTypes);
+    setEditOptionSet(getAnswerKeyOptions(key).optionSet ?? DEFAULT_OPTION_SET);
     setEditDialogOpen(true);
   };
 
@@ -136,13 +172,18 @@ const SavedAnswerKeySelector = ({
       key.answers,
       gridConfig,
       key.detect_roll_number ?? true,
-      key.detect_subject_code ?? true
+      key.detect_subject_code ?? true,
+      getAnswerKeyOptions(key)
     );
   };
 
   const handleEditAnswerChange = (index: number, value: string) => {
-    const upperValue = value.toUpperCase();
-    if (upperValue === '' || /^[A-E]$/.test(upperValue)) {
+    const upperValue = value.toUpperCase().replace(/\s/g, '');
+    // Allow partial input while typing ("A|", "BON"); entries are validated on save
+    const isPartial = [...upperValue].every(c => editOptionSet.includes(c) || PARTIAL_ENTRY_CHARS.includes(c))
+      || BONUS_KEY.startsWith(upperValue)
+      || DROPPED_KEY.startsWith(upperValue);
+    if (isPartial) {
       setEditAnswers(prev => {
         const newAnswers = [...prev];
         newAnswers[index] = upperValue;
@@ -163,16 +204,44 @@ const SavedAnswerKeySelector = ({
       return;
     }
 
+    const invalidIndex = editAnswers.findIndex((a, i) => a !== '' && !isValidKeyEntry(a, editOptionSet, specForQuestion(editQuestionTypes, i)));
+    if (invalidIndex !== -1) {
+      toast({
+        title: "Invalid answer",
+        description: `Q${invalidIndex + 1}: "${editAnswers[invalidIndex]}" is not a valid ${describeQuestionSpec(specForQuestion(editQuestionTypes, invalidIndex)).toLowerCase()} answer`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsSaving(true);
-    await updateAnswerKey(editingKey.id, {
+    const markingScheme = isDefaultMarkingScheme(editMarkingScheme) ? null : editMarkingScheme;
+    const gradingChanged = JSON.stringify(editAnswers) !== JSON.stringify(editingKey.answers)
+      || JSON.stringify(markingScheme) !== JSON.stringify(editingKey.marking_scheme);
+    // This dialog edits the first paper set, which the key's answers mirror
+    const paperSets = getAnswerKeyOptions(editingKey).paperSets;
+    const updated = await updateAnswerKey(editingKey.id, {
       name: editName.trim(),
       answers: editAnswers,
       detect_roll_number: editDetectRollNumber,
       detect_subject_code: editDetectSubjectCode,
+      marking_scheme: markingScheme,
+      ...(paperSets && { paper_sets: commitActiveSet(paperSets, 0, editAnswers) }),
     });
     setIsSaving(false);
     setEditDialogOpen(false);
     setEditingKey(null);
+
+    // Offer to re-grade sheets that were scored against the old version of the key
+    if (updated && gradingChanged) {
+      try {
+        if (await countLinkedEvaluations(editingKey.id) > 0) {
+          setRegradeKey(updated as unknown as SavedAnswerKey);
+        }
+      } catch (error) {
+        console.error('Error counting graded sheets:', error);
+      }
+    }
   };
 
   const filledCount = currentAnswers.filter(a => a !== '').length;
@@ -286,12 +355,26 @@ const SavedAnswerKeySelector = ({
                         {key.grid_rows}×{key.grid_columns}
                       </span>
                     )}
+                    {key.paper_sets && (
+                      <Badge variant="outline" className="text-xs h-5 px-1.5">{key.paper_sets.length} sets</Badge>
+                    )}
                     {key.detect_roll_number && (
                       <Badge variant="outline" className="text-xs h-5 px-1.5">Roll</Badge>
                     )}
                     {key.detect_subject_code && (
                       <Badge variant="outline" className="text-xs h-5 px-1.5">Subject</Badge>
                     )}
+                    {key.consensus_mode && (
+                      <Badge variant="outline" className="text-xs h-5 px-1.5">Consensus</Badge>
+                    )}
+                    {key.bubble_sheet && (
+                      <Badge variant="outline" className="text-xs h-5 px-1.5">Bubbles</Badge>
+                    )}
+                    {!isDefaultMarkingScheme(key.marking_scheme) && (
+                      <Badge variant="outline" className="text-xs h-5 px-1.5 font-mono">
+                        {describeMarkingScheme(getAnswerKeyOptions(key).markingScheme!)}
+                      </Badge>
+                    )}
                   </div>
                   <div className="text-xs text-muted-foreground/70 mt-1 flex items-center gap-1">
                     <Calendar className="h-3 w-3" />
@@ -355,6 +438,16 @@ const SavedAnswerKeySelector = ({
                 )}
                 <p><span className="font-medium">Detect Roll Number:</span> {detectRollNumber ? 'Yes' : 'No'}</p>
                 <p><span className="font-medium">Detect Subject Code:</span> {detectSubjectCode ? 'Yes' : 'No'}</p>
+                <p><span className="font-medium">Marking:</span> {describeMarkingScheme(currentOptions?.markingScheme ?? DEFAULT_MARKING_SCHEME)}</p>
+                {currentOptions?.paperSets && (
+                  <p><span className="font-medium">Paper Sets:</span> {currentOptions.paperSets.map(set => set.code).join(', ')}</p>
+                )}
+                {currentOptions?.consensus && (
+                  <p><span className="font-medium">Consensus Reading:</span> Yes</p>
+                )}
+                {currentOptions?.bubbleSheet && (
+                  <p><span className="font-medium">Bubble Sheet:</span> Yes</p>
+                )}
               </div>
             </Card>
           </div>
@@ -419,26 +512,37 @@ const SavedAnswerKeySelector = ({
               </div>
             </div>
 
+            <MarkingSchemeEditor
+              value={editMarkingScheme}
+              onChange={setEditMarkingScheme}
+              questionCount={editAnswers.length}
+            />
+
             {/* Answer Grid */}
             <div className="space-y-2">
-              <Label>Answers ({editAnswers.length} questions)</Label>
+              <Label>
+                Answers ({editAnswers.length} questions)
+                {editingKey?.paper_sets && ` — Set ${editingKey.paper_sets[0]?.code}; edit other sets from the Answer Keys page`}
+              </Label>
               <Card className="p-3 bg-muted/30">
                 <div className="grid grid-cols-5 sm:grid-cols-10 gap-2 max-h-64 overflow-y-auto">
                   {editAnswers.map((answer, index) => (
                     <div key={index} className="flex flex-col items-center">
-                      <span className="text-xs text-muted-foreground mb-1">{index + 1}</span>
+                      <span className="text-xs text-muted-foreground mb-1" title={describeQuestionSpec(specForQuestion(editQuestionTypes, index))}>
+                        {index + 1}{specForQuestion(editQuestionTypes, index).type !== 'single' && '*'}
+                      </span>
                       <Input
                         value={answer}
                         onChange={(e) => handleEditAnswerChange(index, e.target.value)}
-                        maxLength={1}
-                        className="w-10 h-10 text-center text-lg font-bold p-0"
+                        className={`w-12 h-10 text-center font-bold p-0 ${answer.length > 1 ? 'text-[10px]' : 'text-lg'}`}
                       />
                     </div>
                   ))}
                 </div>
               </Card>
               <p className="text-xs text-muted-foreground">
-                Valid answers: A, B, C, D, E (case insensitive)
+                Valid answers: A, B, C, D, E (case insensitive), A|C for several correct options, BONUS or DROP.
+                Questions marked * have another type (hover for it): multi-select takes A,C; numeric a number; true/false T or F.
               </p>
             </div>
 
@@ -470,6 +574,12 @@ const SavedAnswerKeySelector = ({
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <RegradeDialog
+        answerKey={regradeKey}
+        open={regradeKey !== null}
+        onOpenChange={(open) => !open && setRegradeKey(null)}
+      />
     </div>
   );
 };
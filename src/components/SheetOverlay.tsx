@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Eye, EyeOff, ZoomIn, ZoomOut, Maximize2 } from "lucide-react";
+import type { OverlayCell, OverlayTone } from "@/lib/cellRegions";
+
+interface SheetOverlayProps {
+  imageUrl: string;
+  cells: OverlayCell[];
+  estimated?: boolean;
+  selectedQuestion?: number | null;
+  onCellClick?: (question: number) => void;
+}
+
+const ZOOM_LEVELS = [1, 1.5, 2, 3, 4];
+
+const TONE_CLASSES: Record<OverlayTone, string> = {
+  correct: "border-success bg-success/10",
+  wrong: "border-destructive bg-destructive/15",
+  low: "border-amber-500 border-dashed bg-amber-400/20",
+  neutral: "border-muted-foreground/60 bg-muted/20",
+};
+
+const LEGEND: Array<{ tone: OverlayTone; label: string }> = [
+  { tone: "correct", label: "Correct" },
+  { tone: "wrong", label: "Wrong / blank" },
+  { tone: "low", label: "Low confidence" },
+  { tone: "neutral", label: "Dropped" },
+];
+
+/** Sheet photo with a box on every question's cell, coloured by its result. */
+const SheetOverlay = ({ imageUrl, cells, estimated, selectedQuestion, onCellClick }: SheetOverlayProps) => {
+  const [zoomIndex, setZoomIndex] = useState(0);
+  const [showBoxes, setShowBoxes] = useState(true);
+  const zoom = ZOOM_LEVELS[zoomIndex];
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-1 flex-wrap">
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setZoomIndex(i => Math.max(0, i - 1))}
+          disabled={zoomIndex === 0}
+          title="Zoom out"
+        >
+          <ZoomOut className="h-4 w-4" />
+        </Button>
+        <span className="text-xs font-mono w-10 text-center">{zoom}×</span>
+        <Button
+          type="button"
+          variant="outline"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setZoomIndex(i => Math.min(ZOOM_LEVELS.length - 1, i + 1))}
+          disabled={zoomIndex === ZOOM_LEVELS.length - 1}
+          title="Zoom in"
+        >
+          <ZoomIn className="h-4 w-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          className="h-8 w-8"
+          onClick={() => setZoomIndex(0)}
+          disabled={zoomIndex === 0}
+          title="Fit to width"
+        >
+          <Maximize2 className="h-4 w-4" />
+        </Button>
+        {cells.length > 0 && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 gap-1 ml-auto"
+            onClick={() => setShowBoxes(v => !v)}
+          >
+            {showBoxes ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+            {showBoxes ? "Hide boxes" : "Show boxes"}
+          </Button>
+        )}
+      </div>
+
+      <div className="max-h-[70vh] overflow-auto rounded-lg border bg-muted/20">
+        <div className="relative" style={{ width: `${zoom * 100}%` }}>
+          <img src={imageUrl} alt="Answer sheet" className="block w-full select-none" draggable={false} />
+          {showBoxes && cells.map(cell => (
+            <button
+              key={cell.question}
+              type="button"
+              title={cell.label}
+              onClick={() => onCellClick?.(cell.question)}
+              disabled={!onCellClick}
+              className={`absolute border-2 rounded-sm transition-colors disabled:cursor-default ${TONE_CLASSES[cell.tone]} ${
+                selectedQuestion === cell.question ? "ring-2 ring-primary ring-offset-1" : ""
+              }`}
+              style={{
+                left: `${cell.region.x * 100}%`,
+                top: `${cell.region.y * 100}%`,
+                width: `${cell.region.width * 100}%`,
+                height: `${cell.region.height * 100}%`,
+              }}
+            >
+              {zoom >= 2 && (
+                <span className="absolute -top-4 left-0 text-[10px] font-bold leading-none px-0.5 rounded bg-background/80">
+                  {cell.question}
+                </span>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {cells.length > 0 && showBoxes && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {LEGEND.map(({ tone, label }) => (
+            <span key={tone} className="flex items-center gap-1.5">
+              <span className={`inline-block h-3 w-3 border-2 rounded-sm ${TONE_CLASSES[tone]}`} />
+              {label}
+            </span>
+          ))}
+          {estimated && <span className="italic">Some boxes are estimated from the grid layout</span>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SheetOverlay;
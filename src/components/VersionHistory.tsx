@@ -0,0 +1,82 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ImageOff, Loader2, Star } from "lucide-react";
+import { format } from "date-fns";
+import { useSheetImageUrls } from "@/hooks/useSheetImageUrls";
+import { VERSION_SOURCE_LABELS, type EvaluationVersion } from "@/lib/versions";
+
+interface VersionHistoryProps {
+  versions: EvaluationVersion[];
+  currentId?: string;
+  busyId?: string | null;
+  onMakeAuthoritative?: (id: string) => void;
+}
+
+// Corrections change a row in place, so their time is the last update
+const versionTime = (version: EvaluationVersion) =>
+  version.version_source === 'correction' ? version.updated_at : version.created_at;
+
+/** Scans, rescans and corrections of one sheet, newest first. */
+const VersionHistory = ({ versions, currentId, busyId, onMakeAuthoritative }: VersionHistoryProps) => {
+  const imageUrls = useSheetImageUrls(versions.map(version => version.image_url));
+
+  return (
+    <ul className="space-y-2">
+      {versions.map(version => (
+        <li
+          key={version.id}
+          className={`flex items-center gap-3 p-2 rounded-md border text-xs ${
+            version.is_authoritative ? 'border-primary bg-primary/5' : 'bg-muted/30'
+          }`}
+        >
+          {imageUrls[version.image_url] ? (
+            <a href={imageUrls[version.image_url]} target="_blank" rel="noreferrer" className="shrink-0">
+              <img src={imageUrls[version.image_url]} alt={`Version ${version.version}`} className="h-14 w-11 object-cover rounded border" />
+            </a>
+          ) : (
+            <div className="h-14 w-11 shrink-0 flex items-center justify-center rounded border text-muted-foreground">
+              <ImageOff className="h-4 w-4" />
+            </div>
+          )}
+          <div className="flex-1 min-w-0 space-y-0.5">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className="font-semibold">v{version.version}</span>
+              <span className="text-muted-foreground">{VERSION_SOURCE_LABELS[version.version_source] ?? version.version_source}</span>
+              {version.is_authoritative && <Badge className="h-5 text-[10px]">Authoritative</Badge>}
+              {version.conflict_with && <Badge variant="outline" className="h-5 text-[10px]">Unresolved rescan</Badge>}
+              {version.id === currentId && <Badge variant="secondary" className="h-5 text-[10px]">Viewing</Badge>}
+            </div>
+            <div className="flex items-center gap-2 flex-wrap text-muted-foreground">
+              {version.score == null ? (
+                <span className="font-semibold text-foreground">Set needed</span>
+              ) : (
+                <>
+                  <span className="font-semibold text-foreground">
+                    {version.score}/{version.max_marks ?? version.total_questions}
+                  </span>
+                  <span>{Number(version.accuracy).toFixed(1)}%</span>
+                </>
+              )}
+              {version.paper_set && <span>Set {version.paper_set}</span>}
+              <span>{format(new Date(versionTime(version)), 'MMM dd, yyyy HH:mm')}</span>
+            </div>
+          </div>
+          {onMakeAuthoritative && !version.is_authoritative && !version.conflict_with && (
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-7 px-2 text-xs gap-1 shrink-0"
+              onClick={() => onMakeAuthoritative(version.id)}
+              disabled={!!busyId}
+            >
+              {busyId === version.id ? <Loader2 className="h-3 w-3 animate-spin" /> : <Star className="h-3 w-3" />}
+              Mark authoritative
+            </Button>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default VersionHistory;
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  fetchBatchItem,
+  fetchBatchJob,
+  isJobStalled,
+  resumeBatchJob,
+  type BatchItem,
+  type BatchJob,
+} from "@/lib/batchJobs";
+
+const STALL_CHECK_MS = 60 * 1000;
+
+const byPosition = (a: BatchItem, b: BatchItem) => a.position - b.position;
+
+/**
+ * Follows a server-side batch: loads the job and its sheets, then keeps them
+ * current from realtime changes. A job whose worker has stalled, when attached
+ * to or while being watched, is started again.
+ */
+export function useBatchJob(jobId: string | null) {
+  const [job, setJob] = useState<BatchJob | null>(null);
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setJob(null);
+    setItems([]);
+    if (!jobId) return;
+    let cancelled = false;
+    let latest: BatchJob | null = null;
+    const track = (next: BatchJob) => {
+      latest = next;
+      setJob(next);
+    };
+    const resumeIfStalled = () => {
+      if (latest && isJobStalled(latest)) {
+        resumeBatchJob(latest.id).catch(error => console.error('Error resuming batch:', error));
+      }
+    };
+
+    // Item rows carry the evaluation's score through a join, which realtime
+    // payloads don't include, so changed items are read again
+    const refreshItem = async (itemId: string) => {
+      try {
+        const item = await fetchBatchItem(itemId);
+        if (!item || cancelled) return;
+        setItems(prev => [...prev.filter(i => i.id !== item.id), item].sort(byPosition));
+      } catch (error) {
+        console.error('Error loading batch item:', error);
+      }
+    };
+
+    const channel = supabase
+      .channel(`batch-job-${jobId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'batch_items', filter: `job_id=eq.${jobId}` },
+        (payload) => {
+          const row = payload.new as Partial<BatchItem>;
+          if (row?.id) refreshItem(row.id);
+        },
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'batch_jobs', filter: `id=eq.${jobId}` },
+        (payload) => track(payload.new as BatchJob),
+      )
+      .subscribe();
+
+    const load = async () => {
+      try {
+        setLoading(true);
+        const loaded = await fetchBatchJob(jobId);
+        if (cancelled) return;
+        track(loaded.job);
+        setItems(loaded.items);
+        resumeIfStalled();
+      } catch (error) {
+        console.error('Error loading batch:', error);
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+    load();
+    const watchdog = setInterval(resumeIfStalled, STALL_CHECK_MS);
+
+    return () => {
+      cancelled = true;
+      clearInterval(watchdog);
+      supabase.removeChannel(channel);
+    };
+  }, [jobId]);
+
+  return { job, items, loading };
+}
@@ -1,6 +1,29 @@
 import { useState, useEffect } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "@/hooks/use-toast";
+import type { Json, TablesUpdate } from "@/integrations/supabase/types";
+import {
+  isDefaultMarkingScheme,
+  isDefaultOptionSet,
+  normalizeMarkingScheme,
+  normalizeOptionSet,
+  normalizeQuestionTypes,
+  type MarkingScheme,
+  type QuestionSpec,
+} from "@shared/scoring";
+import { normalizePaperSets, type PaperSet } from "@shared/paperSets";
+
+// Per-key settings beyond the answers themselves. Passed alongside the
+// answers/grid/detection arguments wherever a key is submitted or loaded.
+export interface AnswerKeyOptions {
+  markingScheme?: MarkingScheme;
+  questionTypes?: QuestionSpec[];  // Omitted when every question is single-choice
+  optionSet?: string[];  // Options printed on the sheet; omitted means A–E
+  paperSets?: PaperSet[];  // Set variants; the submitted answers are the first set's
+  answerKeyId?: string;  // Saved key the answers came from; evaluations link to it for re-grading
+  consensus?: boolean;  // Read every sheet twice and send disagreements to review
+  bubbleSheet?: boolean;  // Grid cells are printed bubbles, which the local bubble reader can read
+}
 
 export interface SavedAnswerKey {
   id: string;
@@ -10,10 +33,26 @@ export interface SavedAnswerKey {
   grid_columns: number | null;
   detect_roll_number: boolean;
   detect_subject_code: boolean;
+  marking_scheme: MarkingScheme | null;
+  question_types: QuestionSpec[] | null;
+  option_set: string[] | null;
+  paper_sets: PaperSet[] | null;
+  consensus_mode: boolean;
+  bubble_sheet: boolean;
   created_at: string;
   updated_at: string;
 }
 
+export const getAnswerKeyOptions = (key: SavedAnswerKey): AnswerKeyOptions => ({
+  markingScheme: key.marking_scheme ? normalizeMarkingScheme(key.marking_scheme) : undefined,
+  questionTypes: normalizeQuestionTypes(key.question_types, key.answers.length),
+  optionSet: key.option_set ? normalizeOptionSet(key.option_set) : undefined,
+  paperSets: normalizePaperSets(key.paper_sets, key.answers.length),
+  answerKeyId: key.id,
+  consensus: key.consensus_mode || undefined,
+  bubbleSheet: key.bubble_sheet || undefined,
+});
+
 export const useSavedAnswerKeys = () => {
   const [savedKeys, setSavedKeys] = useState<SavedAnswerKey[]>([]);
   const [loading, setLoading] = useState(true);
@@ -37,7 +76,7 @@ export const useSavedAnswerKeys = () => {
         .order('updated_at', { ascending: false });
 
       if (error) throw error;
-      setSavedKeys((data as SavedAnswerKey[]) || []);
+      setSavedKeys((data as unknown as SavedAnswerKey[]) || []);
     } catch (error) {
       console.error('Error fetching saved keys:', error);
       toast({
@@ -55,7 +94,8 @@ export const useSavedAnswerKeys = () => {
     answers: string[],
     gridConfig?: { rows: number; columns: number },
     detectRollNumber: boolean = true,
-    detectSubjectCode: boolean = true
+    detectSubjectCode: boolean = true,
+    options: AnswerKeyOptions = {}
   ) => {
     try {
       const { data: { user } } = await supabase.auth.getUser();
@@ -78,13 +118,19 @@ export const useSavedAnswerKeys = () => {
           grid_columns: gridConfig?.columns || null,
           detect_roll_number: detectRollNumber,
           detect_subject_code: detectSubjectCode,
+          marking_scheme: (isDefaultMarkingScheme(options.markingScheme) ? null : options.markingScheme) as unknown as Json,
+          question_types: (normalizeQuestionTypes(options.questionTypes, answers.length) ?? null) as unknown as Json,
+          option_set: isDefaultOptionSet(options.optionSet) ? null : options.optionSet,
+          paper_sets: (normalizePaperSets(options.paperSets, answers.length) ?? null) as unknown as Json,
+          consensus_mode: !!options.consensus,
+          bubble_sheet: !!options.bubbleSheet,
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      setSavedKeys(prev => [data as SavedAnswerKey, ...prev]);
+      setSavedKeys(prev => [data as unknown as SavedAnswerKey, ...prev]);
       toast({
         title: "Answer key saved",
         description: `"${name}" has been saved successfully`,
@@ -132,14 +178,14 @@ export const useSavedAnswerKeys = () => {
     try {
       const { data, error } = await supabase
         .from('saved_answer_keys')
-        .update(updates)
+        .update(updates as unknown as TablesUpdate<"saved_answer_keys">)
         .eq('id', id)
         .select()
         .single();
 
       if (error) throw error;
 
-      setSavedKeys(prev => prev.map(key => key.id === id ? (data as SavedAnswerKey) : key));
+      setSavedKeys(prev => prev.map(key => key.id === id ? (data as unknown as SavedAnswerKey) : key));
       toast({
         title: "Updated",
         description: "Answer key has been updated",
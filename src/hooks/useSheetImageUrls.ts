@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react";
+import { signSheetImages } from "@/lib/sheetImages";
+
+/**
+ * Short-lived links for the sheet photos at the given storage paths, keyed by
+ * path. Links are signed again whenever the set of paths changes.
+ */
+export function useSheetImageUrls(paths: (string | null | undefined)[]): Record<string, string> {
+  const [urls, setUrls] = useState<Record<string, string>>({});
+  const pathKey = paths.filter(Boolean).join('\n');
+
+  useEffect(() => {
+    let cancelled = false;
+    if (!pathKey) {
+      setUrls({});
+      return;
+    }
+    signSheetImages(pathKey.split('\n'))
+      .then(signed => { if (!cancelled) setUrls(signed); })
+      .catch(error => console.error('Error signing sheet images:', error));
+    return () => { cancelled = true; };
+  }, [pathKey]);
+
+  return urls;
+}
@@ -14,12 +14,177 @@ export type Database = {
   }
   public: {
     Tables: {
+      answer_corrections: {
+        Row: {
+          created_at: string
+          evaluation_id: string
+          id: string
+          new_answer: string
+          new_score: number | null
+          old_score: number | null
+          original_answer: string
+          question_number: number
+          reason: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          evaluation_id: string
+          id?: string
+          new_answer: string
+          new_score?: number | null
+          old_score?: number | null
+          original_answer: string
+          question_number: number
+          reason: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          evaluation_id?: string
+          id?: string
+          new_answer?: string
+          new_score?: number | null
+          old_score?: number | null
+          original_answer?: string
+          question_number?: number
+          reason?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "answer_corrections_evaluation_id_fkey"
+            columns: ["evaluation_id"]
+            isOneToOne: false
+            referencedRelation: "evaluations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_items: {
+        Row: {
+          attempts: number
+          created_at: string
+          error: string | null
+          evaluation_id: string | null
+          file_name: string
+          finished_at: string | null
+          id: string
+          image_path: string
+          job_id: string
+          needs_paper_set: boolean
+          position: number
+          retry_at: string | null
+          set_code: string | null
+          started_at: string | null
+          status: string
+          throttle_count: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          evaluation_id?: string | null
+          file_name: string
+          finished_at?: string | null
+          id?: string
+          image_path: string
+          job_id: string
+          needs_paper_set?: boolean
+          position: number
+          retry_at?: string | null
+          set_code?: string | null
+          started_at?: string | null
+          status?: string
+          throttle_count?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          error?: string | null
+          evaluation_id?: string | null
+          file_name?: string
+          finished_at?: string | null
+          id?: string
+          image_path?: string
+          job_id?: string
+          needs_paper_set?: boolean
+          position?: number
+          retry_at?: string | null
+          set_code?: string | null
+          started_at?: string | null
+          status?: string
+          throttle_count?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "batch_items_evaluation_id_fkey"
+            columns: ["evaluation_id"]
+            isOneToOne: false
+            referencedRelation: "evaluations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "batch_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "batch_jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      batch_jobs: {
+        Row: {
+          concurrency: number | null
+          created_at: string
+          expected_count: number | null
+          heartbeat_at: string | null
+          id: string
+          settings: Json
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          concurrency?: number | null
+          created_at?: string
+          expected_count?: number | null
+          heartbeat_at?: string | null
+          id?: string
+          settings: Json
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          concurrency?: number | null
+          created_at?: string
+          expected_count?: number | null
+          heartbeat_at?: string | null
+          id?: string
+          settings?: Json
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       evaluations: {
         Row: {
-          accuracy: number
+          accuracy: number | null
           answer_key: string[]
+          answer_key_id: string | null
+          batch_id: string | null
           confidence: string | null
+          conflict_with: string | null
           correct_answers: string[]
+          correct_count: number | null
           created_at: string
           detailed_results: Json | null
           extracted_answers: string[]
@@ -27,19 +192,37 @@ export type Database = {
           grid_rows: number | null
           id: string
           image_url: string
+          is_authoritative: boolean
+          lineage_id: string
           low_confidence_count: number | null
+          marking_scheme: Json | null
+          max_marks: number | null
+          needs_paper_set: boolean
+          option_set: string[] | null
+          paper_set: string | null
+          penalty_marks: number | null
+          processing_metadata: Json | null
+          question_types: Json | null
+          raw_marks: number | null
           roll_number: string | null
-          score: number
+          score: number | null
           subject_code: string | null
           total_questions: number
           updated_at: string
           user_id: string
+          version: number
+          version_source: string
+          wrong_count: number | null
         }
         Insert: {
-          accuracy: number
+          accuracy?: number | null
           answer_key: string[]
+          answer_key_id?: string | null
+          batch_id?: string | null
           confidence?: string | null
+          conflict_with?: string | null
           correct_answers: string[]
+          correct_count?: number | null
           created_at?: string
           detailed_results?: Json | null
           extracted_answers: string[]
@@ -47,19 +230,37 @@ export type Database = {
           grid_rows?: number | null
           id?: string
           image_url: string
+          is_authoritative?: boolean
+          lineage_id?: string
           low_confidence_count?: number | null
+          marking_scheme?: Json | null
+          max_marks?: number | null
+          needs_paper_set?: boolean
+          option_set?: string[] | null
+          paper_set?: string | null
+          penalty_marks?: number | null
+          processing_metadata?: Json | null
+          question_types?: Json | null
+          raw_marks?: number | null
           roll_number?: string | null
-          score: number
+          score?: number | null
           subject_code?: string | null
           total_questions: number
           updated_at?: string
           user_id: string
+          version?: number
+          version_source?: string
+          wrong_count?: number | null
         }
         Update: {
-          accuracy?: number
+          accuracy?: number | null
           answer_key?: string[]
+          answer_key_id?: string | null
+          batch_id?: string | null
           confidence?: string | null
+          conflict_with?: string | null
           correct_answers?: string[]
+          correct_count?: number | null
           created_at?: string
           detailed_results?: Json | null
           extracted_answers?: string[]
@@ -67,15 +268,44 @@ export type Database = {
           grid_rows?: number | null
           id?: string
           image_url?: string
+          is_authoritative?: boolean
+          lineage_id?: string
           low_confidence_count?: number | null
+          marking_scheme?: Json | null
+          max_marks?: number | null
+          needs_paper_set?: boolean
+          option_set?: string[] | null
+          paper_set?: string | null
+          penalty_marks?: number | null
+          processing_metadata?: Json | null
+          question_types?: Json | null
+          raw_marks?: number | null
           roll_number?: string | null
-          score?: number
+          score?: number | null
           subject_code?: string | null
           total_questions?: number
           updated_at?: string
           user_id?: string
+          version?: number
+          version_source?: string
+          wrong_count?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "evaluations_answer_key_id_fkey"
+            columns: ["answer_key_id"]
+            isOneToOne: false
+            referencedRelation: "saved_answer_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "evaluations_conflict_with_fkey"
+            columns: ["conflict_with"]
+            isOneToOne: false
+            referencedRelation: "evaluations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       export_settings: {
         Row: {
@@ -125,6 +355,62 @@ export type Database = {
         }
         Relationships: []
       }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          daily_limit: number | null
+          id: string
+          monthly_limit: number | null
+          name: string
+          per_minute_limit: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          daily_limit?: number | null
+          id?: string
+          monthly_limit?: number | null
+          name: string
+          per_minute_limit?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          daily_limit?: number | null
+          id?: string
+          monthly_limit?: number | null
+          name?: string
+          per_minute_limit?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       otp_codes: {
         Row: {
           code: string
@@ -155,37 +441,114 @@ export type Database = {
       saved_answer_keys: {
         Row: {
           answers: string[]
+          bubble_sheet: boolean
+          consensus_mode: boolean
           created_at: string
           detect_roll_number: boolean | null
           detect_subject_code: boolean | null
           grid_columns: number | null
           grid_rows: number | null
           id: string
+          marking_scheme: Json | null
           name: string
+          option_set: string[] | null
+          paper_sets: Json | null
+          question_types: Json | null
           updated_at: string
           user_id: string
         }
         Insert: {
           answers: string[]
+          bubble_sheet?: boolean
+          consensus_mode?: boolean
           created_at?: string
           detect_roll_number?: boolean | null
           detect_subject_code?: boolean | null
           grid_columns?: number | null
           grid_rows?: number | null
           id?: string
+          marking_scheme?: Json | null
           name: string
+          option_set?: string[] | null
+          paper_sets?: Json | null
+          question_types?: Json | null
           updated_at?: string
           user_id: string
         }
         Update: {
           answers?: string[]
+          bubble_sheet?: boolean
+          consensus_mode?: boolean
           created_at?: string
           detect_roll_number?: boolean | null
           detect_subject_code?: boolean | null
           grid_columns?: number | null
           grid_rows?: number | null
           id?: string
+          marking_scheme?: Json | null
           name?: string
+          option_set?: string[] | null
+          paper_sets?: Json | null
+          question_types?: Json | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      usage_events: {
+        Row: {
+          committed: boolean
+          created_at: string
+          id: string
+          organization_id: string | null
+          user_id: string
+        }
+        Insert: {
+          committed?: boolean
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          user_id: string
+        }
+        Update: {
+          committed?: boolean
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "usage_events_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_quotas: {
+        Row: {
+          created_at: string
+          daily_limit: number | null
+          monthly_limit: number | null
+          per_minute_limit: number | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          daily_limit?: number | null
+          monthly_limit?: number | null
+          per_minute_limit?: number | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          daily_limit?: number | null
+          monthly_limit?: number | null
+          per_minute_limit?: number | null
           updated_at?: string
           user_id?: string
         }
@@ -196,7 +559,91 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      apply_answer_correction: {
+        Args: {
+          _evaluation_id: string
+          _expected_version: number
+          _fields: Json
+          _new_answer: string
+          _original_answer: string
+          _question_number: number
+          _reason: string
+          _user_id: string
+        }
+        Returns: {
+          created_at: string
+          evaluation_id: string
+          id: string
+          new_answer: string
+          new_score: number | null
+          old_score: number | null
+          original_answer: string
+          question_number: number
+          reason: string
+          user_id: string
+        }[]
+      }
+      claim_batch_items: {
+        Args: { _job_id: string; _limit: number; _stale_after: unknown }
+        Returns: {
+          attempts: number
+          created_at: string
+          error: string | null
+          evaluation_id: string | null
+          file_name: string
+          finished_at: string | null
+          id: string
+          image_path: string
+          job_id: string
+          needs_paper_set: boolean
+          position: number
+          retry_at: string | null
+          set_code: string | null
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
       cleanup_expired_otp_codes: { Args: never; Returns: undefined }
+      get_my_daily_usage: {
+        Args: { _days?: number }
+        Returns: {
+          day: string
+          sheets: number
+        }[]
+      }
+      get_my_quota_status: {
+        Args: never
+        Returns: {
+          period: string
+          quota_limit: number
+          resets_at: string
+          scope: string
+          used: number
+        }[]
+      }
+      quota_status: {
+        Args: { _user_id: string }
+        Returns: {
+          period: string
+          quota_limit: number
+          resets_at: string
+          scope: string
+          used: number
+        }[]
+      }
+      reserve_sheet_quota: {
+        Args: { _user_id: string }
+        Returns: {
+          allowed: boolean
+          period: string
+          quota_limit: number
+          reservation_id: string
+          resets_at: string
+          scope: string
+        }[]
+      }
     }
     Enums: {
       [_ in never]: never
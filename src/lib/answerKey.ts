@@ -0,0 +1,108 @@
+import {
+  BONUS_KEY,
+  DEFAULT_OPTION_SET,
+  DEFAULT_QUESTION_SPEC,
+  DROPPED_KEY,
+  TRUE_FALSE_OPTIONS,
+  formatKeyEntry,
+  isValidKeyEntry,
+  normalizeResponse,
+  parseKeyEntry,
+  type QuestionSpec,
+} from "@shared/scoring";
+
+/** Buttons offered for a question of the given type; numeric questions have none. */
+export const optionsForSpec = (spec: QuestionSpec, options: string[] = DEFAULT_OPTION_SET): string[] =>
+  spec.type === "truefalse" ? TRUE_FALSE_OPTIONS : spec.type === "numeric" ? [] : options;
+
+const byOptionOrder = (options: string[]) => (a: string, b: string) => options.indexOf(a) - options.indexOf(b);
+
+/**
+ * Applies a click on an option button. A plain click makes the option the only
+ * correct answer; an additive click (shift/ctrl/cmd) adds or removes it from the
+ * accepted set, producing entries like "A|C". On multi-select questions every
+ * click toggles the option within the set to be marked ("A,C").
+ */
+export const applyOptionClick = (
+  current: string,
+  option: string,
+  additive: boolean,
+  spec: QuestionSpec = DEFAULT_QUESTION_SPEC,
+  options: string[] = DEFAULT_OPTION_SET
+): string => {
+  const entry = parseKeyEntry(current);
+
+  if (spec.type === "multi") {
+    const selected = entry.kind === "answer" && entry.accepted.length > 0 ? entry.accepted[0].split(",") : [];
+    const next = selected.includes(option)
+      ? selected.filter(o => o !== option)
+      : [...selected, option].sort(byOptionOrder(options));
+    return next.join(",");
+  }
+
+  if (!additive || entry.kind !== "answer") return option;
+
+  const accepted = entry.accepted.includes(option)
+    ? entry.accepted.filter(o => o !== option)
+    : [...entry.accepted, option].sort(byOptionOrder(options));
+  return formatKeyEntry({ kind: "answer", accepted });
+};
+
+/** Toggles BONUS/DROP on a question; toggling off clears the answer. */
+export const toggleSpecialEntry = (current: string, special: typeof BONUS_KEY | typeof DROPPED_KEY): string =>
+  current === special ? "" : special;
+
+export const isOptionSelected = (entry: string, option: string, spec: QuestionSpec = DEFAULT_QUESTION_SPEC): boolean => {
+  const parsed = parseKeyEntry(entry);
+  if (parsed.kind !== "answer") return false;
+  if (spec.type === "multi") return (parsed.accepted[0] ?? "").split(",").includes(option);
+  return parsed.accepted.includes(option);
+};
+
+/** Keeps an entry when a question changes type, clearing it if it no longer fits. */
+export const entryForSpec = (entry: string, spec: QuestionSpec, options: string[] = DEFAULT_OPTION_SET): string =>
+  entry === "" || isValidKeyEntry(entry, options, spec) ? entry : "";
+
+/**
+ * Guesses a question's type from a pasted token: "12.5", "T", "A+C" or "B".
+ * Tokens made of the key's own options win, so "3" on a 1–4 sheet is an option.
+ */
+const inferSpec = (token: string, options: string[]): QuestionSpec => {
+  if (token.includes("+")) return { type: "multi" };
+  if (token.split("|").every(o => options.includes(o))) return DEFAULT_QUESTION_SPEC;
+  if (/^-?\d+(\.\d+)?$/.test(token)) return { type: "numeric", tolerance: 0 };
+  if (["T", "F", "TRUE", "FALSE"].includes(token)) return { type: "truefalse" };
+  return DEFAULT_QUESTION_SPEC;
+};
+
+/**
+ * Splits pasted text into key entries, keeping only valid ones. Since commas
+ * separate questions here, multi-select answers are pasted as "A+C".
+ */
+export const parseBulkAnswers = (
+  text: string,
+  options: string[] = DEFAULT_OPTION_SET
+): { answers: string[]; types: QuestionSpec[] } => {
+  const answers: string[] = [];
+  const types: QuestionSpec[] = [];
+
+  text
+    .toUpperCase()
+    .split(/[\s,;]+/)
+    .map(s => s.trim())
+    .filter(Boolean)
+    .forEach(token => {
+      const spec = inferSpec(token, options);
+      const entry = spec.type === "multi" || spec.type === "truefalse" ? normalizeResponse(token, spec) : token;
+      if (isValidKeyEntry(entry, options, spec)) {
+        answers.push(entry);
+        types.push(spec);
+      }
+    });
+
+  return { answers, types };
+};
+
+/** Inverse of parseBulkAnswers, for showing a key in the bulk text box. */
+export const formatBulkAnswers = (answers: string[], types?: QuestionSpec[]): string =>
+  answers.map((a, i) => (types?.[i]?.type === "multi" ? a.replace(/,/g, "+") : a)).join(", ");
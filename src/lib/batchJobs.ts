@@ -0,0 +1,113 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import type { BatchProcessingItem } from "@/components/BatchProcessor";
+import type { AnswerKeyOptions } from "@/hooks/useSavedAnswerKeys";
+import { callFunctionAction } from "@/lib/evaluationActions";
+
+// Batches run on the server (the batch-jobs function); the page only uploads
+// sheets, creates the job and follows the rows it writes.
+
+export type BatchJob = Tables<"batch_jobs">;
+
+type ItemEvaluation = Pick<
+  Tables<"evaluations">,
+  'roll_number' | 'subject_code' | 'paper_set' | 'conflict_with' | 'score' | 'total_questions'
+  | 'accuracy' | 'raw_marks' | 'penalty_marks' | 'max_marks'
+>;
+
+export type BatchItem = Tables<"batch_items"> & { evaluation: ItemEvaluation | null };
+
+const ITEM_COLUMNS =
+  '*, evaluation:evaluations(roll_number, subject_code, paper_set, conflict_with, score, total_questions, accuracy, raw_marks, penalty_marks, max_marks)';
+
+/** Analyzer settings every sheet of a batch is read and graded with. */
+export interface BatchSettings extends AnswerKeyOptions {
+  answerKey: string[];
+  gridConfig?: { rows: number; columns: number };
+  detectRollNumber?: boolean;
+  detectSubjectCode?: boolean;
+}
+
+export interface NewBatchItem {
+  fileName: string;
+  imagePath: string;
+}
+
+// A running job whose worker hasn't reported for this long has stalled
+const STALLED_AFTER_MS = 2 * 60 * 1000;
+
+export const isJobActive = (job: BatchJob) => job.status === 'queued' || job.status === 'running';
+
+export const isJobStalled = (job: BatchJob) =>
+  isJobActive(job) && Date.now() - Date.parse(job.heartbeat_at ?? job.updated_at) > STALLED_AFTER_MS;
+
+export function toProcessingItem(item: BatchItem): BatchProcessingItem {
+  const evaluation = item.evaluation;
+  return {
+    fileName: item.file_name,
+    status: item.status as BatchProcessingItem['status'],
+    evaluationId: item.evaluation_id ?? undefined,
+    conflictWith: item.status === 'conflict' ? evaluation?.conflict_with ?? undefined : undefined,
+    rollNumber: evaluation?.roll_number ?? undefined,
+    subjectCode: evaluation?.subject_code ?? undefined,
+    setCode: item.set_code,
+    paperSet: evaluation?.paper_set ?? undefined,
+    score: evaluation?.score ?? undefined,
+    totalQuestions: evaluation?.total_questions,
+    accuracy: evaluation?.accuracy ?? undefined,
+    rawMarks: evaluation?.raw_marks ?? undefined,
+    penaltyMarks: evaluation?.penalty_marks ?? undefined,
+    maxMarks: evaluation?.max_marks ?? undefined,
+    error: item.error ?? undefined,
+    retryAt: item.retry_at ?? undefined,
+    finishedAt: item.finished_at ?? undefined,
+  };
+}
+
+export async function fetchBatchJob(jobId: string): Promise<{ job: BatchJob; items: BatchItem[] }> {
+  const [{ data: job, error: jobError }, { data: items, error: itemsError }] = await Promise.all([
+    supabase.from('batch_jobs').select('*').eq('id', jobId).single(),
+    supabase.from('batch_items').select(ITEM_COLUMNS).eq('job_id', jobId).order('position'),
+  ]);
+  if (jobError) throw jobError;
+  if (itemsError) throw itemsError;
+  return { job, items: (items || []) as BatchItem[] };
+}
+
+export async function fetchBatchItem(itemId: string): Promise<BatchItem | null> {
+  const { data, error } = await supabase.from('batch_items').select(ITEM_COLUMNS).eq('id', itemId).maybeSingle();
+  if (error) throw error;
+  return data as BatchItem | null;
+}
+
+/** The user's batches still queued or running, newest first, with their sheet counts. */
+export async function fetchActiveBatchJobs() {
+  const { data, error } = await supabase
+    .from('batch_jobs')
+    .select('*, batch_items(count)')
+    .in('status', ['queued', 'running'])
+    .order('created_at', { ascending: false })
+    .limit(10);
+  if (error) throw error;
+  return (data || []).map(({ batch_items, ...job }) => ({ ...job, sheetCount: batch_items[0]?.count ?? 0 }));
+}
+
+export async function createBatchJob(settings: BatchSettings, expectedCount: number | null, items: NewBatchItem[]) {
+  const { jobId } = await callFunctionAction<{ jobId: string }>('batch-jobs', 'create', {
+    settings: { ...settings }, expectedCount, items,
+  });
+  return jobId;
+}
+
+export const addBatchItems = (jobId: string, items: NewBatchItem[]) =>
+  callFunctionAction<{ added: number }>('batch-jobs', 'add-items', { jobId, items });
+
+/** Queues failed sheets again: the listed ones, or every failed sheet of the job. */
+export const retryBatchItems = (jobId: string, itemIds?: string[]) =>
+  callFunctionAction<{ retried: number }>('batch-jobs', 'retry', { jobId, itemIds });
+
+export const cancelBatchJob = (jobId: string) =>
+  callFunctionAction<{ cancelled: string }>('batch-jobs', 'cancel', { jobId });
+
+export const resumeBatchJob = (jobId: string) =>
+  callFunctionAction<{ resumed: boolean }>('batch-jobs', 'resume', { jobId });
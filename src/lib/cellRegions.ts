@@ -0,0 +1,95 @@
+import { normalizeCellBox, type CellBox } from "@shared/cellBoxes";
+
+/** Part of a sheet image as fractions of its width and height (0–1). */
+export type CellRegion = CellBox;
+
+/**
+ * Where a question sits on a sheet laid out as rows × columns cells, read
+ * left-to-right, top-to-bottom. Assumes the sheet fills the photo, so it is
+ * an estimate for uncropped shots.
+ */
+export function gridCellRegion(index: number, rows: number, columns: number): CellRegion | null {
+  if (!rows || !columns || index < 0 || index >= rows * columns) return null;
+  return {
+    x: (index % columns) / columns,
+    y: Math.floor(index / columns) / rows,
+    width: 1 / columns,
+    height: 1 / rows,
+  };
+}
+
+/**
+ * The box the analyzer recorded for a question, or the grid estimate for
+ * sheets analyzed before boxes were stored.
+ */
+export function questionRegion(
+  box: unknown,
+  index: number,
+  grid?: { rows?: number | null; columns?: number | null } | null
+): { region: CellRegion | null; estimated: boolean } {
+  const stored = normalizeCellBox(box);
+  if (stored) return { region: stored, estimated: false };
+  return { region: gridCellRegion(index, grid?.rows ?? 0, grid?.columns ?? 0), estimated: true };
+}
+
+/** Grows a region by a fraction of its size on every side, clamped to the image. */
+export function padRegion(region: CellRegion, padding: number): CellRegion {
+  const x = Math.max(0, region.x - region.width * padding);
+  const y = Math.max(0, region.y - region.height * padding);
+  return {
+    x,
+    y,
+    width: Math.min(1, region.x + region.width * (1 + padding)) - x,
+    height: Math.min(1, region.y + region.height * (1 + padding)) - y,
+  };
+}
+
+export type OverlayTone = "correct" | "wrong" | "low" | "neutral";
+
+export interface OverlayCell {
+  question: number;
+  region: CellRegion;
+  tone: OverlayTone;
+  label: string;
+}
+
+interface OverlayDetail {
+  question: number;
+  extracted?: string;
+  correct?: string;
+  status?: string;
+  isCorrect?: boolean;
+  confidence?: string;
+  reviewed?: boolean;
+  box?: unknown;
+}
+
+/**
+ * Boxes to draw over a sheet for its per-question results. Low-confidence
+ * answers nobody has reviewed stand out regardless of whether they scored.
+ */
+export function overlayCells(
+  details: OverlayDetail[],
+  grid?: { rows?: number | null; columns?: number | null } | null
+): { cells: OverlayCell[]; estimated: boolean } {
+  let estimated = false;
+  const cells: OverlayCell[] = [];
+  for (const detail of details) {
+    const { region, estimated: guessed } = questionRegion(detail.box, detail.question - 1, grid);
+    if (!region) continue;
+    estimated ||= guessed;
+    const status = detail.status ?? (detail.isCorrect ? "correct" : "wrong");
+    const tone: OverlayTone = detail.confidence === "low" && !detail.reviewed
+      ? "low"
+      : status === "dropped"
+        ? "neutral"
+        : status === "correct" || status === "bonus" ? "correct" : "wrong";
+    cells.push({
+      question: detail.question,
+      region,
+      tone,
+      label: `Q${detail.question}: read ${detail.extracted ?? "?"}, key ${detail.correct ?? "?"}${tone === "low" ? " (low confidence)" : ""}`,
+    });
+  }
+  return { cells, estimated };
+}
@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { isUnattemptedAnswer } from "@shared/scoring";
+import { callGradeFunction, type GradedResponse } from "@/lib/evaluationActions";
+
+export type AnswerCorrection = Tables<"answer_corrections">;
+
+/** Blank answers are stored as "" and shown as a dash. */
+export const formatCorrectionAnswer = (answer: string) => (isUnattemptedAnswer(answer) ? '—' : answer);
+
+export async function fetchCorrections(evaluationId: string): Promise<AnswerCorrection[]> {
+  const { data, error } = await supabase
+    .from('answer_corrections')
+    .select('*')
+    .eq('evaluation_id', evaluationId)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+interface CorrectionRequest {
+  evaluationId: string;
+  question: number;   // 1-based
+  answer: string;     // "" for blank
+  reason: string;
+}
+
+/**
+ * Overrides one extracted answer. The grade-evaluations function re-scores the
+ * sheet with the key, marking and question types stored on it and records the
+ * change in the audit table; the score change is rolled back if the audit
+ * entry cannot be written.
+ */
+export async function applyCorrection({ evaluationId, question, answer, reason }: CorrectionRequest) {
+  const graded = await callGradeFunction<GradedResponse & { correction: AnswerCorrection }>('correct', {
+    evaluationId, question, answer, reason,
+  });
+  return {
+    ...graded,
+    detailedResults: graded.fields.detailed_results,
+    extractedAnswers: graded.fields.extracted_answers,
+  };
+}
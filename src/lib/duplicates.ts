@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { callGradeFunction } from "@/lib/evaluationActions";
+
+export type DuplicateChoice = 'keep-old' | 'replace' | 'keep-both';
+
+/** What each choice did, for the confirmation toast. */
+export const DUPLICATE_OUTCOMES: Record<DuplicateChoice, { title: string; description?: string }> = {
+  'keep-old': { title: "Kept the saved result", description: "The new scan was discarded" },
+  'keep-both': { title: "Kept both scans", description: "The saved result still counts; the new scan is kept as another version" },
+  'replace': { title: "Replaced with the new scan", description: "The new scan counts; the earlier one is kept as a previous version" },
+};
+
+const SCAN_COLUMNS =
+  'id, roll_number, subject_code, paper_set, created_at, image_url, score, total_questions, max_marks, accuracy, penalty_marks, confidence, extracted_answers, correct_answers';
+
+export type DuplicateScan = Pick<
+  Tables<"evaluations">,
+  'id' | 'roll_number' | 'subject_code' | 'paper_set' | 'created_at' | 'image_url' | 'score' | 'total_questions'
+  | 'max_marks' | 'accuracy' | 'penalty_marks' | 'confidence' | 'extracted_answers' | 'correct_answers'
+>;
+
+/** The saved result and the rescan that collided with it, for side-by-side review. */
+export async function fetchDuplicatePair(rescanId: string, existingId: string) {
+  const { data, error } = await supabase
+    .from('evaluations')
+    .select(SCAN_COLUMNS)
+    .in('id', [rescanId, existingId]);
+  if (error) throw error;
+  return {
+    existing: data?.find((row) => row.id === existingId) ?? null,
+    rescan: data?.find((row) => row.id === rescanId) ?? null,
+  };
+}
+
+/** Questions where the two scans read a different answer (1-based). */
+export function differingQuestions(a: DuplicateScan, b: DuplicateScan): number[] {
+  const count = Math.max(a.extracted_answers.length, b.extracted_answers.length);
+  const questions: number[] = [];
+  for (let i = 0; i < count; i++) {
+    if ((a.extracted_answers[i] ?? '') !== (b.extracted_answers[i] ?? '')) questions.push(i + 1);
+  }
+  return questions;
+}
+
+/** Keeps one or both scans; returns the id of the scan that now counts. */
+export async function resolveDuplicate(rescanId: string, choice: DuplicateChoice) {
+  return callGradeFunction<{ kept: string | null; removed: string | null }>('resolve-duplicate', {
+    evaluationId: rescanId,
+    choice,
+  });
+}
@@ -0,0 +1,32 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { ScoreSummary } from "@shared/scoring";
+import type { GradedFields } from "@shared/grading";
+
+/** Graded columns written by the server, returned so the page can update in place. */
+export interface GradedResponse {
+  summary: ScoreSummary;
+  fields: GradedFields;
+}
+
+/** Calls an action of one of the app's edge functions. Throws with the server's message on failure. */
+export async function callFunctionAction<T>(name: string, action: string, payload: Record<string, unknown>): Promise<T> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (!session) throw new Error('Sign in to continue');
+
+  const response = await fetch(`${import.meta.env.VITE_SUPABASE_URL}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${session.access_token}`,
+    },
+    body: JSON.stringify({ action, ...payload }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+  if (!response.ok) throw new Error(body.error || `Server error (${response.status})`);
+  return body as T;
+}
+
+/** Calls the grade-evaluations function, which owns every write to an evaluation's score. */
+export const callGradeFunction = <T>(action: string, payload: Record<string, unknown>) =>
+  callFunctionAction<T>('grade-evaluations', action, payload);
@@ -1,5 +1,6 @@
 import ExcelJS from 'exceljs';
 import { ExportSettings } from '@/hooks/useExportSettings';
+import { DEFAULT_OPTION_SET, describeMarkingScheme, describeQuestionSpec, parseKeyEntry, questionStatus, specForQuestion, type MarkingScheme, type QuestionSpec, type QuestionStatus } from '@shared/scoring';
 
 export class ExcelFormatter {
   private wb: ExcelJS.Workbook;
@@ -173,7 +174,14 @@ export const formatEvaluationExport = async (
       isCorrect: boolean;
       confidence: string;
       note: string;
+      marks?: number;
     }>;
+    rawMarks?: number;
+    penaltyMarks?: number;
+    maxMarks?: number;
+    markingScheme?: MarkingScheme;
+    questionTypes?: QuestionSpec[] | null;
+    optionSet?: string[] | null;
   }
 ): Promise<string> => {
   const formatter = new ExcelFormatter(settings);
@@ -190,8 +198,15 @@ export const formatEvaluationExport = async (
         : 'Sequential',
     },
     { Field: '', Value: '' },
-    { Field: 'Correct Questions Count', Value: evaluationData.score },
-    { Field: 'Marks in Numbers', Value: `${evaluationData.score}/${evaluationData.totalQuestions}` },
+    ...(evaluationData.rawMarks !== undefined
+      ? [
+          { Field: 'Marking Scheme', Value: evaluationData.markingScheme ? describeMarkingScheme(evaluationData.markingScheme) : '+1 / 0 / 0' },
+          { Field: 'Raw Marks', Value: evaluationData.rawMarks },
+          { Field: 'Penalty Marks', Value: evaluationData.penaltyMarks ?? 0 },
+          { Field: 'Net Marks', Value: evaluationData.score },
+        ]
+      : [{ Field: 'Correct Questions Count', Value: evaluationData.score }]),
+    { Field: 'Marks in Numbers', Value: `${evaluationData.score}/${evaluationData.maxMarks ?? evaluationData.totalQuestions}` },
     { Field: 'Percentage of Score', Value: `${evaluationData.accuracy.toFixed(2)}%` },
     { Field: 'Confidence', Value: evaluationData.confidence?.toUpperCase() || 'N/A' },
     { Field: 'Image Quality', Value: evaluationData.imageQuality?.toUpperCase() || 'N/A' },
@@ -200,37 +215,46 @@ export const formatEvaluationExport = async (
   formatter.addSheet('Summary', summaryData, [{ wch: 25 }, { wch: 30 }]);
 
   // Detailed Answers Sheet
+  const statuses = evaluationData.extractedAnswers.map((extracted, index) =>
+    questionStatus(extracted, evaluationData.correctAnswers[index] ?? '', specForQuestion(evaluationData.questionTypes, index))
+  );
+  const resultLabels: Record<QuestionStatus, string> = {
+    correct: '✓ Correct',
+    wrong: '✗ Wrong',
+    unattempted: '○ Unattempted',
+    bonus: '★ Bonus',
+    dropped: '— Dropped',
+  };
   const answersData = evaluationData.extractedAnswers.map((extracted, index) => {
-    const isUnattempted = extracted === 'UNATTEMPTED' || !extracted || extracted === '?';
-    const isCorrect = !isUnattempted && extracted === evaluationData.correctAnswers[index];
+    const status = statuses[index];
     
     return {
       Question: index + 1,
+      Type: describeQuestionSpec(specForQuestion(evaluationData.questionTypes, index)),
       Extracted: extracted,
       Correct: evaluationData.correctAnswers[index],
-      Result: isUnattempted ? '○ Unattempted' : (isCorrect ? '✓ Correct' : '✗ Wrong'),
+      Result: resultLabels[status],
+      Marks: evaluationData.detailedResults?.[index]?.marks ?? (status === 'correct' || status === 'bonus' ? 1 : 0),
       Confidence: evaluationData.detailedResults?.[index]?.confidence?.toUpperCase() || 'UNKNOWN',
       Notes: evaluationData.detailedResults?.[index]?.note || '-',
     };
   });
   formatter.addSheet('Detailed Answers', answersData, [
     { wch: 10 },
+    { wch: 14 },
     { wch: 10 },
     { wch: 10 },
     { wch: 12 },
+    { wch: 8 },
     { wch: 12 },
     { wch: 40 },
   ]);
 
   // Statistics Sheet
-  const unattemptedCount = evaluationData.extractedAnswers.filter(
-    (ans) => ans === 'UNATTEMPTED' || !ans || ans === '?'
-  ).length;
-  const correctCount = evaluationData.extractedAnswers.filter(
-    (ans, idx) => ans && ans !== 'UNATTEMPTED' && ans !== '?' && ans === evaluationData.correctAnswers[idx]
-  ).length;
-  const wrongCount = evaluationData.totalQuestions - correctCount - unattemptedCount;
-  const attemptedQuestions = evaluationData.totalQuestions - unattemptedCount;
+  const unattemptedCount = statuses.filter((s) => s === 'unattempted').length;
+  const correctCount = statuses.filter((s) => s === 'correct').length;
+  const wrongCount = statuses.filter((s) => s === 'wrong').length;
+  const attemptedQuestions = correctCount + wrongCount;
   
   const statsData = [
     {
@@ -281,11 +305,15 @@ export const formatEvaluationExport = async (
   // Answer Distribution Analysis
   const answerDistribution: { [key: string]: number } = {};
   evaluationData.correctAnswers.forEach((answer) => {
-    answerDistribution[answer] = (answerDistribution[answer] || 0) + 1;
+    const entry = parseKeyEntry(answer);
+    if (entry.kind !== 'answer') return;
+    entry.accepted.flatMap((accepted) => accepted.split(',')).forEach((option) => {
+      answerDistribution[option] = (answerDistribution[option] || 0) + 1;
+    });
   });
 
   const distributionData: any[] = [];
-  ['A', 'B', 'C', 'D', 'E'].forEach((option) => {
+  (evaluationData.optionSet ?? DEFAULT_OPTION_SET).forEach((option) => {
     const count = answerDistribution[option] || 0;
     const percentage = (count / evaluationData.totalQuestions) * 100;
     distributionData.push({
@@ -299,15 +327,14 @@ export const formatEvaluationExport = async (
 
   // Question-wise Performance Analysis
   const performanceData = evaluationData.extractedAnswers.map((extracted, index) => {
-    const isUnattempted = extracted === 'UNATTEMPTED' || !extracted || extracted === '?';
-    const isCorrect = !isUnattempted && extracted === evaluationData.correctAnswers[index];
+    const status = statuses[index];
     const confidence = evaluationData.detailedResults?.[index]?.confidence || 'unknown';
     
     return {
       'Q#': index + 1,
       'Student Answer': extracted,
       'Correct Answer': evaluationData.correctAnswers[index],
-      'Status': isUnattempted ? 'Unattempted' : (isCorrect ? 'Correct' : 'Wrong'),
+      'Status': status.charAt(0).toUpperCase() + status.slice(1),
       'Confidence': confidence.toUpperCase(),
       'Confidence Bar': confidence === 'high' ? '████████████' : confidence === 'medium' ? '████████░░░░' : confidence === 'low' ? '████░░░░░░░░' : '░░░░░░░░░░░░',
       'Notes': evaluationData.detailedResults?.[index]?.note || '-',
@@ -329,7 +356,7 @@ export const formatEvaluationExport = async (
       question: idx + 1,
       extracted,
       correct: evaluationData.correctAnswers[idx],
-      isWrong: extracted && extracted !== 'UNATTEMPTED' && extracted !== '?' && extracted !== evaluationData.correctAnswers[idx],
+      isWrong: statuses[idx] === 'wrong',
     }))
     .filter((item) => item.isWrong);
 
@@ -416,7 +443,7 @@ export const formatEvaluationExport = async (
     { Insight: 'Overall Performance', Value: performanceLevel, Recommendation: '' },
     {
       Insight: 'Score',
-      Value: `${evaluationData.score}/${evaluationData.totalQuestions}`,
+      Value: `${evaluationData.score}/${evaluationData.maxMarks ?? evaluationData.totalQuestions}`,
       Recommendation: '',
     },
     { Insight: 'Accuracy', Value: `${avgAccuracy.toFixed(2)}%`, Recommendation: '' },
@@ -491,6 +518,9 @@ export const formatBatchExport = async (
     score?: number;
     totalQuestions?: number;
     accuracy?: number;
+    rawMarks?: number;
+    penaltyMarks?: number;
+    maxMarks?: number;
     error?: string;
   }>,
   answerKey?: string[]
@@ -504,7 +534,8 @@ export const formatBatchExport = async (
   const ws = wb.addWorksheet('Results');
 
   let currentRow = 1;
-  const maxCols = 7;
+  const maxCols = 8;
+  const outOf = (item: { maxMarks?: number; totalQuestions?: number }) => item.maxMarks ?? item.totalQuestions ?? 0;
 
   const addMergedTitle = (text: string, bgColor: string, fontColor = 'FFFFFFFF', fontSize = 14) => {
     const row = ws.getRow(currentRow);
@@ -564,7 +595,7 @@ export const formatBatchExport = async (
   const addBlankRow = () => { currentRow++; };
 
   // Set column widths
-  [18, 18, 25, 20, 18, 15, 30].forEach((w, i) => { ws.getColumn(i + 1).width = w; });
+  [18, 18, 18, 14, 12, 18, 18, 24].forEach((w, i) => { ws.getColumn(i + 1).width = w; });
 
   // ── SECTION 1: School Header ──
   if (settings.includeHeader && settings.schoolName) {
@@ -585,7 +616,7 @@ export const formatBatchExport = async (
     const avgAccuracy = completedItems.reduce((s, i) => s + (i.accuracy || 0), 0) / completedItems.length;
     const highestScore = Math.max(...completedItems.map(i => i.score || 0));
     const lowestScore = Math.min(...completedItems.map(i => i.score || 0));
-    const totalQ = completedItems[0]?.totalQuestions || 0;
+    const totalQ = outOf(completedItems[0]);
     const sortedScores = completedItems.map(i => i.score || 0).sort((a, b) => a - b);
     const medianScore = sortedScores[Math.floor(sortedScores.length / 2)];
     
@@ -601,7 +632,7 @@ export const formatBatchExport = async (
 
   // ── SECTION 3: All Student Results ──
   addMergedTitle('📋 ALL STUDENT RESULTS', 'FF38A169', 'FFFFFFFF', 12);
-  addTableHeaders(['Roll No', 'Subject Code', 'Total Questions', 'Correct Count', 'Percentage of Score', 'Marks in Numbers', 'Status']);
+  addTableHeaders(['Roll No', 'Subject Code', 'Total Questions', 'Raw Marks', 'Penalty', 'Percentage of Score', 'Marks in Numbers', 'Status']);
   
   completedItems.forEach((item) => {
     const accuracy = item.accuracy ?? 0;
@@ -610,9 +641,10 @@ export const formatBatchExport = async (
       item.rollNumber || 'N/A',
       item.subjectCode || 'N/A',
       item.totalQuestions || 0,
-      item.score || 0,
+      item.rawMarks ?? item.score ?? 0,
+      item.penaltyMarks ?? 0,
       `${accuracy.toFixed(2)}%`,
-      `${item.score || 0}/${item.totalQuestions || 0}`,
+      `${item.score || 0}/${outOf(item)}`,
       status,
     ]);
   });
@@ -650,7 +682,7 @@ export const formatBatchExport = async (
         const avgA = subjItems.reduce((s, i) => s + (i.accuracy || 0), 0) / subjItems.length;
         const hi = Math.max(...subjItems.map(i => i.score || 0));
         const lo = Math.min(...subjItems.map(i => i.score || 0));
-        const totalQ = subjItems[0]?.totalQuestions || 0;
+        const totalQ = outOf(subjItems[0]);
         const passRate = (subjItems.filter(i => (i.accuracy || 0) >= 60).length / subjItems.length) * 100;
         addDataRow([subj, subjItems.length, `${avgS.toFixed(1)}/${totalQ}`, `${avgA.toFixed(1)}%`, `${hi}/${totalQ}`, `${lo}/${totalQ}`, `${passRate.toFixed(1)}%`]);
       });
@@ -663,14 +695,14 @@ export const formatBatchExport = async (
       addMergedTitle('🏆 TOP PERFORMERS', 'FF2F855A', 'FFFFFFFF', 12);
       addTableHeaders(['Rank', 'Roll No', 'Subject', 'Score', 'Accuracy']);
       sorted.slice(0, Math.min(5, sorted.length)).forEach((item, idx) => {
-        addDataRow([idx + 1, item.rollNumber || 'N/A', item.subjectCode || 'N/A', `${item.score}/${item.totalQuestions}`, `${(item.accuracy || 0).toFixed(1)}%`]);
+        addDataRow([idx + 1, item.rollNumber || 'N/A', item.subjectCode || 'N/A', `${item.score}/${outOf(item)}`, `${(item.accuracy || 0).toFixed(1)}%`]);
       });
       addBlankRow();
 
       addMergedTitle('⚠️ NEEDS IMPROVEMENT', 'FFC53030', 'FFFFFFFF', 12);
       addTableHeaders(['Rank', 'Roll No', 'Subject', 'Score', 'Accuracy']);
       sorted.slice(-Math.min(5, sorted.length)).reverse().forEach((item, idx) => {
-        addDataRow([idx + 1, item.rollNumber || 'N/A', item.subjectCode || 'N/A', `${item.score}/${item.totalQuestions}`, `${(item.accuracy || 0).toFixed(1)}%`]);
+        addDataRow([idx + 1, item.rollNumber || 'N/A', item.subjectCode || 'N/A', `${item.score}/${outOf(item)}`, `${(item.accuracy || 0).toFixed(1)}%`]);
       });
       addBlankRow();
     }
@@ -0,0 +1,12 @@
+import type { PaperSet } from "@shared/paperSets";
+
+/** Pads with blanks or truncates so every set has the key's question count. */
+export const resizeAnswers = (answers: string[], length: number): string[] =>
+  Array.from({ length }, (_, i) => answers[i] ?? "");
+
+/**
+ * Writes the answers being edited back into the active set and brings every
+ * other set to the same length, ready to save or switch sets.
+ */
+export const commitActiveSet = (sets: PaperSet[], active: number, answers: string[]): PaperSet[] =>
+  sets.map((set, i) => ({ code: set.code, answers: i === active ? [...answers] : resizeAnswers(set.answers, answers.length) }));
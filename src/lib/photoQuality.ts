@@ -0,0 +1,171 @@
+import { laplacianVariance, quadArea, scaleQuad, type GrayImage, type Quad } from "@shared/vision";
+import { loadImage, readGray, sheetOutline } from "@/lib/sheetPipeline";
+
+// A quick look at each photo in the browser before anything is uploaded, so
+// shots the analyzer would struggle with are retaken instead of paid for.
+// Measurements are taken on a copy at most ANALYSIS_SIDE pixels across.
+const ANALYSIS_SIDE = 1000;
+const GLARE_TILES = 16;          // The sheet is split into 16 × 16 tiles to look for glare
+const CLIPPED_LEVEL = 250;       // Pixels this bright carry no detail
+const GLARE_MARGIN = 20;         // Glare only shows on paper at least this much darker than clipping
+const EDGE_BAND = 0.02;          // Share of each side read to tell whether the sheet fills the frame
+
+const LIMITS = {
+  minSide: { block: 600, warn: 1000 },        // Shorter side of the original, in pixels
+  sharpness: { block: 15, warn: 50 },         // Laplacian variance
+  darkness: { block: 50, warn: 85 },          // Mean brightness of the sheet
+  contrast: { block: 60, warn: 100 },         // Paper level minus ink level, once the paper is blown out
+  glareTiles: { block: 12, warn: 3 },         // Sheet tiles mostly blown out on paper that isn't
+  coverage: { warn: 0.35 },                   // Share of the photo the sheet covers
+};
+
+export type QualityCheck = 'resolution' | 'blur' | 'exposure' | 'glare' | 'coverage';
+
+export interface QualityIssue {
+  check: QualityCheck;
+  severity: 'warn' | 'block';
+  message: string;
+  tip: string;
+}
+
+export interface PhotoQuality {
+  verdict: 'ok' | 'warn' | 'block';
+  issues: QualityIssue[];
+  corners: Quad | null;  // Sheet outline in the photo's pixels, for the cropper and pipeline
+}
+
+const level = (value: number, limit: { block: number; warn: number }, lowIsBad = true): QualityIssue['severity'] | null =>
+  lowIsBad
+    ? value < limit.block ? 'block' : value < limit.warn ? 'warn' : null
+    : value >= limit.block ? 'block' : value >= limit.warn ? 'warn' : null;
+
+interface Region { x0: number; y0: number; x1: number; y1: number }
+
+// The sheet's bounding box, or the whole photo when its outline wasn't found
+function sheetRegion(gray: GrayImage, corners: Quad | null): Region {
+  const xs = corners?.map(p => p.x) ?? [0, gray.width];
+  const ys = corners?.map(p => p.y) ?? [0, gray.height];
+  return {
+    x0: Math.max(0, Math.floor(Math.min(...xs))), x1: Math.min(gray.width, Math.ceil(Math.max(...xs))),
+    y0: Math.max(0, Math.floor(Math.min(...ys))), y1: Math.min(gray.height, Math.ceil(Math.max(...ys))),
+  };
+}
+
+interface Tones {
+  mean: number;
+  paper: number;  // Most of a sheet is paper, so its level is the upper quartile
+  ink: number;    // The darkest marks: print, bubbles and pencil
+}
+
+function regionTones(gray: GrayImage, region: Region): Tones {
+  const histogram = new Array<number>(256).fill(0);
+  let sum = 0;
+  for (let y = region.y0; y < region.y1; y++) {
+    for (let x = region.x0; x < region.x1; x++) {
+      const value = gray.data[y * gray.width + x];
+      histogram[value]++;
+      sum += value;
+    }
+  }
+  const total = Math.max(1, (region.x1 - region.x0) * (region.y1 - region.y0));
+  const percentile = (share: number) => {
+    let seen = 0;
+    for (let value = 0; value < 256; value++) {
+      seen += histogram[value];
+      if (seen >= total * share) return value;
+    }
+    return 255;
+  };
+  return { mean: sum / total, paper: percentile(0.75), ink: percentile(0.01) };
+}
+
+// Tiles of the sheet that are mostly blown out: reflections of a lamp or flash on the paper
+function glareTileCount(gray: GrayImage, region: Region): number {
+  const tileWidth = Math.max(1, Math.floor((region.x1 - region.x0) / GLARE_TILES));
+  const tileHeight = Math.max(1, Math.floor((region.y1 - region.y0) / GLARE_TILES));
+  let count = 0;
+  for (let ty = region.y0; ty + tileHeight <= region.y1; ty += tileHeight) {
+    for (let tx = region.x0; tx + tileWidth <= region.x1; tx += tileWidth) {
+      let clipped = 0;
+      for (let y = ty; y < ty + tileHeight; y++) {
+        for (let x = tx; x < tx + tileWidth; x++) if (gray.data[y * gray.width + x] >= CLIPPED_LEVEL) clipped++;
+      }
+      if (clipped / (tileWidth * tileHeight) >= 0.6) count++;
+    }
+  }
+  return count;
+}
+
+// Whether paper runs right up to the photo's edges, as in a scan or a PDF page
+function fillsFrame(gray: GrayImage, paper: number): boolean {
+  const band = Math.max(1, Math.round(Math.min(gray.width, gray.height) * EDGE_BAND));
+  let sum = 0;
+  let count = 0;
+  for (let y = 0; y < gray.height; y++) {
+    const edgeRow = y < band || y >= gray.height - band;
+    for (let x = 0; x < gray.width; x++) {
+      if (edgeRow || x < band || x >= gray.width - band) {
+        sum += gray.data[y * gray.width + x];
+        count++;
+      }
+    }
+  }
+  return sum / Math.max(1, count) >= paper - GLARE_MARGIN;
+}
+
+/** Checks a photo for blur, exposure, glare, resolution and how much of it the sheet fills. */
+export async function checkPhotoQuality(dataUrl: string): Promise<PhotoQuality> {
+  const image = await loadImage(dataUrl);
+  const { gray, scale } = readGray(image, ANALYSIS_SIDE);
+  const corners = sheetOutline(gray);
+  const issues: QualityIssue[] = [];
+  const add = (check: QualityCheck, severity: QualityIssue['severity'] | null, message: string, tip: string) => {
+    if (severity) issues.push({ check, severity, message, tip });
+  };
+
+  const minSide = Math.min(image.naturalWidth, image.naturalHeight);
+  add('resolution', level(minSide, LIMITS.minSide),
+    `The photo is only ${image.naturalWidth}×${image.naturalHeight} pixels.`,
+    'Take the photo with the camera at full resolution, not a screenshot or a shared thumbnail.');
+
+  const sharpness = laplacianVariance(gray);
+  add('blur', level(sharpness, LIMITS.sharpness),
+    sharpness < LIMITS.sharpness.block ? 'The photo is blurred.' : 'The photo looks slightly blurred.',
+    'Hold the phone steady, tap the sheet to focus and wait a moment before taking the photo.');
+
+  // Exposure and glare are judged against the paper's own level: a scan's
+  // page is pure white but its marks stay dark, which is not overexposure
+  const region = sheetRegion(gray, corners);
+  const tones = regionTones(gray, region);
+  const darkness = level(tones.mean, LIMITS.darkness);
+  const overexposure = tones.paper >= CLIPPED_LEVEL ? level(tones.paper - tones.ink, LIMITS.contrast) : null;
+  if (darkness) {
+    add('exposure', darkness, 'The sheet is too dark to read reliably.',
+      'Turn on a light or move near a window, and keep your own shadow off the sheet.');
+  } else if (overexposure) {
+    add('exposure', overexposure, 'Much of the photo is washed out.',
+      'Move out of direct sunlight and turn off the flash.');
+  } else if (tones.paper < CLIPPED_LEVEL - GLARE_MARGIN) {
+    // Glare only stands out on paper that isn't itself near white
+    const glare = glareTileCount(gray, region);
+    add('glare', level(glare, LIMITS.glareTiles, false),
+      `Bright reflections cover ${glare === 1 ? 'one spot' : `${glare} spots`} of the sheet.`,
+      'Tilt the phone slightly so lamps and windows do not reflect off the paper.');
+  }
+
+  if (!corners) {
+    // A sheet that fills the whole frame has no edges to find, and needs none
+    if (!fillsFrame(gray, tones.paper)) {
+      add('coverage', 'warn', 'The edges of the sheet could not be found.',
+        'Fit the whole sheet in the frame on a darker surface so its edges stand out.');
+    }
+  } else {
+    const coverage = quadArea(corners) / (gray.width * gray.height);
+    add('coverage', coverage < LIMITS.coverage.warn ? 'warn' : null,
+      `The sheet fills only ${Math.round(coverage * 100)}% of the photo.`,
+      'Move closer so the sheet fills most of the frame.');
+  }
+
+  const verdict = issues.some(issue => issue.severity === 'block') ? 'block' : issues.length > 0 ? 'warn' : 'ok';
+  return { verdict, issues, corners: corners && scaleQuad(corners, 1 / scale) };
+}
@@ -0,0 +1,90 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { regradeSheet } from "@shared/grading";
+import type { SavedAnswerKey } from "@/hooks/useSavedAnswerKeys";
+import { callGradeFunction } from "@/lib/evaluationActions";
+
+export const REGRADE_COLUMNS = 'id, roll_number, subject_code, created_at, extracted_answers, score, max_marks, total_questions, accuracy, detailed_results, paper_set';
+
+export type RegradeSource = Pick<
+  Tables<"evaluations">,
+  'id' | 'roll_number' | 'subject_code' | 'created_at' | 'extracted_answers' | 'score' | 'max_marks' | 'total_questions' | 'accuracy' | 'detailed_results' | 'paper_set'
+>;
+
+export interface RegradeChange {
+  id: string;
+  rollNumber: string | null;
+  subjectCode: string | null;
+  createdAt: string;
+  oldScore: number;
+  newScore: number;
+  oldMaxMarks: number;
+  newMaxMarks: number;
+  oldAccuracy: number;
+  newAccuracy: number;
+}
+
+/**
+ * Previews how one stored evaluation scores against the current version of its
+ * key, using the extracted answers already on the row. The same grading runs in
+ * the grade-evaluations function when the re-grade is applied.
+ */
+export function regradeEvaluation(row: RegradeSource, key: SavedAnswerKey): RegradeChange {
+  const { summary } = regradeSheet(row, key);
+  return {
+    id: row.id,
+    rollNumber: row.roll_number,
+    subjectCode: row.subject_code,
+    createdAt: row.created_at,
+    oldScore: Number(row.score),
+    newScore: summary.netMarks,
+    oldMaxMarks: Number(row.max_marks ?? row.total_questions),
+    newMaxMarks: summary.maxMarks,
+    oldAccuracy: Number(row.accuracy),
+    newAccuracy: summary.accuracy,
+  };
+}
+
+export const isScoreChanged = (change: RegradeChange) =>
+  change.oldScore !== change.newScore || change.oldMaxMarks !== change.newMaxMarks;
+
+export async function countLinkedEvaluations(keyId: string): Promise<number> {
+  const { count, error } = await supabase
+    .from('evaluations')
+    .select('id', { count: 'exact', head: true })
+    .eq('answer_key_id', keyId)
+    .eq('is_authoritative', true)
+    .is('conflict_with', null)
+    .eq('needs_paper_set', false);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/**
+ * Loads the sheets that count for the key (not earlier versions or undecided
+ * rescans) and computes their re-graded values.
+ */
+export async function previewRegrade(key: SavedAnswerKey): Promise<RegradeChange[]> {
+  const { data, error } = await supabase
+    .from('evaluations')
+    .select(REGRADE_COLUMNS)
+    .eq('answer_key_id', key.id)
+    .eq('is_authoritative', true)
+    .is('conflict_with', null)
+    .eq('needs_paper_set', false)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map((row) => regradeEvaluation(row, key));
+}
+
+/**
+ * Has the grade-evaluations function write the re-graded values of the
+ * previewed sheets. Sheets the key grades the same way are left unchanged and
+ * get no new version.
+ */
+export async function applyRegrade(key: SavedAnswerKey, changes: RegradeChange[]) {
+  return callGradeFunction<{ updated: number; unchanged: number; failed: number }>('regrade', {
+    answerKeyId: key.id,
+    evaluationIds: changes.map((change) => change.id),
+  });
+}
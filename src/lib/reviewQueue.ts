@@ -0,0 +1,74 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { DEFAULT_OPTION_SET, normalizeQuestionTypes, specForQuestion, type QuestionSpec } from "@shared/scoring";
+import { questionRegion, type CellRegion } from "@/lib/cellRegions";
+import { confirmDetails, needsReview, type QuestionReading, type StoredDetail } from "@shared/grading";
+import { callGradeFunction } from "@/lib/evaluationActions";
+
+const QUEUE_LIMIT = 500;
+
+export const REVIEW_COLUMNS =
+  'id, roll_number, subject_code, batch_id, created_at, image_url, grid_rows, grid_columns, extracted_answers, correct_answers, question_types, option_set, detailed_results';
+
+export type ReviewSheet = Pick<
+  Tables<"evaluations">,
+  'id' | 'roll_number' | 'subject_code' | 'batch_id' | 'created_at' | 'image_url' | 'grid_rows' | 'grid_columns'
+  | 'extracted_answers' | 'correct_answers' | 'question_types' | 'option_set' | 'detailed_results'
+>;
+
+export interface ReviewCell {
+  key: string;
+  sheet: ReviewSheet;
+  question: number;       // 1-based
+  extracted: string;      // As stored in extracted_answers
+  correct: string;
+  note: string;
+  readings: QuestionReading[];  // Both readers' answers when a consensus read disagreed
+  spec: QuestionSpec;
+  options: string[];
+  region: CellRegion | null;
+}
+
+/** Sheets that still have low-confidence answers nobody has reviewed, newest first. */
+export async function fetchReviewQueue(userId: string): Promise<ReviewSheet[]> {
+  const { data, error } = await supabase
+    .from('evaluations')
+    .select(REVIEW_COLUMNS)
+    .eq('user_id', userId)
+    .eq('is_authoritative', true)
+    .eq('needs_paper_set', false)
+    .gt('low_confidence_count', 0)
+    .order('created_at', { ascending: false })
+    .limit(QUEUE_LIMIT);
+  if (error) throw error;
+  return data || [];
+}
+
+export function reviewCells(sheet: ReviewSheet): ReviewCell[] {
+  const details = Array.isArray(sheet.detailed_results) ? (sheet.detailed_results as unknown as StoredDetail[]) : [];
+  const questionTypes = normalizeQuestionTypes(sheet.question_types, sheet.correct_answers.length);
+  return details.filter(needsReview).map((detail) => {
+    const index = detail.question - 1;
+    return {
+      key: `${sheet.id}:${detail.question}`,
+      sheet,
+      question: detail.question,
+      extracted: sheet.extracted_answers[index] ?? '',
+      correct: sheet.correct_answers[index] ?? '',
+      note: detail.note || '',
+      readings: detail.readings ?? [],
+      spec: specForQuestion(questionTypes, index),
+      options: sheet.option_set ?? DEFAULT_OPTION_SET,
+      region: questionRegion(detail.box, index, { rows: sheet.grid_rows, columns: sheet.grid_columns }).region,
+    };
+  });
+}
+
+/**
+ * Marks answers as checked by a teacher without changing them, so they leave
+ * the queue. Scores are unaffected. Returns the updated detailed results.
+ */
+export async function confirmAnswers(evaluationId: string, questions: number[]): Promise<Json> {
+  const { detailed_results } = await callGradeFunction<ReturnType<typeof confirmDetails>>('confirm', { evaluationId, questions });
+  return detailed_results as unknown as Json;
+}
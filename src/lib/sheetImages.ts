@@ -0,0 +1,47 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Sheet photos live in the private answer-sheets bucket. Evaluations keep only
+// the object path in image_url; links are signed when they are shown.
+const BUCKET = 'answer-sheets';
+const UPLOAD_FAILED = 'storage-upload-failed';
+
+export const VIEW_URL_TTL_SECONDS = 60 * 60;
+export const EXPORT_URL_TTL_SECONDS = 60 * 60 * 24;
+
+const hasSheetImage = (path: string | null | undefined): path is string =>
+  !!path && path !== UPLOAD_FAILED;
+
+// Rows from before paths were stored may still hold a full link
+const isLink = (path: string) => /^(https?:|data:|blob:)/.test(path);
+
+/** Signed links for the given sheet paths, keyed by path. Paths that can't be signed are left out. */
+export async function signSheetImages(
+  paths: (string | null | undefined)[],
+  expiresIn: number = VIEW_URL_TTL_SECONDS,
+): Promise<Record<string, string>> {
+  const stored = Array.from(new Set(paths.filter(hasSheetImage)));
+  const urls: Record<string, string> = Object.fromEntries(stored.filter(isLink).map(link => [link, link]));
+  const toSign = stored.filter(path => !isLink(path));
+  if (toSign.length === 0) return urls;
+
+  const { data, error } = await supabase.storage.from(BUCKET).createSignedUrls(toSign, expiresIn);
+  if (error) throw error;
+  for (const item of data || []) {
+    if (item.path && item.signedUrl) urls[item.path] = item.signedUrl;
+  }
+  return urls;
+}
+
+/**
+ * Uploads a sheet photo under the user's folder and returns its path. The
+ * analyzer is called with the path, so the image travels only once.
+ */
+export async function uploadSheetImage(userId: string, dataUrl: string): Promise<string> {
+  const blob = await (await fetch(dataUrl)).blob();
+  const contentType = blob.type || 'image/jpeg';
+  const extension = contentType === 'image/png' ? 'png' : 'jpg';
+  const path = `${userId}/${Date.now()}-${crypto.randomUUID().slice(0, 8)}.${extension}`;
+  const { error } = await supabase.storage.from(BUCKET).upload(path, blob, { contentType, upsert: false });
+  if (error) throw new Error(`Image upload failed: ${error.message}`);
+  return path;
+}
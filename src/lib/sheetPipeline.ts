@@ -0,0 +1,180 @@
+import {
+  adaptiveThreshold,
+  adjustLevels,
+  downscale,
+  findSheetCorners,
+  quadSize,
+  scaleQuad,
+  toGrayscale,
+  warpPerspective,
+  type GrayImage,
+  type Point,
+  type Quad,
+} from "@shared/vision";
+
+// Every photo is prepared in the browser before it is uploaded: the sheet is
+// found, warped to a flat rectangle and its lighting evened out, so the
+// analyzer sees the same kind of image whatever the phone or desk lamp.
+const WORKING_SIDE = 2400;       // Photos are read at most this large
+const CORNER_SEARCH_SIDE = 400;  // Outline detection runs on a small thumbnail
+const MAX_OUTPUT_SIDE = 1920;
+const LEVELLING_WINDOW = 1 / 16; // Of the output's shorter side
+const JPEG_QUALITY = 0.82;
+
+export interface SheetAdjustments {
+  brightness: number;  // -100 to 100
+  contrast: number;    // -100 to 100
+  threshold: number;   // How much darker than its surroundings ink must be to be kept; 0 keeps every mark
+}
+
+// Off by default: any threshold also whitens faint pencil marks
+export const DEFAULT_ADJUSTMENTS: SheetAdjustments = { brightness: 0, contrast: 0, threshold: 0 };
+
+export interface PreparedSheet {
+  dataUrl: string;
+  corners: Quad | null;  // Sheet outline in the photo's pixels; null when none was found
+}
+
+type Drawable = HTMLImageElement | HTMLCanvasElement;
+
+const sizeOf = (source: Drawable) => source instanceof HTMLImageElement
+  ? { width: source.naturalWidth, height: source.naturalHeight }
+  : { width: source.width, height: source.height };
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Failed to get canvas context');
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  return { canvas, ctx };
+}
+
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Failed to load image'));
+    image.src = src;
+  });
+}
+
+/** The image as grayscale, at most maxSide pixels on its longer side. */
+export function readGray(source: Drawable, maxSide: number): { gray: GrayImage; scale: number } {
+  const size = sizeOf(source);
+  const scale = Math.min(1, maxSide / Math.max(size.width, size.height));
+  const width = Math.max(1, Math.round(size.width * scale));
+  const height = Math.max(1, Math.round(size.height * scale));
+  const { ctx } = createCanvas(width, height);
+  ctx.drawImage(source, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  return { gray: toGrayscale(data, width, height), scale };
+}
+
+function grayToDataUrl(gray: GrayImage): string {
+  const { canvas, ctx } = createCanvas(gray.width, gray.height);
+  const pixels = ctx.createImageData(gray.width, gray.height);
+  for (let i = 0, p = 0; i < gray.data.length; i++, p += 4) {
+    pixels.data[p] = pixels.data[p + 1] = pixels.data[p + 2] = gray.data[i];
+    pixels.data[p + 3] = 255;
+  }
+  ctx.putImageData(pixels, 0, 0);
+  return canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+}
+
+/** The sheet's corners in a grayscale photo, in its pixels, if the outline can be found. */
+export function sheetOutline(gray: GrayImage): Quad | null {
+  const { image: thumb, scale } = downscale(gray, CORNER_SEARCH_SIDE);
+  const corners = findSheetCorners(thumb);
+  return corners && scaleQuad(corners, 1 / scale);
+}
+
+// Warps the outline (or keeps the whole frame) and applies the adjustments
+function flatten(gray: GrayImage, corners: Quad | null, adjustments: SheetAdjustments, maxSide: number): GrayImage {
+  let sheet: GrayImage;
+  if (corners) {
+    const size = quadSize(corners);
+    const fit = Math.min(1, maxSide / Math.max(size.width, size.height));
+    sheet = warpPerspective(gray, corners, Math.max(1, Math.round(size.width * fit)), Math.max(1, Math.round(size.height * fit)));
+  } else {
+    sheet = downscale(gray, maxSide).image;
+  }
+
+  sheet = adjustLevels(sheet, adjustments.brightness, adjustments.contrast);
+  // With no offset this only levels the lighting: the paper turns white and
+  // every mark darker than it keeps its tone
+  const windowSize = Math.max(15, Math.round(Math.min(sheet.width, sheet.height) * LEVELLING_WINDOW));
+  return adaptiveThreshold(sheet, windowSize, Math.max(0, adjustments.threshold));
+}
+
+/** The four corners of the sheet in the photo, in the photo's own pixels, if the outline can be found. */
+export async function detectSheetCorners(dataUrl: string): Promise<Quad | null> {
+  const image = await loadImage(dataUrl);
+  const { gray, scale } = readGray(image, WORKING_SIDE);
+  const corners = sheetOutline(gray);
+  return corners && scaleQuad(corners, 1 / scale);
+}
+
+/**
+ * Flattens the sheet to a rectangle and evens out its lighting. Uses the given
+ * corners, or finds them; a photo with no recognisable outline is kept whole.
+ */
+export async function prepareSheetImage(dataUrl: string, corners?: Quad | null): Promise<PreparedSheet> {
+  const image = await loadImage(dataUrl);
+  const { gray, scale } = readGray(image, WORKING_SIDE);
+  const found = corners ? scaleQuad(corners, scale) : sheetOutline(gray);
+  return {
+    dataUrl: grayToDataUrl(flatten(gray, found, DEFAULT_ADJUSTMENTS, MAX_OUTPUT_SIDE)),
+    corners: found && scaleQuad(found, 1 / scale),
+  };
+}
+
+/**
+ * Renders the sheet inside `corners` (in the source's pixels) as it will be
+ * uploaded, at most maxSide pixels on its longer side. The cropper uses it for
+ * both its live preview and its result.
+ */
+export function renderSheet(source: Drawable, corners: Quad, adjustments: SheetAdjustments, maxSide = MAX_OUTPUT_SIDE): string {
+  const { gray, scale } = readGray(source, Math.min(WORKING_SIDE, maxSide * 2));
+  return grayToDataUrl(flatten(gray, scaleQuad(corners, scale), adjustments, maxSide));
+}
+
+/** Size of an image turned by quarter turns plus a fine angle (clockwise), and how its points map. */
+export function rotationFrame(width: number, height: number, quarterTurns: number, degrees: number) {
+  const angle = (quarterTurns * 90 + degrees) * Math.PI / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const rotatedWidth = Math.round(Math.abs(width * cos) + Math.abs(height * sin));
+  const rotatedHeight = Math.round(Math.abs(width * sin) + Math.abs(height * cos));
+  return {
+    angle,
+    width: rotatedWidth,
+    height: rotatedHeight,
+    apply: ({ x, y }: Point): Point => {
+      const dx = x - width / 2;
+      const dy = y - height / 2;
+      return { x: rotatedWidth / 2 + dx * cos - dy * sin, y: rotatedHeight / 2 + dx * sin + dy * cos };
+    },
+    invert: ({ x, y }: Point): Point => {
+      const dx = x - rotatedWidth / 2;
+      const dy = y - rotatedHeight / 2;
+      return { x: width / 2 + dx * cos + dy * sin, y: height / 2 - dx * sin + dy * cos };
+    },
+  };
+}
+
+/** The image turned as rotationFrame describes, at most maxSide pixels on its longer side. */
+export function rotateImage(image: HTMLImageElement, quarterTurns: number, degrees: number, maxSide: number): HTMLCanvasElement {
+  const frame = rotationFrame(image.naturalWidth, image.naturalHeight, quarterTurns, degrees);
+  const scale = Math.min(1, maxSide / Math.max(frame.width, frame.height));
+  const { canvas, ctx } = createCanvas(Math.max(1, Math.round(frame.width * scale)), Math.max(1, Math.round(frame.height * scale)));
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(frame.angle);
+  ctx.scale(scale, scale);
+  ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  return canvas;
+}
@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
+
+// Quotas are enforced by the analyzer against usage counted in the database;
+// the page only reads the signed-in user's own counts and limits.
+
+export type QuotaStatus = Database["public"]["Functions"]["get_my_quota_status"]["Returns"][number];
+export type DailyUsage = Database["public"]["Functions"]["get_my_daily_usage"]["Returns"][number];
+
+export const QUOTA_PERIOD_LABELS: Record<string, string> = {
+  minute: 'Per minute',
+  day: 'Today',
+  month: 'This month',
+};
+
+const PERIOD_ORDER = ['month', 'day', 'minute'];
+
+export async function fetchQuotaStatus(): Promise<QuotaStatus[]> {
+  const { data, error } = await supabase.rpc('get_my_quota_status');
+  if (error) throw error;
+  return (data || []).sort((a, b) => PERIOD_ORDER.indexOf(a.period) - PERIOD_ORDER.indexOf(b.period));
+}
+
+/** Sheets graded per day (UTC) over the last `days` days; days without any are left out. */
+export async function fetchDailyUsage(days = 30): Promise<DailyUsage[]> {
+  const { data, error } = await supabase.rpc('get_my_daily_usage', { _days: days });
+  if (error) throw error;
+  return data || [];
+}
+
+/** Name of the organization whose quota the user shares, if they belong to one. */
+export async function fetchOrganizationName(): Promise<string | null> {
+  const { data, error } = await supabase.from('organizations').select('name').maybeSingle();
+  if (error) throw error;
+  return data?.name ?? null;
+}
@@ -0,0 +1,36 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { callGradeFunction } from "@/lib/evaluationActions";
+
+const VERSION_COLUMNS =
+  'id, lineage_id, version, version_source, is_authoritative, conflict_with, created_at, updated_at, image_url, score, total_questions, max_marks, accuracy, penalty_marks, paper_set';
+
+export type EvaluationVersion = Pick<
+  Tables<"evaluations">,
+  'id' | 'lineage_id' | 'version' | 'version_source' | 'is_authoritative' | 'conflict_with' | 'created_at' | 'updated_at'
+  | 'image_url' | 'score' | 'total_questions' | 'max_marks' | 'accuracy' | 'penalty_marks' | 'paper_set'
+>;
+
+export const VERSION_SOURCE_LABELS: Record<string, string> = {
+  scan: 'First scan',
+  rescan: 'Rescan',
+  correction: 'Manual correction',
+  regrade: 'Key re-grade',
+};
+
+/** Every scan, rescan and correction of one student's sheet, newest first. */
+export async function fetchVersions(lineageId: string): Promise<EvaluationVersion[]> {
+  const { data, error } = await supabase
+    .from('evaluations')
+    .select(VERSION_COLUMNS)
+    .eq('lineage_id', lineageId)
+    .order('version', { ascending: false })
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return data || [];
+}
+
+/** Makes this version the one shown in History and used in exports. */
+export async function setAuthoritativeVersion(evaluationId: string) {
+  return callGradeFunction<{ authoritative: string }>('set-authoritative', { evaluationId });
+}
@@ -3,7 +3,30 @@ import { useNavigate } from "react-router-dom";
 import { Session } from "@supabase/supabase-js";
 import { Textarea } from "@/components/ui/textarea";
 import AuthGuard from "@/components/AuthGuard";
-import { SavedAnswerKey, useSavedAnswerKeys } from "@/hooks/useSavedAnswerKeys";
+import { SavedAnswerKey, getAnswerKeyOptions, useSavedAnswerKeys } from "@/hooks/useSavedAnswerKeys";
+import MarkingSchemeEditor from "@/components/MarkingSchemeEditor";
+import RegradeDialog from "@/components/RegradeDialog";
+import { countLinkedEvaluations } from "@/lib/regrade";
+import QuestionAnswerInput from "@/components/QuestionAnswerInput";
+import OptionSetSelect from "@/components/OptionSetSelect";
+import PaperSetTabs, { type PaperSetState } from "@/components/PaperSetTabs";
+import {
+  DEFAULT_MARKING_SCHEME,
+  DEFAULT_OPTION_SET,
+  DEFAULT_QUESTION_SPEC,
+  describeMarkingScheme,
+  describeOptionSet,
+  describeQuestionSpec,
+  isDefaultMarkingScheme,
+  isDefaultOptionSet,
+  isValidKeyEntry,
+  normalizeQuestionTypes,
+  type MarkingScheme,
+  type QuestionSpec,
+} from "@shared/scoring";
+import type { PaperSet } from "@shared/paperSets";
+import { entryForSpec, formatBulkAnswers, parseBulkAnswers } from "@/lib/answerKey";
+import { commitActiveSet } from "@/lib/paperSets";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
@@ -60,6 +83,7 @@ import {
   ArrowUp,
   ArrowDown,
   GripVertical,
+  RefreshCw,
 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
 import { format } from "date-fns";
@@ -83,12 +107,21 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
   const [editAnswers, setEditAnswers] = useState<string[]>([]);
   const [editDetectRollNumber, setEditDetectRollNumber] = useState(true);
   const [editDetectSubjectCode, setEditDetectSubjectCode] = useState(true);
+  const [editConsensus, setEditConsensus] = useState(false);
+  const [editBubbleSheet, setEditBubbleSheet] = useState(false);
+  const [editMarkingScheme, setEditMarkingScheme] = useState<MarkingScheme>(DEFAULT_MARKING_SCHEME);
+  const [editQuestionTypes, setEditQuestionTypes] = useState<QuestionSpec[]>([]);
+  const [editOptionSet, setEditOptionSet] = useState<string[]>(DEFAULT_OPTION_SET);
+  const [editPaperSets, setEditPaperSets] = useState<PaperSet[] | null>(null);
+  const [editActiveSet, setEditActiveSet] = useState(0);
   const [isSaving, setIsSaving] = useState(false);
   const [editEntryMode, setEditEntryMode] = useState<"individual" | "bulk">("individual");
   const [editBulkText, setEditBulkText] = useState("");
   const [editDragIndex, setEditDragIndex] = useState<number | null>(null);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [keyToDelete, setKeyToDelete] = useState<SavedAnswerKey | null>(null);
+  const [regradeKey, setRegradeKey] = useState<SavedAnswerKey | null>(null);
+  const [regradeDialogOpen, setRegradeDialogOpen] = useState(false);
 
   const filteredKeys = useMemo(() => {
     let result = savedKeys.filter((key) => {
@@ -142,21 +175,46 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
     setEditAnswers([...key.answers]);
     setEditDetectRollNumber(key.detect_roll_number ?? true);
     setEditDetectSubjectCode(key.detect_subject_code ?? true);
+    setEditConsensus(key.consensus_mode ?? false);
+    setEditBubbleSheet(key.bubble_sheet ?? false);
+    const options = getAnswerKeyOptions(key);
+    setEditMarkingScheme(options.markingScheme ?? DEFAULT_MARKING_SCHEME);
+    setEditQuestionTypes(key.answers.map((_, i) => options.questionTypes?.[i] ?? DEFAULT_QUESTION_SPEC));
+    setEditOptionSet(options.optionSet ?? DEFAULT_OPTION_SET);
+    setEditPaperSets(options.paperSets ?? null);
+    setEditActiveSet(0);
     setEditEntryMode("individual");
-    setEditBulkText(key.answers.join(', '));
+    setEditBulkText(formatBulkAnswers(key.answers, options.questionTypes));
     setEditDragIndex(null);
     setEditDialogOpen(true);
   };
 
   const handleEditAnswerChange = (index: number, value: string) => {
-    const upperValue = value.toUpperCase();
-    if (upperValue === "" || /^[A-E]$/.test(upperValue)) {
-      setEditAnswers((prev) => {
-        const newAnswers = [...prev];
-        newAnswers[index] = upperValue;
-        return newAnswers;
-      });
-    }
+    setEditAnswers((prev) => {
+      const newAnswers = [...prev];
+      newAnswers[index] = value.toUpperCase();
+      return newAnswers;
+    });
+  };
+
+  const handleEditSpecChange = (index: number, spec: QuestionSpec) => {
+    setEditQuestionTypes((prev) => {
+      const newTypes = [...prev];
+      newTypes[index] = spec;
+      return newTypes;
+    });
+  };
+
+  const handleEditPaperSetChange = (next: PaperSetState) => {
+    setEditPaperSets(next.sets);
+    setEditActiveSet(next.active);
+    setEditAnswers(next.answers);
+    setEditBulkText(formatBulkAnswers(next.answers, editQuestionTypes));
+  };
+
+  const handleEditOptionSetChange = (options: string[]) => {
+    setEditOptionSet(options);
+    setEditAnswers((prev) => prev.map((a, i) => entryForSpec(a, editQuestionTypes[i] ?? DEFAULT_QUESTION_SPEC, options)));
   };
 
   const handleSaveEdit = async () => {
@@ -165,21 +223,72 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
       toast({ title: "Name required", description: "Please enter a name for the answer key", variant: "destructive" });
       return;
     }
+    const paperSets = editPaperSets ? commitActiveSet(editPaperSets, editActiveSet, editAnswers) : null;
+    if (paperSets) {
+      const codes = paperSets.map((set) => set.code);
+      if (codes.some((code) => !code) || new Set(codes).size !== codes.length) {
+        toast({ title: "Invalid paper sets", description: "Every paper set needs its own code", variant: "destructive" });
+        return;
+      }
+    }
+    for (const variant of paperSets ?? [{ code: "", answers: editAnswers }]) {
+      const invalidIndex = variant.answers.findIndex((a, i) => a !== "" && !isValidKeyEntry(a, editOptionSet, editQuestionTypes[i]));
+      if (invalidIndex !== -1) {
+        toast({
+          title: "Invalid answer",
+          description: `${paperSets ? `Set ${variant.code}: ` : ""}Q${invalidIndex + 1}: "${variant.answers[invalidIndex]}" is not a valid ${describeQuestionSpec(editQuestionTypes[invalidIndex]).toLowerCase()} answer`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    // The key's answers mirror its first paper set
+    const answers = paperSets ? paperSets[0].answers : editAnswers;
     setIsSaving(true);
-    await updateAnswerKey(editingKey.id, {
+    const markingScheme = isDefaultMarkingScheme(editMarkingScheme) ? null : editMarkingScheme;
+    const questionTypes = normalizeQuestionTypes(editQuestionTypes, editAnswers.length) ?? null;
+    const optionSet = isDefaultOptionSet(editOptionSet) ? null : editOptionSet;
+    const gradingChanged = JSON.stringify(answers) !== JSON.stringify(editingKey.answers)
+      || JSON.stringify(markingScheme) !== JSON.stringify(editingKey.marking_scheme)
+      || JSON.stringify(questionTypes) !== JSON.stringify(normalizeQuestionTypes(editingKey.question_types, editingKey.answers.length) ?? null)
+      || JSON.stringify(optionSet) !== JSON.stringify(getAnswerKeyOptions(editingKey).optionSet ?? null)
+      || JSON.stringify(paperSets) !== JSON.stringify(getAnswerKeyOptions(editingKey).paperSets ?? null);
+    const updated = await updateAnswerKey(editingKey.id, {
       name: editName.trim(),
-      answers: editAnswers,
+      answers,
       detect_roll_number: editDetectRollNumber,
       detect_subject_code: editDetectSubjectCode,
+      marking_scheme: markingScheme,
+      question_types: questionTypes,
+      option_set: optionSet,
+      paper_sets: paperSets,
+      consensus_mode: editConsensus,
+      bubble_sheet: editBubbleSheet,
     });
     setIsSaving(false);
     setEditDialogOpen(false);
     setEditingKey(null);
+
+    // Offer to re-grade sheets that were scored against the old version of the key
+    if (updated && gradingChanged) {
+      try {
+        if (await countLinkedEvaluations(editingKey.id) > 0) {
+          openRegrade(updated as unknown as SavedAnswerKey);
+        }
+      } catch (error) {
+        console.error('Error counting graded sheets:', error);
+      }
+    }
+  };
+
+  const openRegrade = (key: SavedAnswerKey) => {
+    setRegradeKey(key);
+    setRegradeDialogOpen(true);
   };
 
   const handleDuplicate = async (key: SavedAnswerKey) => {
     const gridConfig = key.grid_rows && key.grid_columns ? { rows: key.grid_rows, columns: key.grid_columns } : undefined;
-    await saveAnswerKey(`${key.name} (Copy)`, key.answers, gridConfig, key.detect_roll_number ?? true, key.detect_subject_code ?? true);
+    await saveAnswerKey(`${key.name} (Copy)`, key.answers, gridConfig, key.detect_roll_number ?? true, key.detect_subject_code ?? true, getAnswerKeyOptions(key));
   };
 
   const handleDeleteClick = (key: SavedAnswerKey) => {
@@ -196,12 +305,13 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
   };
 
   const handleEditBulkApply = () => {
-    const parsed = editBulkText.toUpperCase().split(/[\s,;]+/).map(s => s.trim()).filter(s => /^[A-E]$/.test(s));
+    const { answers: parsed, types } = parseBulkAnswers(editBulkText, editOptionSet);
     if (parsed.length === 0) {
-      toast({ title: "No valid answers", description: "Enter A-E separated by commas or spaces", variant: "destructive" });
+      toast({ title: "No valid answers", description: `Enter ${describeOptionSet(editOptionSet)} (or multiple options with | or +, 12.5, T/F, BONUS, DROP) separated by commas or spaces`, variant: "destructive" });
       return;
     }
     setEditAnswers(parsed);
+    setEditQuestionTypes(types);
     toast({ title: `${parsed.length} answers applied` });
     setEditEntryMode("individual");
   };
@@ -212,6 +322,10 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
     const [moved] = arr.splice(from, 1);
     arr.splice(to, 0, moved);
     setEditAnswers(arr);
+    const types = [...editQuestionTypes];
+    const [movedType] = types.splice(from, 1);
+    types.splice(to, 0, movedType);
+    setEditQuestionTypes(types);
   };
 
   return (
@@ -298,6 +412,7 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
                     </TableHead>
                     <TableHead>Grid</TableHead>
                     <TableHead>Detection</TableHead>
+                    <TableHead>Marking</TableHead>
                     <TableHead className="cursor-pointer hover:bg-muted/50" onClick={() => handleSort("updated_at")}>
                       <div className="flex items-center gap-1">Last Updated<ArrowUpDown className="h-3 w-3" /></div>
                     </TableHead>
@@ -308,19 +423,34 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
                   {filteredKeys.map((key) => (
                     <TableRow key={key.id} className="group">
                       <TableCell className="font-medium">{key.name}</TableCell>
-                      <TableCell><Badge variant="secondary" className="gap-1"><Hash className="h-3 w-3" />{key.answers.length}</Badge></TableCell>
+                      <TableCell>
+                        <div className="flex gap-1 items-center">
+                          <Badge variant="secondary" className="gap-1"><Hash className="h-3 w-3" />{key.answers.length}</Badge>
+                          {key.option_set && <Badge variant="outline" className="text-xs">{describeOptionSet(key.option_set)}</Badge>}
+                          {key.paper_sets && <Badge variant="outline" className="text-xs">{key.paper_sets.length} sets</Badge>}
+                        </div>
+                      </TableCell>
                       <TableCell>
                         {key.grid_rows && key.grid_columns ? (
-                          <Badge variant="outline" className="gap-1"><Grid3X3 className="h-3 w-3" />{key.grid_rows}×{key.grid_columns}</Badge>
+                          <div className="flex gap-1 flex-wrap">
+                            <Badge variant="outline" className="gap-1"><Grid3X3 className="h-3 w-3" />{key.grid_rows}×{key.grid_columns}</Badge>
+                            {key.bubble_sheet && <Badge variant="outline" className="text-xs">Bubbles</Badge>}
+                          </div>
                         ) : <span className="text-muted-foreground text-sm">—</span>}
                       </TableCell>
                       <TableCell>
                         <div className="flex gap-1 flex-wrap">
                           {key.detect_roll_number && <Badge variant="outline" className="text-xs">Roll</Badge>}
                           {key.detect_subject_code && <Badge variant="outline" className="text-xs">Subject</Badge>}
-                          {!key.detect_roll_number && !key.detect_subject_code && <span className="text-muted-foreground text-sm">—</span>}
+                          {key.consensus_mode && <Badge variant="outline" className="text-xs">Consensus</Badge>}
+                          {!key.detect_roll_number && !key.detect_subject_code && !key.consensus_mode && <span className="text-muted-foreground text-sm">—</span>}
                         </div>
                       </TableCell>
+                      <TableCell>
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {describeMarkingScheme(getAnswerKeyOptions(key).markingScheme ?? DEFAULT_MARKING_SCHEME)}
+                        </span>
+                      </TableCell>
                       <TableCell>
                         <div className="flex items-center gap-1 text-muted-foreground text-sm">
                           <Calendar className="h-3 w-3" />{format(new Date(key.updated_at), "MMM d, yyyy")}
@@ -334,6 +464,7 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
                           <DropdownMenuContent align="end">
                             <DropdownMenuItem onClick={() => handleEditClick(key)}><Pencil className="h-4 w-4 mr-2" />Edit</DropdownMenuItem>
                             <DropdownMenuItem onClick={() => handleDuplicate(key)}><Copy className="h-4 w-4 mr-2" />Duplicate</DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => openRegrade(key)}><RefreshCw className="h-4 w-4 mr-2" />Re-grade Sheets</DropdownMenuItem>
                             <DropdownMenuSeparator />
                             <DropdownMenuItem onClick={() => handleDeleteClick(key)} className="text-destructive focus:text-destructive"><Trash2 className="h-4 w-4 mr-2" />Delete</DropdownMenuItem>
                           </DropdownMenuContent>
@@ -359,7 +490,7 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
         <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
             <DialogTitle>Edit Answer Key</DialogTitle>
-            <DialogDescription>Update the name, answers, and detection settings</DialogDescription>
+            <DialogDescription>Update the name, answers, marking, and detection settings</DialogDescription>
           </DialogHeader>
           <div className="space-y-4 py-4">
             <div className="space-y-2">
@@ -375,14 +506,36 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
                 <Checkbox checked={editDetectSubjectCode} onCheckedChange={(c) => setEditDetectSubjectCode(!!c)} id="edit-subject" />
                 <Label htmlFor="edit-subject">Detect Subject Code</Label>
               </div>
+              <div className="flex items-center gap-2">
+                <Checkbox checked={editConsensus} onCheckedChange={(c) => setEditConsensus(!!c)} id="edit-consensus" />
+                <Label htmlFor="edit-consensus">Consensus Reading</Label>
+              </div>
+              {editingKey?.grid_rows && editingKey?.grid_columns && (
+                <div className="flex items-center gap-2" title="Each cell is a question number followed by one printed bubble per option; filled bubbles are read without the AI. The grid must fill the sheet edge to edge, with no header or roll-number block.">
+                  <Checkbox checked={editBubbleSheet} onCheckedChange={(c) => setEditBubbleSheet(!!c)} id="edit-bubble-sheet" />
+                  <Label htmlFor="edit-bubble-sheet">Bubble Sheet</Label>
+                </div>
+              )}
+              <div className="flex items-center gap-2 ml-auto">
+                <Label htmlFor="edit-option-set">Options</Label>
+                <OptionSetSelect id="edit-option-set" value={editOptionSet} onChange={handleEditOptionSetChange} className="h-8 w-28" />
+              </div>
             </div>
+            <MarkingSchemeEditor value={editMarkingScheme} onChange={setEditMarkingScheme} questionCount={editAnswers.length} />
+            <PaperSetTabs
+              id="edit-paper-sets"
+              sets={editPaperSets}
+              active={editActiveSet}
+              answers={editAnswers}
+              onChange={handleEditPaperSetChange}
+            />
             <div className="flex gap-2">
               <Button variant={editEntryMode === "individual" ? "default" : "ghost"} size="sm" onClick={() => setEditEntryMode("individual")} className="gap-1.5"><List className="h-3.5 w-3.5" />Individual</Button>
               <Button variant={editEntryMode === "bulk" ? "default" : "ghost"} size="sm" onClick={() => setEditEntryMode("bulk")} className="gap-1.5"><ClipboardPaste className="h-3.5 w-3.5" />Bulk</Button>
             </div>
             {editEntryMode === "bulk" ? (
               <div className="space-y-2">
-                <Textarea value={editBulkText} onChange={(e) => setEditBulkText(e.target.value)} placeholder="A, B, C, D..." className="font-mono" />
+                <Textarea value={editBulkText} onChange={(e) => setEditBulkText(e.target.value)} placeholder="A, B, A|C, A+C, 12.5, T, BONUS, DROP..." className="font-mono" />
                 <Button size="sm" onClick={handleEditBulkApply}>Apply</Button>
               </div>
             ) : (
@@ -391,14 +544,13 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
                   <div key={index} className="flex items-center gap-2 p-1.5 rounded-lg border border-transparent hover:border-border hover:bg-muted/30">
                     <GripVertical className="h-4 w-4 text-muted-foreground/50 cursor-grab shrink-0" />
                     <span className="text-xs text-muted-foreground font-mono w-8 text-right shrink-0">Q{index + 1}</span>
-                    <div className="flex gap-1">
-                      {['A', 'B', 'C', 'D', 'E'].map(opt => (
-                        <button key={opt} type="button" onClick={() => handleEditAnswerChange(index, opt)}
-                          className={`w-8 h-8 rounded-md text-xs font-bold transition-all ${answer === opt ? 'bg-primary text-primary-foreground shadow-sm' : 'bg-muted/50 text-muted-foreground hover:bg-muted'}`}>
-                          {opt}
-                        </button>
-                      ))}
-                    </div>
+                    <QuestionAnswerInput
+                      answer={answer}
+                      spec={editQuestionTypes[index] ?? DEFAULT_QUESTION_SPEC}
+                      options={editOptionSet}
+                      onAnswerChange={(value) => handleEditAnswerChange(index, value)}
+                      onSpecChange={(spec) => handleEditSpecChange(index, spec)}
+                    />
                     <div className="ml-auto flex gap-1">
                       <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => moveEditQuestion(index, index - 1)} disabled={index === 0}><ArrowUp className="h-3 w-3" /></Button>
                       <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => moveEditQuestion(index, index + 1)} disabled={index === editAnswers.length - 1}><ArrowDown className="h-3 w-3" /></Button>
@@ -418,6 +570,8 @@ const AnswerKeysContent = ({ session }: { session: Session }) => {
         </DialogContent>
       </Dialog>
 
+      <RegradeDialog answerKey={regradeKey} open={regradeDialogOpen} onOpenChange={setRegradeDialogOpen} />
+
       {/* Delete Confirmation */}
       <Dialog open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen}>
         <DialogContent>
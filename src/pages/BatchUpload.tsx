@@ -1,41 +1,59 @@
-import { useState, useEffect, useMemo, useRef, useCallback } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useNavigate, useLocation, useSearchParams } from "react-router-dom";
 import { Session } from "@supabase/supabase-js";
 import AuthGuard from "@/components/AuthGuard";
 import ImageUpload from "@/components/ImageUpload";
 import AnswerKeyForm from "@/components/AnswerKeyForm";
 import BatchProcessor, { BatchProcessingItem } from "@/components/BatchProcessor";
 import StepIndicator from "@/components/StepIndicator";
+import DuplicateCompareDialog from "@/components/DuplicateCompareDialog";
 import QuickApplyKey from "@/components/QuickApplyKey";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Layers, Users } from "lucide-react";
+import { ArrowLeft, Layers, Loader2, Users } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-
-const CONCURRENCY = 6;
+import { AnswerKeyOptions } from "@/hooks/useSavedAnswerKeys";
+import { useBatchJob } from "@/hooks/useBatchJob";
+import { callGradeFunction, type GradedResponse } from "@/lib/evaluationActions";
+import { DUPLICATE_OUTCOMES, type DuplicateChoice } from "@/lib/duplicates";
+import { uploadSheetImage } from "@/lib/sheetImages";
+import {
+  addBatchItems,
+  cancelBatchJob,
+  createBatchJob,
+  isJobActive,
+  resumeBatchJob,
+  retryBatchItems,
+  toProcessingItem,
+  type BatchSettings,
+  type NewBatchItem,
+} from "@/lib/batchJobs";
+
+const UPLOAD_CONCURRENCY = 4;
+
+type BatchImage = { file: File; dataUrl: string };
 
 const BatchUploadContent = ({ session }: { session: Session }) => {
-  const [batchImages, setBatchImages] = useState<{ file: File; dataUrl: string }[]>([]);
-  const [batchProcessing, setBatchProcessing] = useState<BatchProcessingItem[]>([]);
-  const [currentBatchIndex, setCurrentBatchIndex] = useState(0);
-  const [isProcessing, setIsProcessing] = useState(false);
-  const [answerKey, setAnswerKey] = useState<string[]>([]);
+  // Sheets picked on this device but not yet handed to the server
+  const [batchImages, setBatchImages] = useState<BatchImage[]>([]);
+  const [uploading, setUploading] = useState<{ done: number; total: number } | null>(null);
   const [isAppendMode, setIsAppendMode] = useState(false);
-  const [lastGridConfig, setLastGridConfig] = useState<{ rows: number; columns: number } | undefined>();
-  const [lastDetectRollNumber, setLastDetectRollNumber] = useState(false);
-  const [lastDetectSubjectCode, setLastDetectSubjectCode] = useState(false);
-  const [startTime, setStartTime] = useState<number | null>(null);
-  
-  const cancelledRef = useRef(false);
-  const tokenRef = useRef<string | null>(null);
+  const [comparingIndex, setComparingIndex] = useState<number | null>(null);
+
+  // Storage path of each sheet once uploaded, so a failed submit doesn't upload it again
+  const uploadedPathsRef = useRef(new WeakMap<File, string>());
   const navigate = useNavigate();
   const location = useLocation();
-  const expectedCount = location.state?.expectedCount as number | null;
+  const [searchParams, setSearchParams] = useSearchParams();
+  // The batch running on the server; in the URL so any device can reattach to it
+  const jobId = searchParams.get('job');
+  const { job, items: jobItems } = useBatchJob(jobId);
+  const expectedCount = (location.state?.expectedCount as number | null) ?? job?.expected_count ?? null;
+  const settings = job?.settings as unknown as BatchSettings | undefined;
 
   useEffect(() => {
-    if (!expectedCount) {
+    if (!expectedCount && !jobId) {
       toast({
         title: "Missing information",
         description: "Please enter the expected number of students first",
@@ -43,15 +61,40 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
       });
       navigate('/');
     }
-  }, [expectedCount, navigate]);
+  }, [expectedCount, jobId, navigate]);
+
+  const batchProcessing = useMemo<BatchProcessingItem[]>(() => [
+    ...jobItems.map(toProcessingItem),
+    ...batchImages.map(img => ({ fileName: img.file.name, status: 'pending' as const })),
+  ], [jobItems, batchImages]);
+
+  const isProcessing = !!uploading || (!!job && isJobActive(job));
+  const completedCount = batchProcessing.filter(item => item.status === 'completed').length;
+  const processingIndex = batchProcessing.findIndex(item => item.status === 'processing');
+  const currentBatchIndex = isProcessing ? Math.max(processingIndex, 0) : batchProcessing.length;
+  const startTime = job && isJobActive(job) ? Date.parse(job.created_at) : null;
+
+  // Report once when the server finishes or stops the batch
+  const jobStatus = job?.status;
+  const previousStatus = useRef(jobStatus);
+  useEffect(() => {
+    const was = previousStatus.current;
+    previousStatus.current = jobStatus;
+    if (!was || was === jobStatus || (was !== 'queued' && was !== 'running')) return;
+    if (jobStatus !== 'completed' && jobStatus !== 'cancelled') return;
+    const needsSet = jobItems.filter(item => item.status === 'review').length;
+    toast({
+      title: jobStatus === 'cancelled' ? "Batch processing stopped" : "Batch processing complete!",
+      description: `Successfully processed ${jobItems.filter(item => item.status === 'completed').length} of ${jobItems.length} answer sheets`
+        + (needsSet > 0 ? `; ${needsSet} need a paper set picked` : ''),
+    });
+  }, [jobStatus, jobItems]);
 
   const currentStep = useMemo(() => {
-    const completedCount = batchProcessing.filter(item => item.status === 'completed').length;
-    if (completedCount > 0 || isProcessing) return 4;
-    if (answerKey.length > 0) return 4;
+    if (jobId || uploading) return 4;
     if (batchImages.length > 0) return 3;
     return 2;
-  }, [batchImages.length, answerKey.length, batchProcessing, isProcessing]);
+  }, [jobId, uploading, batchImages.length]);
 
   const steps = [
     { number: 1, label: "Enter Count" },
@@ -60,29 +103,18 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
     { number: 4, label: "Process" },
   ];
 
-  if (!expectedCount) return null;
+  if (!expectedCount && !jobId) return null;
+  const targetCount = expectedCount ?? batchProcessing.length;
 
-  // ... rest of handlers remain identical
-  const handleBatchUpload = (images: { file: File; dataUrl: string }[], append: boolean = false) => {
-    if ((append || batchImages.length > 0) && batchImages.length > 0) {
+  const handleBatchUpload = (images: BatchImage[], append: boolean = false) => {
+    if (append || batchImages.length > 0 || jobId) {
       setBatchImages(prev => [...prev, ...images]);
-      setBatchProcessing(prev => [
-        ...prev,
-        ...images.map(img => ({
-          fileName: img.file.name,
-          status: 'pending' as const,
-        }))
-      ]);
       toast({
         title: `Added ${images.length} more sheet${images.length !== 1 ? 's' : ''}`,
-        description: `Total: ${batchImages.length + images.length} answer sheets in this batch`,
+        description: `Total: ${batchProcessing.length + images.length} answer sheets in this batch`,
       });
     } else {
       setBatchImages(images);
-      setBatchProcessing(images.map(img => ({
-        fileName: img.file.name,
-        status: 'pending' as const,
-      })));
       toast({
         title: `${images.length} image${images.length !== 1 ? 's' : ''} ready`,
         description: "Upload more or submit the answer key to process",
@@ -91,14 +123,50 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
     setIsAppendMode(true);
   };
 
-  const handleAnswerKeySubmit = (answers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean) => {
-    setAnswerKey(answers);
-    setLastGridConfig(gridConfig);
-    setLastDetectRollNumber(detectRollNumber || false);
-    setLastDetectSubjectCode(detectSubjectCode || false);
-    
+  /** Uploads the local sheets to storage, a few at a time, for the server to read. */
+  const uploadSheets = async (images: BatchImage[]): Promise<NewBatchItem[]> => {
+    setUploading({ done: 0, total: images.length });
+    const items: NewBatchItem[] = [];
+    for (let start = 0; start < images.length; start += UPLOAD_CONCURRENCY) {
+      const chunk = images.slice(start, start + UPLOAD_CONCURRENCY);
+      items.push(...await Promise.all(chunk.map(async (img) => {
+        let imagePath = uploadedPathsRef.current.get(img.file);
+        if (!imagePath) {
+          imagePath = await uploadSheetImage(session.user.id, img.dataUrl);
+          uploadedPathsRef.current.set(img.file, imagePath);
+        }
+        setUploading(prev => prev && { ...prev, done: prev.done + 1 });
+        return { fileName: img.file.name, imagePath };
+      })));
+    }
+    return items;
+  };
+
+  const startBatch = async (batchSettings: BatchSettings) => {
+    try {
+      const items = await uploadSheets(batchImages);
+      const newJobId = await createBatchJob(batchSettings, expectedCount, items);
+      setBatchImages([]);
+      setIsAppendMode(false);
+      setSearchParams({ job: newJobId }, { replace: true, state: location.state });
+      toast({
+        title: "Batch started",
+        description: "Sheets are processed on the server; you can close this page and come back later",
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't start the batch",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  const handleAnswerKeySubmit = (answers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean, options: AnswerKeyOptions = {}) => {
     if (batchImages.length > 0) {
-      processBatchAnswerSheets(answers, gridConfig, detectRollNumber, detectSubjectCode);
+      startBatch({ ...options, answerKey: answers, gridConfig, detectRollNumber, detectSubjectCode });
     } else {
       toast({
         title: "Please upload images first",
@@ -115,20 +183,50 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
     });
   };
 
-  const handleProcessNewSheets = () => {
-    if (answerKey.length === 0) {
+  const handleProcessNewSheets = async () => {
+    if (!jobId) {
       toast({ title: "Answer key required", description: "Please submit an answer key first", variant: "destructive" });
       return;
     }
-    const firstPendingIndex = batchProcessing.findIndex(item => item.status === 'pending');
-    if (firstPendingIndex >= 0) {
-      processBatchAnswerSheets(answerKey, lastGridConfig, lastDetectRollNumber, lastDetectSubjectCode, firstPendingIndex);
+    try {
+      // Adding sheets starts the job again; with none to add, it picks up where it stopped
+      if (batchImages.length > 0) {
+        const items = await uploadSheets(batchImages);
+        await addBatchItems(jobId, items);
+        setBatchImages([]);
+      } else {
+        await resumeBatchJob(jobId);
+      }
+      setIsAppendMode(false);
+    } catch (error) {
+      toast({
+        title: "Couldn't add sheets",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setUploading(null);
+    }
+  };
+
+  // Resolves to whether the action went through; failures are toasted here
+  const runJobAction = async (action: () => Promise<unknown>, failure: string) => {
+    try {
+      await action();
+      return true;
+    } catch (error) {
+      toast({
+        title: failure,
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+      return false;
     }
-    setIsAppendMode(false);
   };
 
-  const handleCancel = () => {
-    cancelledRef.current = true;
+  const handleCancel = async () => {
+    if (!jobId) return;
+    if (!await runJobAction(() => cancelBatchJob(jobId), "Couldn't stop the batch")) return;
     toast({
       title: "Batch cancelled",
       description: "Processing will stop after the current sheets complete",
@@ -136,197 +234,38 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
   };
 
   const handleRetryFailed = () => {
-    if (answerKey.length === 0) return;
-    setBatchProcessing(prev => prev.map(item => 
-      item.status === 'error' ? { ...item, status: 'pending' as const, error: undefined } : item
-    ));
-    const firstErrorIndex = batchProcessing.findIndex(item => item.status === 'error');
-    if (firstErrorIndex >= 0) {
-      setTimeout(() => {
-        processBatchAnswerSheets(answerKey, lastGridConfig, lastDetectRollNumber, lastDetectSubjectCode, firstErrorIndex);
-      }, 100);
-    }
+    if (jobId) runJobAction(() => retryBatchItems(jobId), "Couldn't retry failed sheets");
   };
 
   const handleRetryItem = (index: number) => {
-    if (answerKey.length === 0) return;
-    setBatchProcessing(prev => prev.map((item, idx) => 
-      idx === index ? { ...item, status: 'pending' as const, error: undefined } : item
-    ));
-    setTimeout(() => {
-      processBatchAnswerSheets(answerKey, lastGridConfig, lastDetectRollNumber, lastDetectSubjectCode, index);
-    }, 100);
+    const item = jobItems[index];
+    if (jobId && item) runJobAction(() => retryBatchItems(jobId, [item.id]), "Couldn't retry sheet");
   };
 
-  const hasPendingSheets = batchProcessing.some(item => item.status === 'pending');
-
-  const refreshToken = async () => {
-    const { data: { session: freshSession } } = await supabase.auth.getSession();
-    tokenRef.current = freshSession?.access_token || session?.access_token || null;
-    return tokenRef.current;
-  };
-
-  const processOneSheet = async (
-    i: number,
-    correctAnswers: string[],
-    gridConfig?: { rows: number; columns: number },
-    detectRollNumber?: boolean,
-    detectSubjectCode?: boolean,
-  ): Promise<boolean> => {
-    if (cancelledRef.current) return false;
-    
-    setBatchProcessing(prev => prev.map((item, idx) => 
-      idx === i ? { ...item, status: 'processing' as const } : item
-    ));
+  // The server moves the batch item on once the set is picked or the duplicate settled
+  const handleResolveSet = async (index: number, code: string) => {
+    const evaluationId = batchProcessing[index]?.evaluationId;
+    if (!evaluationId) return;
 
     try {
-      const token = tokenRef.current || await refreshToken();
-
-      const response = await fetch(
-        `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-answer-sheet`,
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-            "Authorization": `Bearer ${token}`,
-          },
-          body: JSON.stringify({
-            image: batchImages[i].dataUrl,
-            answerKey: correctAnswers,
-            gridConfig,
-            detectRollNumber,
-            detectSubjectCode,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || `Server error (${response.status})`);
-      }
-
-      const result = await response.json();
-      
-      // Storage upload
-      const storagePromise = (async () => {
-        try {
-          const base64Data = batchImages[i].dataUrl.split(',')[1];
-          const binaryData = atob(base64Data);
-          const bytes = new Uint8Array(binaryData.length);
-          for (let j = 0; j < binaryData.length; j++) {
-            bytes[j] = binaryData.charCodeAt(j);
-          }
-          const blob = new Blob([bytes], { type: 'image/jpeg' });
-          const fileName = `${session.user.id}/${Date.now()}-${i}.jpg`;
-          const { error: uploadError } = await supabase.storage
-            .from('answer-sheets')
-            .upload(fileName, blob, { contentType: 'image/jpeg', upsert: false });
-          if (!uploadError) {
-            const { data: signedUrlData } = await supabase.storage
-              .from('answer-sheets')
-              .createSignedUrl(fileName, 60 * 60 * 24 * 365);
-            return signedUrlData?.signedUrl || fileName;
-          }
-          return 'storage-upload-failed';
-        } catch {
-          return 'storage-upload-failed';
-        }
-      })();
-
-      const imageStorageUrl = await storagePromise;
-
-      // Fire-and-forget DB insert
-      supabase.from('evaluations').insert({
-        user_id: session.user.id,
-        image_url: imageStorageUrl,
-        answer_key: correctAnswers,
-        extracted_answers: result.extractedAnswers,
-        correct_answers: result.correctAnswers,
-        roll_number: result.rollNumber,
-        subject_code: result.subjectCode,
-        grid_rows: gridConfig?.rows,
-        grid_columns: gridConfig?.columns,
-        score: result.score,
-        total_questions: result.totalQuestions,
-        accuracy: result.accuracy,
-        confidence: result.confidence,
-        low_confidence_count: result.lowConfidenceCount,
-        detailed_results: result.detailedResults,
-      }).then(({ error }) => {
-        if (error) console.error('DB insert error:', error);
+      await callGradeFunction<GradedResponse>('assign-paper-set', {
+        evaluationId, code, paperSets: settings?.paperSets,
       });
-
-      setBatchProcessing(prev => prev.map((item, idx) => 
-        idx === i ? { 
-          ...item, status: 'completed' as const,
-          rollNumber: result.rollNumber, subjectCode: result.subjectCode,
-          score: result.score, totalQuestions: result.totalQuestions,
-          accuracy: result.accuracy,
-        } : item
-      ));
-      return true;
     } catch (error) {
-      setBatchProcessing(prev => prev.map((item, idx) => 
-        idx === i ? { 
-          ...item, status: 'error' as const,
-          error: error instanceof Error ? error.message : 'Processing failed'
-        } : item
-      ));
-      return false;
+      toast({
+        title: "Couldn't grade sheet",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
     }
   };
 
-  const processBatchAnswerSheets = async (
-    correctAnswers: string[], 
-    gridConfig?: { rows: number; columns: number }, 
-    detectRollNumber?: boolean, 
-    detectSubjectCode?: boolean,
-    startFromIndex: number = 0
-  ) => {
-    setIsProcessing(true);
-    setStartTime(Date.now());
-    setCurrentBatchIndex(startFromIndex);
-    cancelledRef.current = false;
-    
-    await refreshToken();
-    
-    const pendingIndices: number[] = [];
-    let alreadyCompleted = 0;
-    for (let i = startFromIndex; i < batchImages.length; i++) {
-      if (batchProcessing[i]?.status === 'completed') { alreadyCompleted++; continue; }
-      if (batchProcessing[i]?.status === 'error' && i !== startFromIndex) continue;
-      pendingIndices.push(i);
-    }
-
-    let successCount = alreadyCompleted;
-
-    for (let chunk = 0; chunk < pendingIndices.length; chunk += CONCURRENCY) {
-      if (cancelledRef.current) break;
-      
-      const batch = pendingIndices.slice(chunk, chunk + CONCURRENCY);
-      setCurrentBatchIndex(batch[0]);
-      
-      const results = await Promise.all(
-        batch.map(i => processOneSheet(i, correctAnswers, gridConfig, detectRollNumber, detectSubjectCode))
-      );
-      
-      successCount += results.filter(Boolean).length;
-    }
-
-    setIsProcessing(false);
-    setCurrentBatchIndex(batchImages.length);
-    setIsAppendMode(false);
-    setStartTime(null);
-    
-    const cancelled = cancelledRef.current;
-    cancelledRef.current = false;
-    
-    toast({
-      title: cancelled ? "Batch processing stopped" : "Batch processing complete!",
-      description: `Successfully processed ${successCount} of ${batchImages.length} answer sheets`,
-    });
+  const handleDuplicateResolved = (choice: DuplicateChoice) => {
+    toast(DUPLICATE_OUTCOMES[choice]);
   };
 
+  const hasPendingSheets = !!jobId && batchProcessing.some(item => item.status === 'pending');
+
   return (
     <div className="min-h-screen bg-background">
       <div className="bg-gradient-to-r from-primary/10 via-primary/5 to-background border-b">
@@ -338,12 +277,12 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
             <div className="flex-1">
               <h1 className="text-2xl font-bold text-foreground">Batch Processing</h1>
               <p className="text-sm text-muted-foreground">
-                Processing {expectedCount} student answer sheets
+                Processing {targetCount} student answer sheets
               </p>
             </div>
             <Badge variant="secondary" className="text-lg px-4 py-2 gap-2">
               <Users className="h-4 w-4" />
-              {expectedCount} Students
+              {targetCount} Students
             </Badge>
           </div>
         </div>
@@ -361,26 +300,31 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
             </div>
             <div className="text-left flex-1">
               <p className="text-lg font-bold text-foreground">
-                {batchImages.length} of {expectedCount} sheets uploaded
+                {batchProcessing.length} of {targetCount} sheets uploaded
               </p>
               <p className="text-sm text-muted-foreground">
-                {batchImages.length === 0 
+                {uploading
+                  ? `Uploading sheets (${uploading.done}/${uploading.total})…`
+                  : batchProcessing.length === 0
                   ? "Upload answer sheets below to get started" 
-                  : batchImages.length < expectedCount 
-                    ? `${expectedCount - batchImages.length} more sheets to upload`
+                  : batchProcessing.length < targetCount
+                    ? `${targetCount - batchProcessing.length} more sheets to upload`
+                    : jobId
+                    ? "All sheets uploaded - processing continues on the server"
                     : "All sheets uploaded - configure answer key below"}
               </p>
             </div>
+            {uploading && <Loader2 className="h-5 w-5 animate-spin text-primary" />}
             <Badge 
-              variant={batchImages.length >= expectedCount ? "default" : "outline"} 
+              variant={batchProcessing.length >= targetCount ? "default" : "outline"} 
               className="text-base px-4 py-2"
             >
-              {batchImages.length}/{expectedCount}
+              {batchProcessing.length}/{targetCount}
             </Badge>
           </div>
         </Card>
 
-        {(!isProcessing || batchProcessing.filter(i => i.status === 'completed').length === 0) && (
+        {(!isProcessing || completedCount === 0) && (
           <ImageUpload 
             onImageUpload={() => {}}
             onBatchUpload={handleBatchUpload}
@@ -391,7 +335,7 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
           />
         )}
 
-        {batchImages.length > 0 && answerKey.length === 0 && !isProcessing && (
+        {batchImages.length > 0 && !jobId && !isProcessing && (
           <QuickApplyKey
             onApplyKey={handleAnswerKeySubmit}
             disabled={isProcessing}
@@ -399,7 +343,7 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
           />
         )}
 
-        {batchImages.length > 0 && !isProcessing && batchProcessing.filter(i => i.status === 'completed').length === 0 && (
+        {batchImages.length > 0 && !jobId && !isProcessing && (
           <AnswerKeyForm 
             onSubmit={handleAnswerKeySubmit}
             disabled={batchImages.length === 0 || isProcessing}
@@ -412,17 +356,29 @@ const BatchUploadContent = ({ session }: { session: Session }) => {
             items={batchProcessing}
             currentIndex={currentBatchIndex}
             isProcessing={isProcessing}
-            answerKey={answerKey}
+            answerKey={settings?.answerKey}
             expectedCount={expectedCount}
             onCancel={handleCancel}
             onAddMore={handleAddMoreSheets}
             onProcessNewSheets={handleProcessNewSheets}
             onRetryFailed={handleRetryFailed}
             onRetryItem={handleRetryItem}
+            paperSetCodes={settings?.paperSets?.map(set => set.code)}
+            onResolveSet={handleResolveSet}
+            onCompareDuplicate={setComparingIndex}
             hasPendingSheets={hasPendingSheets}
             startTime={startTime}
+            concurrency={job?.concurrency}
           />
         )}
+
+        <DuplicateCompareDialog
+          open={comparingIndex !== null}
+          onOpenChange={(open) => !open && setComparingIndex(null)}
+          rescanId={comparingIndex !== null ? batchProcessing[comparingIndex]?.evaluationId ?? null : null}
+          existingId={comparingIndex !== null ? batchProcessing[comparingIndex]?.conflictWith ?? null : null}
+          onResolved={handleDuplicateResolved}
+        />
       </main>
     </div>
   );
@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useNavigate } from "react-router-dom";
 import { Session } from "@supabase/supabase-js";
 import { supabase } from "@/integrations/supabase/client";
@@ -14,23 +14,48 @@ import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ArrowLeft, Search, Filter, Eye, Calendar, FileText, Trash2, Loader2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
+import { useSheetImageUrls } from "@/hooks/useSheetImageUrls";
 import { format } from "date-fns";
+import { describeQuestionSpec, normalizeQuestionTypes, questionStatus, specForQuestion, type QuestionSpec } from "@shared/scoring";
+import { fetchCorrections, type AnswerCorrection } from "@/lib/corrections";
+import CorrectionLog from "@/components/CorrectionLog";
+import ProcessingDetails from "@/components/ProcessingDetails";
+import SheetOverlay from "@/components/SheetOverlay";
+import VersionHistory from "@/components/VersionHistory";
+import { fetchVersions, setAuthoritativeVersion, type EvaluationVersion } from "@/lib/versions";
+import { overlayCells } from "@/lib/cellRegions";
+import type { ProcessingMetadata } from "@shared/processingMetadata";
 
 const PAGE_SIZE = 50;
+// One row per sheet: the authoritative version, plus rescans still waiting for a decision
+const LISTED_VERSIONS = 'is_authoritative.eq.true,conflict_with.not.is.null';
 
 interface Evaluation {
   id: string;
   roll_number: string | null;
   subject_code: string | null;
-  score: number;
+  paper_set?: string | null;
+  needs_paper_set?: boolean;
+  lineage_id: string;
+  version: number;
+  is_authoritative?: boolean;
+  conflict_with?: string | null;  // Rescan still waiting for a keep/replace decision
+  score: number | null;  // Null while the sheet waits for its paper set
   total_questions: number;
-  accuracy: number;
+  accuracy: number | null;
+  raw_marks?: number | null;
+  penalty_marks?: number | null;
+  max_marks?: number | null;
   confidence: string | null;
   created_at: string;
   extracted_answers?: string[];
   correct_answers?: string[];
   detailed_results?: any;
-  image_url?: string;
+  question_types?: QuestionSpec[] | null;
+  image_url?: string;  // Path in the answer-sheets bucket
+  grid_rows?: number | null;
+  grid_columns?: number | null;
+  processing_metadata?: ProcessingMetadata | null;  // Not saved for sheets graded before it existed
 }
 
 const HistoryContent = ({ session }: { session: Session }) => {
@@ -44,6 +69,9 @@ const HistoryContent = ({ session }: { session: Session }) => {
   const [selectedDate, setSelectedDate] = useState("");
   const [selectedEvaluation, setSelectedEvaluation] = useState<Evaluation | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
+  const [corrections, setCorrections] = useState<AnswerCorrection[]>([]);
+  const [versions, setVersions] = useState<EvaluationVersion[]>([]);
+  const [promotingId, setPromotingId] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [deleting, setDeleting] = useState(false);
   const [totalCount, setTotalCount] = useState<number | null>(null);
@@ -57,6 +85,27 @@ const HistoryContent = ({ session }: { session: Session }) => {
     applyFilters();
   }, [searchRollNumber, selectedSubject, selectedDate, evaluations]);
 
+  const selectedId = selectedEvaluation?.id;
+  useEffect(() => {
+    setCorrections([]);
+    if (!dialogOpen || !selectedId) return;
+    fetchCorrections(selectedId)
+      .then(setCorrections)
+      .catch((error) => console.error('Error loading corrections:', error));
+  }, [dialogOpen, selectedId]);
+
+  const selectedImagePath = dialogOpen ? selectedEvaluation?.image_url : null;
+  const sheetImageUrl = useSheetImageUrls([selectedImagePath])[selectedImagePath ?? ''];
+
+  const selectedLineage = selectedEvaluation?.lineage_id;
+  useEffect(() => {
+    setVersions([]);
+    if (!dialogOpen || !selectedLineage) return;
+    fetchVersions(selectedLineage)
+      .then(setVersions)
+      .catch((error) => console.error('Error loading versions:', error));
+  }, [dialogOpen, selectedLineage]);
+
   const fetchEvaluations = async (initial: boolean = false) => {
     try {
       if (initial) {
@@ -65,7 +114,8 @@ const HistoryContent = ({ session }: { session: Session }) => {
         const { count } = await supabase
           .from('evaluations')
           .select('id', { count: 'exact', head: true })
-          .eq('user_id', session.user.id);
+          .eq('user_id', session.user.id)
+          .or(LISTED_VERSIONS);
         setTotalCount(count);
       } else {
         setLoadingMore(true);
@@ -74,8 +124,9 @@ const HistoryContent = ({ session }: { session: Session }) => {
       const offset = initial ? 0 : evaluations.length;
       const { data, error } = await supabase
         .from('evaluations')
-        .select('id, roll_number, subject_code, score, total_questions, accuracy, confidence, created_at, image_url')
+        .select('id, roll_number, subject_code, paper_set, lineage_id, version, is_authoritative, conflict_with, needs_paper_set, score, total_questions, accuracy, raw_marks, penalty_marks, max_marks, confidence, created_at, image_url')
         .eq('user_id', session.user.id)
+        .or(LISTED_VERSIONS)
         .order('created_at', { ascending: false })
         .range(offset, offset + PAGE_SIZE - 1);
 
@@ -137,11 +188,16 @@ const HistoryContent = ({ session }: { session: Session }) => {
     if (!evaluation.extracted_answers) {
       const { data, error } = await supabase
         .from('evaluations')
-        .select('extracted_answers, correct_answers, detailed_results, image_url')
+        .select('extracted_answers, correct_answers, detailed_results, question_types, image_url, grid_rows, grid_columns, processing_metadata')
         .eq('id', evaluation.id)
         .single();
       if (!error && data) {
-        const full = { ...evaluation, ...data };
+        const full = {
+          ...evaluation,
+          ...data,
+          question_types: normalizeQuestionTypes(data.question_types, data.correct_answers.length) ?? null,
+          processing_metadata: data.processing_metadata as unknown as ProcessingMetadata | null,
+        };
         setEvaluations(prev => prev.map(e => e.id === evaluation.id ? full : e));
         setSelectedEvaluation(full);
         setDialogOpen(true);
@@ -152,10 +208,21 @@ const HistoryContent = ({ session }: { session: Session }) => {
     setDialogOpen(true);
   };
 
+  // Deleting a sheet removes its whole version history; a pending rescan goes on its own
+  const deleteSheets = (rows: Evaluation[]) => {
+    const lineages = rows.filter(e => !e.conflict_with).map(e => e.lineage_id);
+    const rescans = rows.filter(e => e.conflict_with).map(e => e.id);
+    const filters = [
+      lineages.length > 0 ? `lineage_id.in.(${lineages.join(',')})` : null,
+      rescans.length > 0 ? `id.in.(${rescans.join(',')})` : null,
+    ].filter(Boolean).join(',');
+    return supabase.from('evaluations').delete().or(filters);
+  };
+
   const handleDeleteSingle = async (id: string) => {
     try {
       setDeleting(true);
-      const { error } = await supabase.from('evaluations').delete().eq('id', id);
+      const { error } = await deleteSheets(evaluations.filter(e => e.id === id));
       if (error) throw error;
       setEvaluations(prev => prev.filter(e => e.id !== id));
       setSelectedIds(prev => { const n = new Set(prev); n.delete(id); return n; });
@@ -172,7 +239,7 @@ const HistoryContent = ({ session }: { session: Session }) => {
     if (selectedIds.size === 0) return;
     try {
       setDeleting(true);
-      const { error } = await supabase.from('evaluations').delete().in('id', Array.from(selectedIds));
+      const { error } = await deleteSheets(evaluations.filter(e => selectedIds.has(e.id)));
       if (error) throw error;
       const count = selectedIds.size;
       setEvaluations(prev => prev.filter(e => !selectedIds.has(e.id)));
@@ -186,6 +253,24 @@ const HistoryContent = ({ session }: { session: Session }) => {
     }
   };
 
+  const handleMakeAuthoritative = async (id: string) => {
+    try {
+      setPromotingId(id);
+      await setAuthoritativeVersion(id);
+      if (selectedLineage) setVersions(await fetchVersions(selectedLineage));
+      fetchEvaluations(true);
+      toast({ title: "Authoritative version updated", description: "History and exports now use this version" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change the authoritative version",
+        variant: "destructive",
+      });
+    } finally {
+      setPromotingId(null);
+    }
+  };
+
   const toggleSelectAll = () => {
     if (selectedIds.size === filteredEvaluations.length) {
       setSelectedIds(new Set());
@@ -202,6 +287,21 @@ const HistoryContent = ({ session }: { session: Session }) => {
     });
   };
 
+  // Sheets saved without per-question details get them rebuilt from the answers
+  const sheetOverlay = useMemo(() => {
+    if (!selectedEvaluation) return { cells: [], estimated: false };
+    const grid = { rows: selectedEvaluation.grid_rows, columns: selectedEvaluation.grid_columns };
+    if (Array.isArray(selectedEvaluation.detailed_results)) return overlayCells(selectedEvaluation.detailed_results, grid);
+    const correctAnswers = selectedEvaluation.correct_answers || [];
+    const details = (selectedEvaluation.extracted_answers || []).map((extracted, index) => ({
+      question: index + 1,
+      extracted,
+      correct: correctAnswers[index],
+      status: questionStatus(extracted, correctAnswers[index] ?? '', specForQuestion(selectedEvaluation.question_types, index)),
+    }));
+    return overlayCells(details, grid);
+  }, [selectedEvaluation]);
+
   const getConfidenceBadge = (confidence: string | null) => {
     if (!confidence) return <Badge variant="secondary">Unknown</Badge>;
     const variant = confidence === "high" ? "default" : 
@@ -383,17 +483,37 @@ const HistoryContent = ({ session }: { session: Session }) => {
                         </TableCell>
                         <TableCell className="font-mono font-semibold">
                           {evaluation.roll_number || 'N/A'}
+                          {evaluation.conflict_with ? (
+                            <Badge variant="outline" className="ml-2 font-sans font-normal text-xs">Unresolved rescan</Badge>
+                          ) : evaluation.version > 1 && (
+                            <Badge variant="secondary" className="ml-2 font-sans font-normal text-xs">v{evaluation.version}</Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge variant="outline">{evaluation.subject_code || 'N/A'}</Badge>
                         </TableCell>
                         <TableCell className="font-semibold">
-                          {evaluation.score}/{evaluation.total_questions}
+                          {evaluation.needs_paper_set ? (
+                            <Badge variant="outline" className="font-normal">Set needed</Badge>
+                          ) : (
+                            <>
+                              {evaluation.score}/{evaluation.max_marks ?? evaluation.total_questions}
+                              {!!evaluation.penalty_marks && (
+                                <span className="block text-xs font-normal text-destructive">
+                                  −{evaluation.penalty_marks} penalty
+                                </span>
+                              )}
+                            </>
+                          )}
                         </TableCell>
                         <TableCell>
-                          <Badge variant={evaluation.accuracy >= 80 ? "default" : evaluation.accuracy >= 60 ? "secondary" : "destructive"}>
-                            {evaluation.accuracy.toFixed(1)}%
-                          </Badge>
+                          {evaluation.accuracy == null ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <Badge variant={evaluation.accuracy >= 80 ? "default" : evaluation.accuracy >= 60 ? "secondary" : "destructive"}>
+                              {evaluation.accuracy.toFixed(1)}%
+                            </Badge>
+                          )}
                         </TableCell>
                         <TableCell>
                           {getConfidenceBadge(evaluation.confidence)}
@@ -481,8 +601,15 @@ const HistoryContent = ({ session }: { session: Session }) => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-2xl font-bold">
-                      {selectedEvaluation.score}/{selectedEvaluation.total_questions}
+                      {selectedEvaluation.needs_paper_set
+                        ? 'Set needed'
+                        : `${selectedEvaluation.score}/${selectedEvaluation.max_marks ?? selectedEvaluation.total_questions}`}
                     </div>
+                    {selectedEvaluation.raw_marks != null && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        Raw +{selectedEvaluation.raw_marks} · Penalty −{selectedEvaluation.penalty_marks ?? 0}
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
                 <Card>
@@ -491,7 +618,7 @@ const HistoryContent = ({ session }: { session: Session }) => {
                   </CardHeader>
                   <CardContent>
                     <div className="text-2xl font-bold">
-                      {selectedEvaluation.accuracy.toFixed(1)}%
+                      {selectedEvaluation.accuracy == null ? '—' : `${selectedEvaluation.accuracy.toFixed(1)}%`}
                     </div>
                   </CardContent>
                 </Card>
@@ -509,20 +636,26 @@ const HistoryContent = ({ session }: { session: Session }) => {
                   </CardHeader>
                   <CardContent>
                     <Badge variant="outline">{selectedEvaluation.subject_code || 'N/A'}</Badge>
+                    {selectedEvaluation.paper_set && (
+                      <Badge variant="secondary" className="ml-1">Set {selectedEvaluation.paper_set}</Badge>
+                    )}
                   </CardContent>
                 </Card>
               </div>
 
-              {selectedEvaluation.image_url && (
+              {sheetImageUrl && (
                 <Card>
                   <CardHeader>
                     <CardTitle className="text-base">Answer Sheet</CardTitle>
                   </CardHeader>
                   <CardContent>
-                    <img 
-                      src={selectedEvaluation.image_url} 
-                      alt="Answer sheet" 
-                      className="w-full rounded-lg border"
+                    <SheetOverlay
+                      imageUrl={sheetImageUrl}
+                      cells={sheetOverlay.cells}
+                      estimated={sheetOverlay.estimated}
+                      onCellClick={(question) =>
+                        document.getElementById(`history-q${question}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+                      }
                     />
                   </CardContent>
                 </Card>
@@ -536,21 +669,29 @@ const HistoryContent = ({ session }: { session: Session }) => {
                   <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-5 gap-2">
                     {(selectedEvaluation.extracted_answers || []).map((extracted, index) => {
                       const correct = (selectedEvaluation.correct_answers || [])[index];
-                      const isCorrect = extracted === correct;
+                      const spec = specForQuestion(selectedEvaluation.question_types, index);
+                      // Nothing to compare against until the paper set is picked
+                      const status = selectedEvaluation.needs_paper_set ? 'dropped' : questionStatus(extracted, correct, spec);
                       
                       return (
                         <div 
                           key={index}
+                          id={`history-q${index + 1}`}
                           className={`p-3 rounded-lg border-2 ${
-                            isCorrect 
-                              ? 'border-green-500 bg-green-50 dark:bg-green-950' 
-                              : 'border-red-500 bg-red-50 dark:bg-red-950'
+                            status === 'dropped'
+                              ? 'border-border bg-muted/40'
+                              : status === 'correct' || status === 'bonus'
+                                ? 'border-green-500 bg-green-50 dark:bg-green-950' 
+                                : 'border-red-500 bg-red-50 dark:bg-red-950'
                           }`}
                         >
-                          <div className="text-xs font-semibold mb-1">Q{index + 1}</div>
+                          <div className="text-xs font-semibold mb-1">
+                            Q{index + 1}
+                            {spec.type !== 'single' && <span className="ml-1 font-normal text-muted-foreground">{describeQuestionSpec(spec)}</span>}
+                          </div>
                           <div className="flex items-center justify-between gap-2">
                             <span className="font-mono font-bold">{extracted || '-'}</span>
-                            <span className="text-xs text-muted-foreground">/ {correct}</span>
+                            {!selectedEvaluation.needs_paper_set && <span className="text-xs text-muted-foreground">/ {correct}</span>}
                           </div>
                         </div>
                       );
@@ -558,6 +699,47 @@ const HistoryContent = ({ session }: { session: Session }) => {
                   </div>
                 </CardContent>
               </Card>
+
+              {versions.length > 1 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Versions</CardTitle>
+                    <CardDescription>Every scan and correction of this sheet. Only the authoritative one is exported.</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <VersionHistory
+                      versions={versions}
+                      currentId={selectedEvaluation.id}
+                      busyId={promotingId}
+                      onMakeAuthoritative={handleMakeAuthoritative}
+                    />
+                  </CardContent>
+                </Card>
+              )}
+
+              {selectedEvaluation.processing_metadata && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Processing</CardTitle>
+                    <CardDescription>How the sheet was read when it was graded</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <ProcessingDetails metadata={selectedEvaluation.processing_metadata} />
+                  </CardContent>
+                </Card>
+              )}
+
+              {corrections.length > 0 && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="text-base">Corrections</CardTitle>
+                    <CardDescription>Answers changed by hand after the sheet was read</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <CorrectionLog corrections={corrections} />
+                  </CardContent>
+                </Card>
+              )}
             </div>
           )}
         </DialogContent>
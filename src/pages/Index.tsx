@@ -7,6 +7,9 @@ import AnswerKeyForm from "@/components/AnswerKeyForm";
 import PrivacyNotice from "@/components/PrivacyNotice";
 import QuickApplyKey from "@/components/QuickApplyKey";
 import AuthGuard from "@/components/AuthGuard";
+import DuplicateCompareDialog from "@/components/DuplicateCompareDialog";
+import ActiveBatchJobs from "@/components/ActiveBatchJobs";
+import PaperSetPrompt from "@/components/PaperSetPrompt";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -14,21 +17,43 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Users, User, CheckCircle2 } from "lucide-react";
 import { toast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
+import { AnswerKeyOptions } from "@/hooks/useSavedAnswerKeys";
+import type { MarkingScheme, QuestionSpec, QuestionStatus, QuestionType } from "@shared/scoring";
+import type { CellBox } from "@shared/cellBoxes";
+import type { QuestionReading } from "@shared/grading";
+import type { ProcessingMetadata } from "@shared/processingMetadata";
+import type { PaperSet } from "@shared/paperSets";
+import { DUPLICATE_OUTCOMES, type DuplicateChoice } from "@/lib/duplicates";
+import { callGradeFunction, type GradedResponse } from "@/lib/evaluationActions";
+import { uploadSheetImage } from "@/lib/sheetImages";
 
 // Lazy load heavy components
 const ResultsDashboard = lazy(() => import("@/components/ResultsDashboard"));
 const ExportSettings = lazy(() => import("@/components/ExportSettings"));
 
 export interface EvaluationResult {
+  evaluationId?: string;  // Saved evaluations row, needed for manual corrections
   extractedAnswers: string[];
   correctAnswers: string[];
   rollNumber?: string | null;
   subjectCode?: string | null;
+  setCode?: string | null;
+  paperSet?: string | null;
+  awaitingPaperSet?: boolean;  // Set couldn't be matched: saved without a score until one is picked
   gridConfig?: { rows: number; columns: number };
   score: number;
   totalQuestions: number;
   accuracy: number;
+  correctCount?: number;
+  wrongCount?: number;
+  bonusCount?: number;
+  droppedCount?: number;
+  rawMarks?: number;
+  penaltyMarks?: number;
+  maxMarks?: number;
+  markingScheme?: MarkingScheme;
+  questionTypes?: QuestionSpec[] | null;
+  optionSet?: string[] | null;
   confidence?: string;
   imageQuality?: string;
   lowConfidenceCount?: number;
@@ -40,11 +65,16 @@ export interface EvaluationResult {
     isCorrect: boolean;
     confidence: string;
     note: string;
+    status?: QuestionStatus;
+    marks?: number;
+    source?: "omr" | "ai" | "manual";
+    type?: QuestionType;
+    reviewed?: boolean;
+    box?: CellBox | null;   // Where the answer was read, as fractions of the image
+    readings?: QuestionReading[];  // Each reader's answer, when a consensus read disagreed
   }>;
-  metadata?: {
-    timestamp: string;
-    processingNotes: string;
-  };
+  // Everything saved in processing_metadata except the raw model replies
+  metadata?: Omit<ProcessingMetadata, "modelReplies"> & { processingNotes: string };
 }
 
 const IndexContent = ({ session }: { session: Session }) => {
@@ -54,7 +84,13 @@ const IndexContent = ({ session }: { session: Session }) => {
   const [isProcessing, setIsProcessing] = useState(false);
   const [isBatchMode, setIsBatchMode] = useState(false);
   const [expectedStudentCount, setExpectedStudentCount] = useState<number | null>(null);
+  // Saved result the last scan duplicates, while the teacher decides which counts
+  const [duplicateOf, setDuplicateOf] = useState<string | null>(null);
+  // Set variants of the key the last sheet was evaluated with
+  const [paperSets, setPaperSets] = useState<PaperSet[] | undefined>(undefined);
   const uploadSectionRef = useRef<HTMLDivElement>(null);
+  // Storage path of the photo already uploaded, so evaluating it again doesn't re-upload
+  const uploadedPathRef = useRef<{ image: string; path: string } | null>(null);
   const navigate = useNavigate();
 
   const handleImageUpload = (imageUrl: string) => {
@@ -66,10 +102,10 @@ const IndexContent = ({ session }: { session: Session }) => {
     });
   };
 
-  const handleAnswerKeySubmit = (answers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean) => {
+  const handleAnswerKeySubmit = (answers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean, options?: AnswerKeyOptions) => {
     setAnswerKey(answers);
     if (uploadedImage) {
-      processAnswerSheet(answers, gridConfig, detectRollNumber, detectSubjectCode);
+      processAnswerSheet(answers, gridConfig, detectRollNumber, detectSubjectCode, options);
     } else {
       toast({
         title: "Please upload an image first",
@@ -78,10 +114,16 @@ const IndexContent = ({ session }: { session: Session }) => {
     }
   };
 
-  const processAnswerSheet = async (correctAnswers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean) => {
+  const processAnswerSheet = async (correctAnswers: string[], gridConfig?: { rows: number; columns: number }, detectRollNumber?: boolean, detectSubjectCode?: boolean, options?: AnswerKeyOptions) => {
     setIsProcessing(true);
     
     try {
+      let imagePath = uploadedPathRef.current?.image === uploadedImage ? uploadedPathRef.current.path : null;
+      if (!imagePath) {
+        imagePath = await uploadSheetImage(session.user.id, uploadedImage);
+        uploadedPathRef.current = { image: uploadedImage, path: imagePath };
+      }
+
       const response = await fetch(
         `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/analyze-answer-sheet`,
         {
@@ -91,11 +133,18 @@ const IndexContent = ({ session }: { session: Session }) => {
             "Authorization": `Bearer ${session.access_token}`,
           },
           body: JSON.stringify({
-            image: uploadedImage,
+            imagePath,
             answerKey: correctAnswers,
             gridConfig,
             detectRollNumber,
             detectSubjectCode,
+            markingScheme: options?.markingScheme,
+            questionTypes: options?.questionTypes,
+            optionSet: options?.optionSet,
+            paperSets: options?.paperSets,
+            answerKeyId: options?.answerKeyId,
+            consensus: options?.consensus,
+            bubbleSheet: options?.bubbleSheet,
           }),
         }
       );
@@ -116,8 +165,8 @@ const IndexContent = ({ session }: { session: Session }) => {
 
       const result = await response.json();
 
-      // Show soft-fail warnings for roll number / subject code
-      const warnings = [result.rollNumberWarning, result.subjectCodeWarning].filter(Boolean);
+      // Show soft-fail warnings for roll number / subject code / set code
+      const warnings = [result.rollNumberWarning, result.subjectCodeWarning, result.setCodeWarning].filter(Boolean);
       if (warnings.length > 0) {
         toast({
           title: "Detection Warning",
@@ -127,14 +176,28 @@ const IndexContent = ({ session }: { session: Session }) => {
       }
       
       const evaluationResult: EvaluationResult = {
+        evaluationId: result.evaluationId ?? undefined,
         extractedAnswers: result.extractedAnswers,
         correctAnswers: result.correctAnswers,
         rollNumber: result.rollNumber,
         subjectCode: result.subjectCode,
+        setCode: result.setCode,
+        paperSet: result.paperSet,
+        awaitingPaperSet: result.awaitingPaperSet,
         gridConfig: result.gridConfig,
         score: result.score,
         totalQuestions: result.totalQuestions,
         accuracy: result.accuracy,
+        correctCount: result.correctCount,
+        wrongCount: result.wrongCount,
+        bonusCount: result.bonusCount,
+        droppedCount: result.droppedCount,
+        rawMarks: result.rawMarks,
+        penaltyMarks: result.penaltyMarks,
+        maxMarks: result.maxMarks,
+        markingScheme: result.markingScheme,
+        questionTypes: result.questionTypes,
+        optionSet: result.optionSet,
         confidence: result.confidence,
         imageQuality: result.imageQuality,
         lowConfidenceCount: result.lowConfidenceCount,
@@ -143,63 +206,26 @@ const IndexContent = ({ session }: { session: Session }) => {
         metadata: result.metadata,
       };
       
-      // Upload image to storage
-      let imageStorageUrl = '';
-      try {
-        const base64Data = uploadedImage!.split(',')[1];
-        const binaryData = atob(base64Data);
-        const bytes = new Uint8Array(binaryData.length);
-        for (let i = 0; i < binaryData.length; i++) {
-          bytes[i] = binaryData.charCodeAt(i);
-        }
-        const blob = new Blob([bytes], { type: 'image/jpeg' });
-        const fileName = `${session.user.id}/${Date.now()}.jpg`;
-        const { error: uploadError } = await supabase.storage
-          .from('answer-sheets')
-          .upload(fileName, blob, { contentType: 'image/jpeg', upsert: false });
-
-        if (!uploadError) {
-          const { data: signedUrlData } = await supabase.storage
-            .from('answer-sheets')
-            .createSignedUrl(fileName, 60 * 60 * 24 * 365);
-          imageStorageUrl = signedUrlData?.signedUrl || fileName;
-        } else {
-          imageStorageUrl = 'storage-upload-failed';
-        }
-      } catch {
-        imageStorageUrl = 'storage-upload-failed';
-      }
-
-      // Save evaluation to database
-      const { error: dbError } = await supabase
-        .from('evaluations')
-        .insert({
-          user_id: session.user.id,
-          image_url: imageStorageUrl,
-          answer_key: correctAnswers,
-          extracted_answers: result.extractedAnswers,
-          correct_answers: result.correctAnswers,
-          roll_number: result.rollNumber,
-          subject_code: result.subjectCode,
-          grid_rows: gridConfig?.rows,
-          grid_columns: gridConfig?.columns,
-          score: result.score,
-          total_questions: result.totalQuestions,
-          accuracy: result.accuracy,
-          confidence: result.confidence,
-          low_confidence_count: result.lowConfidenceCount,
-          detailed_results: result.detailedResults,
-        });
-      
-      if (dbError) {
+      // The analyzer stores the sheet itself; a missing id means it couldn't
+      if (!result.evaluationId) {
         toast({
           title: "Warning",
-          description: "Evaluation completed but couldn't save to database",
+          description: result.saveError || "Evaluation completed but couldn't save to database",
           variant: "destructive",
         });
       }
       
       setEvaluationResult(evaluationResult);
+      setPaperSets(options?.paperSets);
+      setDuplicateOf(result.conflictWith ?? null);
+
+      if (result.awaitingPaperSet) {
+        toast({
+          title: "Pick the paper set",
+          description: "The sheet was saved without a score until its set is picked",
+        });
+        return;
+      }
       
       const rollInfo = result.rollNumber ? ` | Roll: ${result.rollNumber}` : "";
       const subjectInfo = result.subjectCode ? ` | Subject: ${result.subjectCode}` : "";
@@ -208,7 +234,7 @@ const IndexContent = ({ session }: { session: Session }) => {
       
       toast({
         title: "Evaluation complete!",
-        description: `Score: ${result.score}/${result.totalQuestions} (${result.accuracy}%)${rollInfo}${subjectInfo} - ${confidenceText}`,
+        description: `Score: ${result.score}/${result.maxMarks ?? result.totalQuestions} (${result.accuracy}%)${rollInfo}${subjectInfo} - ${confidenceText}`,
       });
     } catch (error) {
       toast({
@@ -221,10 +247,58 @@ const IndexContent = ({ session }: { session: Session }) => {
     }
   };
 
+  const handleDuplicateResolved = (choice: DuplicateChoice) => {
+    // The scan on screen was discarded, so it can no longer be corrected
+    if (choice === 'keep-old') {
+      setEvaluationResult(prev => prev && { ...prev, evaluationId: undefined });
+    }
+    toast(DUPLICATE_OUTCOMES[choice]);
+  };
+
+  const handlePickSet = async (code: string) => {
+    const set = paperSets?.find(entry => entry.code === code);
+    if (!evaluationResult?.evaluationId || !set) return;
+    try {
+      const { summary, fields } = await callGradeFunction<GradedResponse>('assign-paper-set', {
+        evaluationId: evaluationResult.evaluationId, code, paperSets,
+      });
+      setEvaluationResult({
+        ...evaluationResult,
+        awaitingPaperSet: false,
+        paperSet: code,
+        correctAnswers: set.answers,
+        extractedAnswers: fields.extracted_answers,
+        detailedResults: fields.detailed_results,
+        score: summary.netMarks,
+        totalQuestions: summary.scoredQuestions,
+        accuracy: summary.accuracy,
+        correctCount: summary.correctCount,
+        wrongCount: summary.wrongCount,
+        bonusCount: summary.bonusCount,
+        droppedCount: summary.droppedCount,
+        rawMarks: summary.rawMarks,
+        penaltyMarks: summary.penaltyMarks,
+        maxMarks: summary.maxMarks,
+      });
+      toast({
+        title: `Graded as set ${code}`,
+        description: `Score: ${summary.netMarks}/${summary.maxMarks}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Couldn't grade sheet",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleReset = () => {
     setUploadedImage(null);
     setAnswerKey([]);
     setEvaluationResult(null);
+    setPaperSets(undefined);
+    setDuplicateOf(null);
     setIsProcessing(false);
   };
 
@@ -361,6 +435,8 @@ const IndexContent = ({ session }: { session: Session }) => {
                 )}
               </div>
             )}
+
+            {isBatchMode && <ActiveBatchJobs />}
           </div>
         </Card>
 
@@ -389,17 +465,34 @@ const IndexContent = ({ session }: { session: Session }) => {
               isProcessing={isProcessing}
             />
             
-            {evaluationResult && (
+            {evaluationResult?.awaitingPaperSet && (
+              <PaperSetPrompt
+                setCode={evaluationResult.setCode}
+                codes={(paperSets ?? []).map(set => set.code)}
+                onPick={handlePickSet}
+              />
+            )}
+
+            {evaluationResult && !evaluationResult.awaitingPaperSet && (
               <Suspense fallback={<div className="animate-pulse h-64 bg-muted rounded-lg" />}>
                 <ResultsDashboard 
                   result={evaluationResult}
                   uploadedImage={uploadedImage}
                   onReset={handleReset}
+                  onResultChange={setEvaluationResult}
                 />
               </Suspense>
             )}
           </>
         )}
+
+        <DuplicateCompareDialog
+          open={duplicateOf !== null}
+          onOpenChange={(open) => !open && setDuplicateOf(null)}
+          rescanId={evaluationResult?.evaluationId ?? null}
+          existingId={duplicateOf}
+          onResolved={handleDuplicateResolved}
+        />
       </main>
     </div>
   );
@@ -0,0 +1,396 @@
+import { useState, useEffect, useMemo } from "react";
+import { useNavigate } from "react-router-dom";
+import { Session } from "@supabase/supabase-js";
+import AuthGuard from "@/components/AuthGuard";
+import CellCrop from "@/components/CellCrop";
+import CorrectionDialog from "@/components/CorrectionDialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ArrowLeft, Filter, Calendar, Check, Pencil, Loader2, Keyboard, ClipboardCheck } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { useSheetImageUrls } from "@/hooks/useSheetImageUrls";
+import { format } from "date-fns";
+import type { Json } from "@/integrations/supabase/types";
+import { describeQuestionSpec, isUnattemptedAnswer } from "@shared/scoring";
+import { optionsForSpec } from "@/lib/answerKey";
+import { applyCorrection, formatCorrectionAnswer } from "@/lib/corrections";
+import { confirmAnswers, fetchReviewQueue, reviewCells, type ReviewCell, type ReviewSheet } from "@/lib/reviewQueue";
+
+const DEFAULT_REASON = "Checked against the sheet image in the review queue";
+
+// Cells keep their identity while their sheet is unchanged, so crops aren't redrawn
+const cellsBySheet = new WeakMap<ReviewSheet, ReviewCell[]>();
+const cellsFor = (sheet: ReviewSheet) => {
+  let cells = cellsBySheet.get(sheet);
+  if (!cells) {
+    cells = reviewCells(sheet);
+    cellsBySheet.set(sheet, cells);
+  }
+  return cells;
+};
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+const ReviewContent = ({ session }: { session: Session }) => {
+  const [sheets, setSheets] = useState<ReviewSheet[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedSubject, setSelectedSubject] = useState<string>("all");
+  const [selectedBatch, setSelectedBatch] = useState<string>("all");
+  const [selectedDate, setSelectedDate] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [reason, setReason] = useState(DEFAULT_REASON);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+  const [editingCell, setEditingCell] = useState<ReviewCell | null>(null);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        setSheets(await fetchReviewQueue(session.user.id));
+      } catch (error) {
+        console.error('Error loading review queue:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load the review queue",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, [session.user.id]);
+
+  const cells = useMemo(() => sheets.flatMap(cellsFor), [sheets]);
+  const imageUrls = useSheetImageUrls(sheets.map(s => s.image_url));
+
+  const subjects = useMemo(
+    () => [...new Set(sheets.map(s => s.subject_code).filter(Boolean) as string[])].sort(),
+    [sheets]
+  );
+
+  // A batch is labelled by when its first sheet was saved
+  const batches = useMemo(() => {
+    const started = new Map<string, string>();
+    sheets.forEach(s => {
+      if (!s.batch_id) return;
+      const current = started.get(s.batch_id);
+      if (!current || s.created_at < current) started.set(s.batch_id, s.created_at);
+    });
+    return [...started.entries()].sort((a, b) => b[1].localeCompare(a[1]));
+  }, [sheets]);
+
+  const queue = useMemo(() => cells.filter(cell => {
+    if (selectedSubject !== "all" && cell.sheet.subject_code !== selectedSubject) return false;
+    if (selectedBatch !== "all" && cell.sheet.batch_id !== selectedBatch) return false;
+    if (selectedDate && format(new Date(cell.sheet.created_at), 'yyyy-MM-dd') !== selectedDate) return false;
+    return true;
+  }), [cells, selectedSubject, selectedBatch, selectedDate]);
+
+  const active = queue[Math.min(activeIndex, queue.length - 1)];
+
+  useEffect(() => {
+    if (activeIndex >= queue.length && queue.length > 0) setActiveIndex(queue.length - 1);
+  }, [activeIndex, queue.length]);
+
+  useEffect(() => {
+    if (active) document.getElementById(`review-${active.key}`)?.scrollIntoView({ block: 'nearest' });
+  }, [active]);
+
+  const updateSheet = (id: string, changes: Partial<ReviewSheet>) =>
+    setSheets(prev => prev.map(s => (s.id === id ? { ...s, ...changes } : s)));
+
+  const handleConfirm = async (cell: ReviewCell) => {
+    setSavingKey(cell.key);
+    try {
+      const detailedResults = await confirmAnswers(cell.sheet.id, [cell.question]);
+      updateSheet(cell.sheet.id, { detailed_results: detailedResults });
+    } catch (error) {
+      toast({
+        title: "Couldn't confirm answer",
+        description: error instanceof Error ? error.message : "Please try again",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  const handleCorrect = async (cell: ReviewCell, answer: string, correctionReason: string) => {
+    setSavingKey(cell.key);
+    try {
+      const { summary, fields, extractedAnswers } = await applyCorrection({
+        evaluationId: cell.sheet.id,
+        question: cell.question,
+        answer,
+        reason: correctionReason,
+      });
+      updateSheet(cell.sheet.id, {
+        extracted_answers: extractedAnswers,
+        detailed_results: fields.detailed_results as unknown as Json,
+      });
+      toast({
+        title: `Q${cell.question} corrected to ${formatCorrectionAnswer(answer)}`,
+        description: `${cell.sheet.roll_number || 'Sheet'} now scores ${summary.netMarks}/${summary.maxMarks}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Correction failed",
+        description: error instanceof Error ? error.message : "Couldn't save the correction",
+        variant: "destructive",
+      });
+      throw error;
+    } finally {
+      setSavingKey(null);
+    }
+  };
+
+  // Keystroke on an option: confirm if it matches what was read, otherwise correct to it
+  const handleQuickAnswer = (cell: ReviewCell, answer: string) => {
+    const unchanged = answer === '' ? isUnattemptedAnswer(cell.extracted) : answer === cell.extracted;
+    if (unchanged) {
+      handleConfirm(cell);
+    } else if (!reason.trim()) {
+      setEditingCell(cell);
+    } else {
+      handleCorrect(cell, answer, reason.trim()).catch(() => undefined);
+    }
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (editingCell || savingKey || !active || e.metaKey || e.ctrlKey || e.altKey || isTyping(e.target)) return;
+      const key = e.key.toUpperCase();
+
+      if (e.key === 'ArrowDown' || key === 'J') {
+        setActiveIndex(i => Math.min(i + 1, queue.length - 1));
+      } else if (e.key === 'ArrowUp' || key === 'K') {
+        setActiveIndex(i => Math.max(i - 1, 0));
+      } else if (e.key === 'Enter') {
+        // A focused button handles Enter itself
+        if (e.target instanceof HTMLButtonElement) return;
+        handleConfirm(active);
+      } else if (e.key === '/') {
+        setEditingCell(active);
+      } else if (e.key === 'Backspace' || e.key === 'Delete') {
+        handleQuickAnswer(active, '');
+      } else if (active.spec.type !== 'multi' && optionsForSpec(active.spec, active.options).includes(key)) {
+        handleQuickAnswer(active, key);
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-gradient-hero text-primary-foreground py-6 px-4">
+        <div className="container mx-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="text-white hover:bg-white/10"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-2xl md:text-3xl font-bold">Review Queue</h1>
+                <p className="text-sm text-primary-foreground/80">Confirm or correct low-confidence answers</p>
+              </div>
+            </div>
+            <div className="text-sm">
+              <span className="text-primary-foreground/80">Waiting: </span>
+              <span className="font-bold">{queue.length}</span>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8">
+        {/* Filters */}
+        <Card className="mb-6">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filters
+            </CardTitle>
+            <CardDescription>Narrow the queue by subject, batch, or date</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Subject Code</label>
+                <Select value={selectedSubject} onValueChange={(value) => { setSelectedSubject(value); setActiveIndex(0); }}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All subjects" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background z-50">
+                    <SelectItem value="all">All subjects</SelectItem>
+                    {subjects.map(subject => (
+                      <SelectItem key={subject} value={subject}>{subject}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Batch</label>
+                <Select value={selectedBatch} onValueChange={(value) => { setSelectedBatch(value); setActiveIndex(0); }}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="All batches" />
+                  </SelectTrigger>
+                  <SelectContent className="bg-background z-50">
+                    <SelectItem value="all">All batches</SelectItem>
+                    {batches.map(([id, startedAt]) => (
+                      <SelectItem key={id} value={id}>Batch of {format(new Date(startedAt), 'MMM dd, yyyy HH:mm')}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Date</label>
+                <div className="relative">
+                  <Calendar className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground z-10 pointer-events-none" />
+                  <Input
+                    type="date"
+                    value={selectedDate}
+                    onChange={(e) => { setSelectedDate(e.target.value); setActiveIndex(0); }}
+                    className="pl-9"
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div className="mt-4 space-y-2">
+              <label htmlFor="review-reason" className="text-sm font-medium">Reason recorded for keyboard corrections</label>
+              <Input id="review-reason" value={reason} onChange={(e) => setReason(e.target.value)} />
+            </div>
+
+            <p className="mt-4 flex items-start gap-2 text-xs text-muted-foreground">
+              <Keyboard className="h-4 w-4 shrink-0" />
+              <span>
+                <kbd className="font-mono">↑</kbd>/<kbd className="font-mono">↓</kbd> or <kbd className="font-mono">J</kbd>/<kbd className="font-mono">K</kbd> move ·{' '}
+                <kbd className="font-mono">Enter</kbd> confirms the answer as read · an option key corrects to that option ·{' '}
+                <kbd className="font-mono">Backspace</kbd> marks it blank · <kbd className="font-mono">/</kbd> opens the full editor
+              </span>
+            </p>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : queue.length === 0 ? (
+          <Card>
+            <CardContent className="py-16 text-center text-muted-foreground">
+              <ClipboardCheck className="h-10 w-10 mx-auto mb-3 text-success" />
+              {cells.length === 0 ? "No low-confidence answers left to review" : "Nothing to review for these filters"}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-2">
+            {queue.map((cell, index) => {
+              const isActive = cell === active;
+              return (
+                <div
+                  key={cell.key}
+                  id={`review-${cell.key}`}
+                  onClick={() => setActiveIndex(index)}
+                  className={`flex flex-wrap items-center gap-4 p-3 rounded-lg border-2 cursor-pointer transition-all ${
+                    isActive ? 'border-primary bg-primary/5 shadow-sm' : 'border-border hover:border-primary/40'
+                  }`}
+                >
+                  <CellCrop imageUrl={imageUrls[cell.sheet.image_url] ?? null} region={cell.region} />
+
+                  <div className="min-w-[140px]">
+                    <div className="text-xs text-muted-foreground">
+                      Q{cell.question}
+                      {cell.spec.type !== 'single' && <span className="ml-1 text-primary">{describeQuestionSpec(cell.spec)}</span>}
+                    </div>
+                    <div className="text-3xl font-bold font-mono">{formatCorrectionAnswer(cell.extracted)}</div>
+                    <div className="text-xs text-muted-foreground">Key {cell.correct}</div>
+                  </div>
+
+                  <div className="flex-1 min-w-[160px] text-sm">
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-mono font-semibold">{cell.sheet.roll_number || 'No roll number'}</span>
+                      {cell.sheet.subject_code && <Badge variant="outline">{cell.sheet.subject_code}</Badge>}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      {format(new Date(cell.sheet.created_at), 'MMM dd, yyyy HH:mm')}
+                    </div>
+                    {cell.note && <div className="text-xs text-muted-foreground mt-1">{cell.note}</div>}
+                    {cell.readings.length > 1 && (
+                      <div className="text-xs text-muted-foreground mt-1">
+                        {cell.readings.map(reading => `${reading.reader}: ${reading.answer || '–'}`).join(' · ')}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      disabled={savingKey === cell.key}
+                      onClick={(e) => { e.stopPropagation(); setEditingCell(cell); }}
+                      className="gap-1"
+                    >
+                      <Pencil className="h-3.5 w-3.5" />
+                      Correct
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={savingKey === cell.key}
+                      onClick={(e) => { e.stopPropagation(); handleConfirm(cell); }}
+                      className="gap-1"
+                    >
+                      {savingKey === cell.key ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Check className="h-3.5 w-3.5" />}
+                      Confirm
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+
+      {editingCell && (
+        <CorrectionDialog
+          open={!!editingCell}
+          onOpenChange={(open) => !open && setEditingCell(null)}
+          question={editingCell.question}
+          extracted={editingCell.extracted}
+          correct={editingCell.correct}
+          spec={editingCell.spec}
+          options={editingCell.options}
+          history={[]}
+          onSubmit={(answer, correctionReason) => handleCorrect(editingCell, answer, correctionReason)}
+        />
+      )}
+    </div>
+  );
+};
+
+const Review = () => (
+  <AuthGuard>
+    {(session) => <ReviewContent session={session} />}
+  </AuthGuard>
+);
+
+export default Review;
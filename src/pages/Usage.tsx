@@ -0,0 +1,214 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import AuthGuard from "@/components/AuthGuard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import { ArrowLeft, Gauge, Building2, User, BarChart3, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { format, formatDistanceToNow, parseISO } from "date-fns";
+import {
+  QUOTA_PERIOD_LABELS,
+  fetchDailyUsage,
+  fetchOrganizationName,
+  fetchQuotaStatus,
+  type DailyUsage,
+  type QuotaStatus,
+} from "@/lib/usage";
+
+const HISTORY_DAYS = 30;
+
+// Every day of the window, oldest first, including the ones with no sheets
+const fillDays = (usage: DailyUsage[]) => {
+  const counts = new Map(usage.map(entry => [entry.day, entry.sheets]));
+  return Array.from({ length: HISTORY_DAYS }, (_, i) => {
+    const day = new Date(Date.now() - (HISTORY_DAYS - 1 - i) * 86400000).toISOString().slice(0, 10);
+    return { day, sheets: counts.get(day) ?? 0 };
+  });
+};
+
+const QuotaRow = ({ status }: { status: QuotaStatus }) => {
+  const remaining = Math.max(0, status.quota_limit - status.used);
+  const percent = status.quota_limit > 0 ? Math.min(100, (status.used / status.quota_limit) * 100) : 0;
+  return (
+    <div className="space-y-1.5">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-medium">{QUOTA_PERIOD_LABELS[status.period] ?? status.period}</span>
+        <span className="text-muted-foreground">
+          {status.used} / {status.quota_limit} sheets
+        </span>
+      </div>
+      <Progress value={percent} className={remaining === 0 ? '[&>div]:bg-destructive' : undefined} />
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>{remaining === 0 ? 'Limit reached' : `${remaining} left`}</span>
+        {status.period !== 'minute' && (
+          <span>Resets {formatDistanceToNow(new Date(status.resets_at), { addSuffix: true })}</span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+const UsageContent = () => {
+  const [quotas, setQuotas] = useState<QuotaStatus[]>([]);
+  const [daily, setDaily] = useState<DailyUsage[]>([]);
+  const [organization, setOrganization] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        setLoading(true);
+        const [quotaStatus, dailyUsage, organizationName] = await Promise.all([
+          fetchQuotaStatus(),
+          fetchDailyUsage(HISTORY_DAYS),
+          fetchOrganizationName(),
+        ]);
+        setQuotas(quotaStatus);
+        setDaily(dailyUsage);
+        setOrganization(organizationName);
+      } catch (error) {
+        console.error('Error loading usage:', error);
+        toast({
+          title: "Error",
+          description: "Failed to load usage",
+          variant: "destructive",
+        });
+      } finally {
+        setLoading(false);
+      }
+    };
+    load();
+  }, []);
+
+  const userQuotas = quotas.filter(q => q.scope === 'user');
+  const organizationQuotas = quotas.filter(q => q.scope === 'organization');
+  const days = fillDays(daily);
+  const busiest = Math.max(1, ...days.map(d => d.sheets));
+  const monthUsed = userQuotas.find(q => q.period === 'month')?.used ?? 0;
+  const todayUsed = userQuotas.find(q => q.period === 'day')?.used ?? 0;
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="bg-gradient-hero text-primary-foreground py-6 px-4">
+        <div className="container mx-auto">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => navigate('/')}
+                className="text-white hover:bg-white/10"
+              >
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+              <div>
+                <h1 className="text-2xl md:text-3xl font-bold">Usage</h1>
+                <p className="text-sm text-primary-foreground/80">Sheets graded and quota left</p>
+              </div>
+            </div>
+            <div className="text-sm text-right">
+              <div>
+                <span className="text-primary-foreground/80">Today: </span>
+                <span className="font-bold">{todayUsed}</span>
+              </div>
+              <div>
+                <span className="text-primary-foreground/80">This month: </span>
+                <span className="font-bold">{monthUsed}</span>
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 space-y-6">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <User className="h-5 w-5" />
+                    Your quota
+                  </CardTitle>
+                  <CardDescription>Each sheet graded and saved counts once, including rescans; failed reads are not charged</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-5">
+                  {userQuotas.map(status => <QuotaRow key={status.period} status={status} />)}
+                </CardContent>
+              </Card>
+
+              {organization && (
+                <Card>
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <Building2 className="h-5 w-5" />
+                      {organization}
+                      <Badge variant="secondary">Organization</Badge>
+                    </CardTitle>
+                    <CardDescription>Shared by every member of your organization</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-5">
+                    {organizationQuotas.length > 0
+                      ? organizationQuotas.map(status => <QuotaRow key={status.period} status={status} />)
+                      : <p className="text-sm text-muted-foreground">Your organization sets no extra limits.</p>}
+                  </CardContent>
+                </Card>
+              )}
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <BarChart3 className="h-5 w-5" />
+                  Sheets graded
+                </CardTitle>
+                <CardDescription>Last {HISTORY_DAYS} days (UTC)</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="flex items-end gap-1 h-40">
+                  {days.map(({ day, sheets }) => (
+                    <div
+                      key={day}
+                      className="flex-1 flex flex-col justify-end h-full"
+                      title={`${format(parseISO(day), 'MMM d')}: ${sheets} sheet${sheets !== 1 ? 's' : ''}`}
+                    >
+                      <div
+                        className={`rounded-t ${sheets > 0 ? 'bg-primary' : 'bg-muted'}`}
+                        style={{ height: `${Math.max(2, (sheets / busiest) * 100)}%` }}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-muted-foreground mt-2">
+                  <span>{format(parseISO(days[0].day), 'MMM d')}</span>
+                  <span className="inline-flex items-center gap-1">
+                    <Gauge className="h-3 w-3" />
+                    {days.reduce((sum, d) => sum + d.sheets, 0)} sheets
+                  </span>
+                  <span>{format(parseISO(days[days.length - 1].day), 'MMM d')}</span>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </main>
+    </div>
+  );
+};
+
+const Usage = () => (
+  <AuthGuard>
+    {() => <UsageContent />}
+  </AuthGuard>
+);
+
+export default Usage;
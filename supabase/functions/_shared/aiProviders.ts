@@ -0,0 +1,193 @@
+// AI providers that read sheet photos, for edge functions. AI_PROVIDER picks
+// one per deployment:
+//   lovable  (default) the Lovable AI gateway with LOVABLE_API_KEY
+//   openai   any OpenAI-compatible chat completions endpoint: AI_BASE_URL,
+//            AI_API_KEY and AI_MODEL, optionally AI_AUTH_HEADER for endpoints
+//            that take the key in another header and AI_JSON_MODE=false for
+//            ones without response_format
+//   mock     answers from fixtures, so grading runs offline and reproducibly
+//
+// Mock fixtures come from AI_MOCK_FIXTURES, inline JSON or a path to a JSON
+// file. Replies are keyed by the SHA-256 of the sheet image (as `sha256sum`
+// prints it); a list answers successive calls for the same sheet, so the
+// verification pass can get its own reply, and `default` answers any other
+// sheet. A reply is the model's JSON object, or { "status": 429,
+// "retryAfter": 5 } to play back an error:
+//   { "default": { "answers": [...] }, "sheets": { "<sha256>": [{...}, {...}] } }
+//
+// Consensus mode reads sheets a second time with the provider configured the
+// same way under the AI_CONSENSUS_ prefix (AI_CONSENSUS_PROVIDER, ...).
+
+import { decode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+
+export interface AIProvider {
+  name: string;
+  model: string;
+  /** Sends the prompt with the sheet image and resolves with the model's text reply. */
+  complete(prompt: string, imageUrl: string): Promise<string>;
+}
+
+export class AIProviderError extends Error {
+  constructor(message: string, readonly status: number, readonly retryAfter: number | null = null) {
+    super(message);
+  }
+}
+
+interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  authHeader?: string;  // Defaults to "Authorization: Bearer <key>"
+  jsonMode?: boolean;
+}
+
+// Replies carry content as a string, or as a list of parts on some endpoints
+function replyText(data: { choices?: { message?: { content?: unknown } }[] }): string {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content.map((part) => (typeof part === "string" ? part : (part as { text?: string })?.text ?? "")).join("");
+  }
+  throw new AIProviderError("AI reply had no message content", 502);
+}
+
+function retryAfterSeconds(header: string | null): number | null {
+  const seconds = Number(header);
+  return header && Number.isFinite(seconds) && seconds > 0 ? seconds : null;
+}
+
+export function openAICompatibleProvider(config: OpenAICompatibleConfig): AIProvider {
+  const endpoint = `${config.baseUrl.replace(/\/+$/, "")}/chat/completions`;
+  const auth = config.authHeader
+    ? { [config.authHeader]: config.apiKey }
+    : { Authorization: `Bearer ${config.apiKey}` };
+
+  return {
+    name: config.name,
+    model: config.model,
+    async complete(prompt, imageUrl) {
+      const response = await fetch(endpoint, {
+        method: "POST",
+        headers: { ...auth, "Content-Type": "application/json" },
+        body: JSON.stringify({
+          model: config.model,
+          messages: [
+            {
+              role: "user",
+              content: [
+                { type: "text", text: prompt },
+                { type: "image_url", image_url: { url: imageUrl, detail: "high" } },
+              ],
+            },
+          ],
+          temperature: 0.1,
+          ...(config.jsonMode === false ? {} : { response_format: { type: "json_object" } }),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new AIProviderError(
+          `AI error ${response.status}: ${errorText}`,
+          response.status,
+          retryAfterSeconds(response.headers.get("Retry-After")),
+        );
+      }
+      return replyText(await response.json());
+    },
+  };
+}
+
+type MockReply = Record<string, unknown> | string;
+
+interface MockFixtures {
+  default?: MockReply | MockReply[];
+  sheets?: Record<string, MockReply | MockReply[]>;
+}
+
+async function loadFixtures(source: string | undefined): Promise<MockFixtures> {
+  if (!source) throw new Error("AI_MOCK_FIXTURES is not configured");
+  const text = source.trim().startsWith("{") ? source : await Deno.readTextFile(source);
+  return JSON.parse(text);
+}
+
+async function imageHash(imageUrl: string): Promise<string> {
+  const bytes = imageUrl.startsWith("data:")
+    ? decode(imageUrl.slice(imageUrl.indexOf(",") + 1))
+    : new TextEncoder().encode(imageUrl);
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/** Plays back fixture replies. Call counts are per provider, so make one per request. */
+export function mockProvider(fixtures: MockFixtures): AIProvider {
+  const calls = new Map<string, number>();
+
+  return {
+    name: "mock",
+    model: "mock",
+    async complete(_prompt, imageUrl) {
+      const hash = await imageHash(imageUrl);
+      const entry = fixtures.sheets?.[hash] ?? fixtures.default;
+      if (entry === undefined) throw new AIProviderError(`No mock fixture for sheet ${hash}`, 500);
+
+      const call = calls.get(hash) ?? 0;
+      calls.set(hash, call + 1);
+      // Past the end of a list the last reply repeats
+      const reply = Array.isArray(entry) ? entry[Math.min(call, entry.length - 1)] : entry;
+      const status = typeof reply === "object" ? reply.status : undefined;
+      if (typeof status === "number" && status >= 400) {
+        const retryAfter = typeof reply === "object" && typeof reply.retryAfter === "number" ? reply.retryAfter : null;
+        throw new AIProviderError(`AI error ${status}: mock fixture`, status, retryAfter);
+      }
+      return typeof reply === "string" ? reply : JSON.stringify(reply);
+    },
+  };
+}
+
+function requireEnv(name: string): string {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+}
+
+/**
+ * The provider this deployment is configured for. Settings are read from
+ * `${prefix}_PROVIDER`, `${prefix}_MODEL` and so on, so a second provider can
+ * be configured next to the first under another prefix.
+ */
+export async function getAIProvider(prefix = "AI"): Promise<AIProvider> {
+  const provider = Deno.env.get(`${prefix}_PROVIDER`) ?? "lovable";
+  switch (provider) {
+    case "lovable":
+      return openAICompatibleProvider({
+        name: "lovable",
+        baseUrl: "https://ai.gateway.lovable.dev/v1",
+        apiKey: requireEnv("LOVABLE_API_KEY"),
+        model: Deno.env.get(`${prefix}_MODEL`) ?? "google/gemini-2.5-flash",
+      });
+    case "openai":
+      return openAICompatibleProvider({
+        name: "openai",
+        baseUrl: requireEnv(`${prefix}_BASE_URL`),
+        apiKey: requireEnv(`${prefix}_API_KEY`),
+        model: requireEnv(`${prefix}_MODEL`),
+        authHeader: Deno.env.get(`${prefix}_AUTH_HEADER`) || undefined,
+        jsonMode: Deno.env.get(`${prefix}_JSON_MODE`) !== "false",
+      });
+    case "mock":
+      return mockProvider(await loadFixtures(Deno.env.get(`${prefix}_MOCK_FIXTURES`)));
+    default:
+      throw new Error(`Unknown ${prefix}_PROVIDER "${provider}"`);
+  }
+}
+
+/**
+ * The second reader for consensus mode: the provider configured under
+ * AI_CONSENSUS_PROVIDER (with AI_CONSENSUS_MODEL and so on), or else the
+ * primary provider again for an independent second pass.
+ */
+export async function getConsensusProvider(primary: AIProvider): Promise<AIProvider> {
+  return Deno.env.get("AI_CONSENSUS_PROVIDER") ? await getAIProvider("AI_CONSENSUS") : primary;
+}
@@ -0,0 +1,49 @@
+// Supabase clients for edge functions. Not imported by the app.
+
+import { createClient, type SupabaseClient, type User } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+
+/** Bypasses row level security; every query must scope rows to the caller itself. */
+export function createServiceClient(): SupabaseClient {
+  const url = Deno.env.get("SUPABASE_URL");
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  if (!url || !serviceKey) throw new Error("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is not configured");
+  return createClient(url, serviceKey, { auth: { persistSession: false } });
+}
+
+/** The signed-in user behind the request's bearer token, or null. */
+export async function getRequestUser(req: Request): Promise<User | null> {
+  const authHeader = req.headers.get("Authorization");
+  const url = Deno.env.get("SUPABASE_URL");
+  const anonKey = Deno.env.get("SUPABASE_ANON_KEY");
+  if (!authHeader || !url || !anonKey) return null;
+
+  const client = createClient(url, anonKey, {
+    global: { headers: { Authorization: authHeader } },
+    auth: { persistSession: false },
+  });
+  const { data, error } = await client.auth.getUser();
+  return error ? null : data.user;
+}
+
+/** True for requests made with the service role key: other functions and scheduled jobs. */
+export function isServiceCall(req: Request): boolean {
+  const serviceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY");
+  return !!serviceKey && req.headers.get("Authorization") === `Bearer ${serviceKey}`;
+}
+
+/**
+ * Functions call each other with the service role key and name the user they
+ * act for in a header. Returns that user's id for such calls, otherwise null.
+ */
+export function getServiceCallerUserId(req: Request): string | null {
+  return isServiceCall(req) ? req.headers.get("x-acting-user-id") : null;
+}
+
+/** Headers for calling another function on behalf of a user. */
+export function serviceCallHeaders(userId: string): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "Authorization": `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+    "x-acting-user-id": userId,
+  };
+}
@@ -0,0 +1,52 @@
+// Where each answer was read on the uploaded photo. Boxes are axis-aligned and
+// stored as fractions of the image's width and height (0–1), so they stay
+// valid whatever size the image is displayed or re-encoded at.
+
+import type { Point } from "./vision.ts";
+
+export interface CellBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/** Bounding box of image points (pixels), normalized by the image size. */
+export function boxFromPoints(points: Point[], imageWidth: number, imageHeight: number): CellBox | null {
+  if (points.length === 0 || !imageWidth || !imageHeight) return null;
+  const xs = points.map((p) => clamp01(p.x / imageWidth));
+  const ys = points.map((p) => clamp01(p.y / imageHeight));
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  const width = Math.max(...xs) - x;
+  const height = Math.max(...ys) - y;
+  return width > 0 && height > 0 ? { x: round4(x), y: round4(y), width: round4(width), height: round4(height) } : null;
+}
+
+/**
+ * Reads a box the model returned as [ymin, xmin, ymax, xmax] on a 0–1000
+ * scale. Anything malformed or empty is dropped rather than guessed.
+ */
+export function boxFromModel(raw: unknown): CellBox | null {
+  if (!Array.isArray(raw) || raw.length !== 4) return null;
+  const values = raw.map(Number);
+  if (values.some((v) => !Number.isFinite(v))) return null;
+  const [ymin, xmin, ymax, xmax] = values.map((v) => clamp01(v / 1000));
+  if (xmax <= xmin || ymax <= ymin) return null;
+  return { x: round4(xmin), y: round4(ymin), width: round4(xmax - xmin), height: round4(ymax - ymin) };
+}
+
+/** Validates a stored box; used when boxes come back from the database. */
+export function normalizeCellBox(input: unknown): CellBox | null {
+  if (!input || typeof input !== "object") return null;
+  const { x, y, width, height } = input as Record<string, unknown>;
+  const values = [x, y, width, height];
+  if (!values.every((v) => typeof v === "number" && Number.isFinite(v))) return null;
+  const box = { x: x as number, y: y as number, width: width as number, height: height as number };
+  return box.width > 0 && box.height > 0 && box.x >= 0 && box.y >= 0 && box.x + box.width <= 1.0001 && box.y + box.height <= 1.0001
+    ? box
+    : null;
+}
@@ -0,0 +1,247 @@
+// Re-scoring of stored evaluations from their extracted answers. Used by the
+// grade-evaluations function to write scores and by the app to preview them;
+// no image or AI call is involved.
+
+import {
+  BONUS_KEY,
+  DROPPED_KEY,
+  isUnattemptedAnswer,
+  isValidKeyEntry,
+  normalizeMarkingScheme,
+  normalizeOptionSet,
+  normalizeQuestionTypes,
+  normalizeResponse,
+  scoreAnswers,
+  specForQuestion,
+  type MarkingScheme,
+  type QuestionSpec,
+  type QuestionStatus,
+  type QuestionType,
+  type ScoreSummary,
+} from "./scoring.ts";
+import { findPaperSet, normalizePaperSets, type PaperSet } from "./paperSets.ts";
+import type { CellBox } from "./cellBoxes.ts";
+
+/** One reader's answer to a question in consensus mode. */
+export interface QuestionReading {
+  reader: string;  // Provider and model, or which pass
+  answer: string;
+}
+
+/** Per-question details kept from the original analysis when a sheet is re-scored. */
+export interface StoredDetail {
+  question: number;
+  confidence?: string;
+  note?: string;
+  source?: "omr" | "ai" | "manual";
+  reviewed?: boolean;  // A teacher confirmed or corrected this answer
+  box?: CellBox | null;
+  readings?: QuestionReading[];  // Both readings, when consensus readers disagreed
+}
+
+export interface GradedDetail extends StoredDetail {
+  extracted: string;
+  correct: string;
+  isCorrect: boolean;
+  confidence: string;
+  note: string;
+  status: QuestionStatus;
+  marks: number;
+  source: "omr" | "ai" | "manual";
+  type: QuestionType;
+}
+
+/** Score columns of an evaluation, as written after grading. */
+export interface GradedFields {
+  extracted_answers: string[];
+  score: number;
+  total_questions: number;
+  accuracy: number;
+  correct_count: number;
+  wrong_count: number;
+  raw_marks: number;
+  penalty_marks: number;
+  max_marks: number;
+  low_confidence_count: number;
+  detailed_results: GradedDetail[];
+}
+
+/** Low-confidence answers nobody has looked at yet; these make up the review queue. */
+export const needsReview = (detail: StoredDetail) => detail.confidence === "low" && !detail.reviewed;
+
+const storedDetails = (input: unknown): StoredDetail[] => (Array.isArray(input) ? (input as StoredDetail[]) : []);
+
+/**
+ * Scores extracted answers and builds the graded columns of an evaluation.
+ * Per-question confidence, notes, source and box are carried over from
+ * `previous`; `overrides` replaces them for questions that were changed by hand.
+ */
+export function gradeStoredAnswers(
+  extracted: string[],
+  answerKey: string[],
+  scheme: MarkingScheme,
+  questionTypes: QuestionSpec[] | undefined,
+  previous: unknown,
+  overrides: Map<number, Partial<StoredDetail>> = new Map(),
+): { summary: ScoreSummary; fields: GradedFields } {
+  const summary = scoreAnswers(extracted, answerKey, scheme, questionTypes);
+  const priorByQuestion = new Map(storedDetails(previous).map((d) => [d.question, d]));
+
+  const detailedResults: GradedDetail[] = extracted.map((answer, index) => {
+    const outcome = summary.outcomes[index];
+    const detail = { ...priorByQuestion.get(index + 1), ...overrides.get(index + 1) };
+    return {
+      question: index + 1,
+      extracted: isUnattemptedAnswer(answer) ? "UNATTEMPTED" : answer,
+      correct: answerKey[index],
+      isCorrect: outcome.status === "correct" || outcome.status === "bonus",
+      confidence: detail.confidence || "unknown",
+      note: detail.note || "",
+      status: outcome.status,
+      marks: outcome.marks,
+      source: detail.source || "ai",
+      type: specForQuestion(questionTypes, index).type,
+      ...(detail.reviewed ? { reviewed: true } : {}),
+      ...(detail.box ? { box: detail.box } : {}),
+      ...(detail.readings ? { readings: detail.readings } : {}),
+    };
+  });
+
+  return {
+    summary,
+    fields: {
+      extracted_answers: extracted,
+      score: summary.netMarks,
+      total_questions: summary.scoredQuestions,
+      accuracy: summary.accuracy,
+      correct_count: summary.correctCount,
+      wrong_count: summary.wrongCount,
+      raw_marks: summary.rawMarks,
+      penalty_marks: summary.penaltyMarks,
+      max_marks: summary.maxMarks,
+      low_confidence_count: detailedResults.filter(needsReview).length,
+      detailed_results: detailedResults,
+    },
+  };
+}
+
+/** The grading settings of a saved answer key, as stored. */
+export interface StoredKey {
+  answers: string[];
+  marking_scheme: unknown;
+  question_types: unknown;
+  option_set: string[] | null;
+  paper_sets: unknown;
+}
+
+export interface StoredSheet {
+  extracted_answers: string[] | null;
+  detailed_results: unknown;
+  paper_set: string | null;
+}
+
+/**
+ * Re-scores a stored sheet against the current version of its key. Sheets
+ * graded against a paper set keep using that set's answers.
+ */
+export function regradeSheet(row: StoredSheet, key: StoredKey) {
+  const paperSet = findPaperSet(normalizePaperSets(key.paper_sets, key.answers.length), row.paper_set);
+  const answerKey = paperSet?.answers ?? key.answers;
+  const scheme = normalizeMarkingScheme(key.marking_scheme);
+  const questionTypes = normalizeQuestionTypes(key.question_types, answerKey.length);
+
+  // The key may have gained or lost questions since the sheet was graded
+  const extracted = [...(row.extracted_answers || [])];
+  while (extracted.length < answerKey.length) extracted.push("?");
+  extracted.length = answerKey.length;
+
+  const { summary, fields } = gradeStoredAnswers(extracted, answerKey, scheme, questionTypes, row.detailed_results);
+  return {
+    summary,
+    update: {
+      ...fields,
+      answer_key: answerKey,
+      correct_answers: answerKey,
+      marking_scheme: scheme,
+      question_types: questionTypes ?? null,
+      option_set: key.option_set,
+    },
+  };
+}
+
+/** Re-scores a sheet whose set code could not be read against the set a teacher picked. */
+export function gradeWithSet(
+  row: StoredSheet & { marking_scheme: unknown; question_types: unknown },
+  set: PaperSet,
+) {
+  const questionTypes = normalizeQuestionTypes(row.question_types, set.answers.length);
+  const extracted = Array.from({ length: set.answers.length }, (_, i) => row.extracted_answers?.[i] ?? "?");
+  const { summary, fields } = gradeStoredAnswers(
+    extracted, set.answers, normalizeMarkingScheme(row.marking_scheme), questionTypes, row.detailed_results);
+  return {
+    summary,
+    update: { ...fields, answer_key: set.answers, correct_answers: set.answers, paper_set: set.code },
+  };
+}
+
+/**
+ * True for a response a student could have marked: one option (or a set of
+ * options on multi-select questions), a number, T/F, or blank.
+ */
+export function isValidCorrection(answer: string, options: string[], spec: QuestionSpec): boolean {
+  if (answer === "") return true;
+  if (answer.includes("|") || answer === BONUS_KEY || answer === DROPPED_KEY) return false;
+  return isValidKeyEntry(answer, options, spec);
+}
+
+export interface CorrectableSheet {
+  extracted_answers: string[] | null;
+  correct_answers: string[];
+  marking_scheme: unknown;
+  question_types: unknown;
+  option_set: string[] | null;
+  detailed_results: unknown;
+}
+
+/**
+ * Overrides one extracted answer (question is 1-based, "" for blank) and
+ * re-scores the sheet with the key, marking and question types stored on it.
+ * Throws when the answer is not valid for the question or nothing changes.
+ */
+export function correctSheet(row: CorrectableSheet, question: number, answer: string, reason: string) {
+  const answerKey = row.correct_answers;
+  if (!Number.isInteger(question) || question < 1 || question > answerKey.length) {
+    throw new Error(`Question ${question} is not on this sheet`);
+  }
+
+  const questionTypes = normalizeQuestionTypes(row.question_types, answerKey.length);
+  const spec = specForQuestion(questionTypes, question - 1);
+  const newAnswer = answer === "" ? "" : normalizeResponse(answer, spec);
+  if (!isValidCorrection(newAnswer, normalizeOptionSet(row.option_set), spec)) {
+    throw new Error(`"${answer}" is not a valid answer for question ${question}`);
+  }
+
+  const extracted = Array.from({ length: answerKey.length }, (_, i) => row.extracted_answers?.[i] ?? "?");
+  const originalAnswer = extracted[question - 1];
+  if (isUnattemptedAnswer(originalAnswer) ? newAnswer === "" : normalizeResponse(originalAnswer, spec) === newAnswer) {
+    throw new Error(`Question ${question} already reads ${newAnswer || "blank"}`);
+  }
+  extracted[question - 1] = newAnswer;
+
+  const graded = gradeStoredAnswers(
+    extracted,
+    answerKey,
+    normalizeMarkingScheme(row.marking_scheme),
+    questionTypes,
+    row.detailed_results,
+    new Map([[question, { source: "manual" as const, confidence: "high", reviewed: true, note: `Corrected: ${reason}` }]]),
+  );
+  return { ...graded, originalAnswer, newAnswer };
+}
+
+/** Marks answers as checked without changing them, so they leave the review queue. */
+export function confirmDetails(previous: unknown, questions: number[]) {
+  const confirmed = new Set(questions);
+  const details = storedDetails(previous).map((d) => (confirmed.has(d.question) ? { ...d, reviewed: true } : d));
+  return { detailed_results: details, low_confidence_count: details.filter(needsReview).length };
+}
@@ -0,0 +1,53 @@
+// Paper sets: one answer key group holding a variant per printed set code
+// ("Set A", "Set B", ...). Every variant has the same number of questions and
+// shares the group's marking scheme, question types and option set.
+
+export interface PaperSet {
+  code: string;       // Normalized set code as printed on the sheet, e.g. "B"
+  answers: string[];
+}
+
+export const MAX_PAPER_SETS = 8;
+
+/** "Set-b", "SET B", "SETB", " b " → "B". Returns null when nothing usable is left. */
+export function normalizeSetCode(input: unknown): string | null {
+  if (typeof input !== "string" && typeof input !== "number") return null;
+  const code = String(input)
+    .toUpperCase()
+    .replace(/\b(PAPER|BOOKLET|QUESTION|SERIES|SET|CODE|NO)\b/g, "")
+    .replace(/[^A-Z0-9]/g, "")
+    .replace(/^SET(?=[A-Z0-9]{1,3}$)/, "");
+  return code.length > 0 && code.length <= 3 ? code : null;
+}
+
+/**
+ * Keeps variants with a usable, unique code and answers of the expected length.
+ * Returns undefined unless at least two variants remain, since a single set is
+ * just a plain key.
+ */
+export function normalizePaperSets(input: unknown, questionCount: number): PaperSet[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const seen = new Set<string>();
+  const sets: PaperSet[] = [];
+  for (const raw of input.slice(0, MAX_PAPER_SETS)) {
+    const code = normalizeSetCode(raw?.code);
+    if (!code || seen.has(code) || !Array.isArray(raw?.answers) || raw.answers.length !== questionCount) continue;
+    seen.add(code);
+    sets.push({ code, answers: raw.answers.map((a: unknown) => (typeof a === "string" ? a : String(a ?? ""))) });
+  }
+  return sets.length >= 2 ? sets : undefined;
+}
+
+export function findPaperSet(sets: PaperSet[] | null | undefined, code: string | null | undefined): PaperSet | undefined {
+  const normalized = normalizeSetCode(code);
+  return normalized ? sets?.find((s) => s.code === normalized) : undefined;
+}
+
+/** Next unused code in A, B, C, ... order. */
+export function nextSetCode(sets: PaperSet[]): string {
+  for (let i = 0; i < 26; i++) {
+    const code = String.fromCharCode(65 + i);
+    if (!sets.some((s) => s.code === code)) return code;
+  }
+  return String(sets.length + 1);
+}
@@ -0,0 +1,49 @@
+// How the analyzer read a sheet, saved with the evaluation in
+// processing_metadata so a teacher can see why an answer was read the way it
+// was. Shared with the client, which shows it in the history details.
+
+export interface ReplyValidation {
+  valid: boolean;            // The reply used for grading matched the schema
+  repairAttempted: boolean;  // The first reply was sent back with its problems
+  problems: string[];        // What was wrong with the first reply
+  filledAnswers: number;     // Answers set to "?" because the final reply had no usable value
+}
+
+export interface ConsensusReport {
+  readers: [string, string];
+  replyValidation: ReplyValidation;  // Of the second reading
+  disagreements: number[];           // 1-based questions the readers read differently
+}
+
+/** A change the verification pass proposed, and whether it replaced the first reading. */
+export interface VerificationCorrection {
+  question: number;  // 1-based
+  from: string;
+  to: string;
+  reason: string;
+  applied: boolean;
+}
+
+export interface ModelReply {
+  pass: string;  // "read", "repair", "consensus", "consensus repair" or "verify"
+  text: string;
+}
+
+export interface ProcessingMetadata {
+  promptVersion: string;
+  timestamp: string;
+  aiProvider: { name: string; model: string };
+  aiCalls: number;
+  replyValidation: ReplyValidation;
+  consensus: ConsensusReport | null;
+  bubbleReader: { applied: boolean; resolved: number; ambiguous: number };
+  verification: { applied: boolean; corrections: VerificationCorrection[] };
+  quality: {
+    imageQuality: string;
+    brightnessLevel: string | null;
+    lightingCondition: string | null;
+    issues: string[];
+  };
+  timing: { totalMs: number; readMs: number; verifyMs: number };
+  modelReplies: ModelReply[];  // Raw text of every model reply, in the order they came
+}
@@ -0,0 +1,58 @@
+// Grading quotas, for edge functions. Usage is counted in the database by
+// reserve_sheet_quota, keyed by the verified user and their organization, so
+// every function instance and cold start enforces the same limits. A sheet's
+// reservation is committed once its result is saved and released otherwise.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+
+export type QuotaPeriod = "minute" | "day" | "month";
+
+export type QuotaCheck =
+  | { allowed: true; reservation: string }
+  | {
+    allowed: false;
+    scope: "user" | "organization";
+    period: QuotaPeriod;
+    limit: number;
+    retryAfter: number;  // Seconds until a sheet is admitted again
+  };
+
+/** Reserves quota for one sheet, unless a limit is used up. */
+export async function reserveSheetQuota(client: SupabaseClient, userId: string): Promise<QuotaCheck> {
+  const { data, error } = await client.rpc("reserve_sheet_quota", { _user_id: userId });
+  if (error) throw error;
+  const row = data?.[0];
+  if (!row) throw new Error("Quota reservation returned nothing");
+  if (row.allowed) return { allowed: true, reservation: row.reservation_id };
+  return {
+    allowed: false,
+    scope: row.scope,
+    period: row.period,
+    limit: row.quota_limit,
+    retryAfter: Math.max(1, Math.ceil((Date.parse(row.resets_at) - Date.now()) / 1000)),
+  };
+}
+
+/** Charges the reserved sheet, once its result is saved. */
+export async function commitSheetQuota(client: SupabaseClient, reservation: string) {
+  const { error } = await client.from("usage_events").update({ committed: true }).eq("id", reservation);
+  if (error) throw error;
+}
+
+/** Gives back a reservation for a sheet that was not graded and saved. */
+export async function releaseSheetQuota(client: SupabaseClient, reservation: string) {
+  const { error } = await client.from("usage_events").delete().eq("id", reservation).eq("committed", false);
+  if (error) throw error;
+}
+
+function formatWait(seconds: number) {
+  if (seconds < 120) return `${seconds} seconds`;
+  if (seconds < 2 * 3600) return `${Math.ceil(seconds / 60)} minutes`;
+  if (seconds < 2 * 86400) return `${Math.ceil(seconds / 3600)} hours`;
+  return `${Math.ceil(seconds / 86400)} days`;
+}
+
+export function describeQuotaLimit(check: Extract<QuotaCheck, { allowed: false }>) {
+  const owner = check.scope === "organization" ? "Your organization's" : "Your";
+  return `${owner} limit of ${check.limit} sheets per ${check.period} is reached. Try again in ${formatWait(check.retryAfter)}.`;
+}
@@ -0,0 +1,373 @@
+// Marking engine shared by the analyzer and the web client. Pure TypeScript so
+// the same rules produce the same marks on both sides.
+
+export interface MarkingSection {
+  name: string;
+  start: number;        // First question number (1-based, inclusive)
+  end: number;          // Last question number (inclusive)
+  correct: number;
+  wrong: number;
+  unattempted: number;
+}
+
+export interface MarkingScheme {
+  correct: number;      // Marks for a correct answer, e.g. 4
+  wrong: number;        // Marks for a wrong answer, e.g. -1
+  unattempted: number;  // Marks for a blank answer, usually 0
+  sections?: MarkingSection[];
+}
+
+export const DEFAULT_MARKING_SCHEME: MarkingScheme = { correct: 1, wrong: 0, unattempted: 0 };
+
+// Options printed on the sheet for each question. Keys without an option set use A–E.
+export const DEFAULT_OPTION_SET = ["A", "B", "C", "D", "E"];
+
+export const OPTION_SET_PRESETS: Array<{ id: string; label: string; options: string[] }> = [
+  { id: "A-E", label: "A–E", options: DEFAULT_OPTION_SET },
+  { id: "A-D", label: "A–D", options: ["A", "B", "C", "D"] },
+  { id: "1-4", label: "1–4", options: ["1", "2", "3", "4"] },
+  { id: "T/F", label: "T/F", options: ["T", "F"] },
+];
+
+/** Coerces untrusted input into an option set: 2–10 unique, single-character labels. */
+export function normalizeOptionSet(input: unknown): string[] {
+  if (!Array.isArray(input)) return [...DEFAULT_OPTION_SET];
+  const options = input
+    .filter((o): o is string | number => typeof o === "string" || typeof o === "number")
+    .map((o) => String(o).trim().toUpperCase())
+    .filter((o) => /^[A-Z0-9]$/.test(o));
+  const unique = [...new Set(options)];
+  return unique.length >= 2 && unique.length <= 10 ? unique : [...DEFAULT_OPTION_SET];
+}
+
+export function isDefaultOptionSet(options?: string[] | null): boolean {
+  return !options || options.join() === DEFAULT_OPTION_SET.join();
+}
+
+/** Preset label ("A–D") or the options themselves ("P/Q/R/S"). */
+export function describeOptionSet(options: string[]): string {
+  return OPTION_SET_PRESETS.find((p) => p.options.join() === options.join())?.label ?? options.join("/");
+}
+
+/** Options as prose for prompts, e.g. "A, B, C, or D". */
+export function listOptions(options: string[]): string {
+  return options.length > 1 ? `${options.slice(0, -1).join(", ")}, or ${options[options.length - 1]}` : options.join("");
+}
+
+// Answer key entries: a single option ("B"), any of several options ("A|C"),
+// a bonus question awarded to everyone, or a dropped question removed from the total.
+export const BONUS_KEY = "BONUS";
+export const DROPPED_KEY = "DROP";
+
+export type KeyEntry =
+  | { kind: "answer"; accepted: string[] }
+  | { kind: "bonus" }
+  | { kind: "dropped" };
+
+export type QuestionStatus = "correct" | "wrong" | "unattempted" | "bonus" | "dropped";
+
+// How a question is answered. Single-choice keys may still list alternatives
+// ("A|C"); multi-select keys name the exact set to mark ("A,C"); numeric keys
+// are numbers matched within an absolute tolerance; true/false keys are T or F.
+export type QuestionType = "single" | "multi" | "numeric" | "truefalse";
+
+export interface QuestionSpec {
+  type: QuestionType;
+  tolerance?: number;   // Numeric only: accepted absolute difference
+}
+
+export const QUESTION_TYPES: QuestionType[] = ["single", "multi", "numeric", "truefalse"];
+export const DEFAULT_QUESTION_SPEC: QuestionSpec = { type: "single" };
+export const TRUE_FALSE_OPTIONS = ["T", "F"];
+
+export interface QuestionOutcome {
+  question: number;
+  status: QuestionStatus;
+  marks: number;
+  section?: string;
+}
+
+export interface ScoreSummary {
+  correctCount: number;
+  wrongCount: number;
+  unattemptedCount: number;
+  attemptedCount: number;
+  bonusCount: number;
+  droppedCount: number;
+  scoredQuestions: number;  // Questions that count towards the total (dropped ones excluded)
+  rawMarks: number;      // Sum of all positive marks awarded
+  penaltyMarks: number;  // Sum of all deductions, as a positive number
+  netMarks: number;      // rawMarks - penaltyMarks
+  maxMarks: number;      // Marks for a perfect sheet
+  accuracy: number;      // Weighted share of attempted marks answered correctly (0–100)
+  outcomes: QuestionOutcome[];
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNumber = (value: unknown, fallback: number) => {
+  const n = typeof value === "string" ? parseFloat(value) : value;
+  return typeof n === "number" && Number.isFinite(n) ? n : fallback;
+};
+
+/** Coerces untrusted input (request body, JSONB column) into a valid scheme. */
+export function normalizeMarkingScheme(input: unknown): MarkingScheme {
+  if (!input || typeof input !== "object") return { ...DEFAULT_MARKING_SCHEME };
+  const raw = input as Record<string, unknown>;
+
+  const scheme: MarkingScheme = {
+    correct: toNumber(raw.correct, DEFAULT_MARKING_SCHEME.correct),
+    wrong: toNumber(raw.wrong, DEFAULT_MARKING_SCHEME.wrong),
+    unattempted: toNumber(raw.unattempted, DEFAULT_MARKING_SCHEME.unattempted),
+  };
+
+  if (Array.isArray(raw.sections)) {
+    const sections = raw.sections
+      .filter((s): s is Record<string, unknown> => !!s && typeof s === "object")
+      .map((s) => ({
+        name: typeof s.name === "string" ? s.name : "",
+        start: Math.max(1, Math.floor(toNumber(s.start, 1))),
+        end: Math.max(1, Math.floor(toNumber(s.end, 1))),
+        correct: toNumber(s.correct, scheme.correct),
+        wrong: toNumber(s.wrong, scheme.wrong),
+        unattempted: toNumber(s.unattempted, scheme.unattempted),
+      }))
+      .filter((s) => s.end >= s.start);
+    if (sections.length > 0) scheme.sections = sections;
+  }
+
+  return scheme;
+}
+
+export function isDefaultMarkingScheme(scheme?: MarkingScheme | null): boolean {
+  if (!scheme) return true;
+  return scheme.correct === DEFAULT_MARKING_SCHEME.correct
+    && scheme.wrong === DEFAULT_MARKING_SCHEME.wrong
+    && scheme.unattempted === DEFAULT_MARKING_SCHEME.unattempted
+    && !scheme.sections?.length;
+}
+
+/** Marks that apply to a question; the first section containing it wins. */
+export function marksForQuestion(scheme: MarkingScheme, question: number): MarkingSection {
+  const section = scheme.sections?.find((s) => question >= s.start && question <= s.end);
+  return section ?? { name: "", start: question, end: question, correct: scheme.correct, wrong: scheme.wrong, unattempted: scheme.unattempted };
+}
+
+/** Short human-readable label, e.g. "+4 / −1 / 0". */
+export function describeMarkingScheme(scheme: MarkingScheme): string {
+  const fmt = (n: number) => (n > 0 ? `+${n}` : n < 0 ? `−${Math.abs(n)}` : "0");
+  const base = `${fmt(scheme.correct)} / ${fmt(scheme.wrong)} / ${fmt(scheme.unattempted)}`;
+  const count = scheme.sections?.length ?? 0;
+  return count > 0 ? `${base} (${count} section${count !== 1 ? "s" : ""})` : base;
+}
+
+/**
+ * Coerces untrusted per-question types into one spec per question. Returns
+ * undefined when every question is single-choice, which is how keys without
+ * types are stored.
+ */
+export function normalizeQuestionTypes(input: unknown, count: number): QuestionSpec[] | undefined {
+  if (!Array.isArray(input)) return undefined;
+  const specs = Array.from({ length: count }, (_, i): QuestionSpec => {
+    const raw = input[i] as Record<string, unknown> | undefined;
+    const type = raw && QUESTION_TYPES.includes(raw.type as QuestionType) ? (raw.type as QuestionType) : "single";
+    return type === "numeric"
+      ? { type, tolerance: Math.max(0, toNumber(raw?.tolerance, 0)) }
+      : { type };
+  });
+  return specs.some((s) => s.type !== "single") ? specs : undefined;
+}
+
+export function specForQuestion(types: QuestionSpec[] | null | undefined, index: number): QuestionSpec {
+  return types?.[index] ?? DEFAULT_QUESTION_SPEC;
+}
+
+/** Short label for a question type, e.g. "Numeric ±0.5". */
+export function describeQuestionSpec(spec: QuestionSpec): string {
+  switch (spec.type) {
+    case "multi": return "Multi";
+    case "numeric": return spec.tolerance ? `Numeric ±${spec.tolerance}` : "Numeric";
+    case "truefalse": return "True/False";
+    default: return "Single";
+  }
+}
+
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+
+/**
+ * Canonical form of a response so it can be compared with the key: multi-select
+ * answers become sorted, comma-separated letters ("C A" → "A,C"), true/false
+ * answers become T or F, numbers lose spaces and use a decimal point.
+ */
+export function normalizeResponse(answer: string, spec: QuestionSpec = DEFAULT_QUESTION_SPEC): string {
+  const value = answer.trim().toUpperCase();
+  switch (spec.type) {
+    case "multi": {
+      const letters = value.includes(",") || value.includes(" ") || value.includes("+")
+        ? value.split(/[\s,+]+/)
+        : value.split("");
+      return [...new Set(letters.filter(Boolean))].sort().join(",");
+    }
+    case "numeric":
+      return value.replace(/\s/g, "").replace(",", ".");
+    case "truefalse":
+      if (value === "TRUE") return "T";
+      if (value === "FALSE") return "F";
+      return value;
+    default:
+      return value;
+  }
+}
+
+export function isUnattemptedAnswer(answer: string | null | undefined): boolean {
+  return !answer || answer === "?" || answer === "UNATTEMPTED" || answer.trim() === "";
+}
+
+export function parseKeyEntry(entry: string | null | undefined): KeyEntry {
+  const value = (entry || "").trim().toUpperCase();
+  if (value === BONUS_KEY) return { kind: "bonus" };
+  if (value === DROPPED_KEY) return { kind: "dropped" };
+  const accepted = value.split("|").map((o) => o.trim()).filter(Boolean);
+  return { kind: "answer", accepted };
+}
+
+export function formatKeyEntry(entry: KeyEntry): string {
+  if (entry.kind === "bonus") return BONUS_KEY;
+  if (entry.kind === "dropped") return DROPPED_KEY;
+  return entry.accepted.join("|");
+}
+
+function isValidAlternative(value: string, options: string[], spec: QuestionSpec): boolean {
+  switch (spec.type) {
+    case "multi": {
+      const parts = value.split(",");
+      return parts.every((o) => options.includes(o)) && new Set(parts).size === parts.length;
+    }
+    case "numeric":
+      return NUMBER_PATTERN.test(value);
+    case "truefalse":
+      return TRUE_FALSE_OPTIONS.includes(value);
+    default:
+      return options.includes(value);
+  }
+}
+
+/** True for a response in the form its question type takes, e.g. "B", "A,C", "12.5" or "T". */
+export function isValidResponse(answer: string, options: string[], spec: QuestionSpec = DEFAULT_QUESTION_SPEC): boolean {
+  return isValidAlternative(normalizeResponse(answer, spec), options, spec);
+}
+
+/** True for a complete key entry: "B", "A|C", "A,C", "12.5", "T", "BONUS" or "DROP". */
+export function isValidKeyEntry(entry: string, options: string[], spec: QuestionSpec = DEFAULT_QUESTION_SPEC): boolean {
+  const parsed = parseKeyEntry(entry);
+  if (parsed.kind !== "answer") return true;
+  return parsed.accepted.length > 0
+    && parsed.accepted.every((o) => isValidAlternative(o, options, spec))
+    && new Set(parsed.accepted).size === parsed.accepted.length;
+}
+
+export function isAnswerCorrect(extracted: string, correct: string, spec: QuestionSpec = DEFAULT_QUESTION_SPEC): boolean {
+  const entry = parseKeyEntry(correct);
+  if (entry.kind !== "answer") return false;
+  const response = normalizeResponse(extracted, spec);
+
+  if (spec.type === "numeric") {
+    const value = parseFloat(response);
+    if (!NUMBER_PATTERN.test(response) || !Number.isFinite(value)) return false;
+    // Small epsilon so 0.1 + 0.2 style rounding never fails an exact answer
+    const tolerance = (spec.tolerance ?? 0) + 1e-9;
+    return entry.accepted.some((a) => Math.abs(parseFloat(a) - value) <= tolerance);
+  }
+  return entry.accepted.some((a) => normalizeResponse(a, spec) === response);
+}
+
+/** Outcome of one question without marks, for display and spreadsheet ticks. */
+export function questionStatus(
+  extracted: string | null | undefined,
+  correct: string,
+  spec: QuestionSpec = DEFAULT_QUESTION_SPEC,
+): QuestionStatus {
+  const entry = parseKeyEntry(correct);
+  if (entry.kind === "dropped") return "dropped";
+  if (entry.kind === "bonus") return "bonus";
+  if (isUnattemptedAnswer(extracted)) return "unattempted";
+  return isAnswerCorrect(extracted!, correct, spec) ? "correct" : "wrong";
+}
+
+export function scoreAnswers(
+  extractedAnswers: string[],
+  answerKey: string[],
+  scheme: MarkingScheme = DEFAULT_MARKING_SCHEME,
+  questionTypes?: QuestionSpec[] | null,
+): ScoreSummary {
+  let correctCount = 0;
+  let wrongCount = 0;
+  let unattemptedCount = 0;
+  let bonusCount = 0;
+  let droppedCount = 0;
+  let rawMarks = 0;
+  let penaltyMarks = 0;
+  let maxMarks = 0;
+  let attemptedWeight = 0;
+  let correctWeight = 0;
+  const outcomes: QuestionOutcome[] = [];
+
+  answerKey.forEach((correct, index) => {
+    const question = index + 1;
+    const extracted = extractedAnswers[index];
+    const marks = marksForQuestion(scheme, question);
+    const status = questionStatus(extracted, correct, specForQuestion(questionTypes, index));
+
+    let awarded: number;
+    switch (status) {
+      case "dropped":
+        // Removed from the paper: no marks either way and no share of the total
+        awarded = 0;
+        droppedCount++;
+        break;
+      case "bonus":
+        awarded = marks.correct;
+        bonusCount++;
+        break;
+      case "unattempted":
+        awarded = marks.unattempted;
+        unattemptedCount++;
+        break;
+      case "correct":
+        awarded = marks.correct;
+        attemptedWeight += Math.abs(marks.correct);
+        correctWeight += Math.abs(marks.correct);
+        correctCount++;
+        break;
+      default:
+        awarded = marks.wrong;
+        attemptedWeight += Math.abs(marks.correct);
+        wrongCount++;
+    }
+
+    if (status !== "dropped") maxMarks += Math.max(0, marks.correct);
+    if (awarded >= 0) rawMarks += awarded;
+    else penaltyMarks += -awarded;
+    outcomes.push({ question, status, marks: awarded, section: marks.name || undefined });
+  });
+
+  const scoredQuestions = answerKey.length - droppedCount;
+  const attemptedCount = correctCount + wrongCount;
+  const accuracy = attemptedWeight > 0 ? (correctWeight / attemptedWeight) * 100 : 0;
+
+  return {
+    correctCount,
+    wrongCount,
+    unattemptedCount,
+    attemptedCount,
+    bonusCount,
+    droppedCount,
+    scoredQuestions,
+    rawMarks: round2(rawMarks),
+    penaltyMarks: round2(penaltyMarks),
+    netMarks: round2(rawMarks - penaltyMarks),
+    maxMarks: round2(maxMarks),
+    accuracy: Math.round(accuracy * 10) / 10,
+    outcomes,
+  };
+}
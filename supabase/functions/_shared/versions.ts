@@ -0,0 +1,73 @@
+// Version history of evaluations, for edge functions. All versions of one
+// student's sheet share a lineage_id and exactly one of them is authoritative.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+
+export interface VersionGroup {
+  user_id: string;
+  roll_number: string | null;
+  subject_code: string | null;
+  answer_key_id: string | null;  // The exam
+}
+
+/** The authoritative result for the same student, subject and exam, if any. */
+export async function findAuthoritative(client: SupabaseClient, group: VersionGroup) {
+  if (!group.roll_number || !group.subject_code) return null;
+  let query = client
+    .from("evaluations")
+    .select("id, lineage_id")
+    .eq("user_id", group.user_id)
+    .eq("roll_number", group.roll_number)
+    .eq("subject_code", group.subject_code)
+    .eq("is_authoritative", true);
+  query = group.answer_key_id ? query.eq("answer_key_id", group.answer_key_id) : query.is("answer_key_id", null);
+  const { data, error } = await query.maybeSingle();
+  if (error) throw error;
+  return data as { id: string; lineage_id: string } | null;
+}
+
+export async function nextVersion(client: SupabaseClient, lineageId: string): Promise<number> {
+  const { data, error } = await client
+    .from("evaluations")
+    .select("version")
+    .eq("lineage_id", lineageId)
+    .order("version", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return (data?.version ?? 0) + 1;
+}
+
+/**
+ * Keeps a copy of a row as it is now, before it is changed in place, so the
+ * previous state stays in the version history. Returns the copy's id.
+ */
+export async function archiveVersion(client: SupabaseClient, row: Record<string, unknown>): Promise<string> {
+  const { id: _id, created_at: _createdAt, updated_at: updatedAt, ...columns } = row;
+  const { data, error } = await client
+    .from("evaluations")
+    .insert({ ...columns, created_at: updatedAt, updated_at: updatedAt, is_authoritative: false, conflict_with: null })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+}
+
+/** Makes one version the result that counts; the others in its lineage step down first. */
+export async function makeAuthoritative(client: SupabaseClient, userId: string, lineageId: string, id: string) {
+  const { error: demoteError } = await client
+    .from("evaluations")
+    .update({ is_authoritative: false })
+    .eq("user_id", userId)
+    .eq("lineage_id", lineageId)
+    .eq("is_authoritative", true)
+    .neq("id", id);
+  if (demoteError) throw demoteError;
+
+  const { error } = await client
+    .from("evaluations")
+    .update({ is_authoritative: true, conflict_with: null })
+    .eq("user_id", userId)
+    .eq("id", id);
+  if (error) throw error;
+}
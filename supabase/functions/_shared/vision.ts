@@ -0,0 +1,326 @@
+// Pure image helpers shared by edge functions and the client's upload
+// pipeline. Everything here works on plain 8-bit grayscale buffers (no Deno or
+// DOM APIs), so results are reproducible.
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export function toGrayscale(rgba: Uint8Array | Uint8ClampedArray, width: number, height: number): GrayImage {
+  const data = new Uint8Array(width * height);
+  for (let i = 0, p = 0; i < data.length; i++, p += 4) {
+    // ITU-R BT.601 luma
+    data[i] = (rgba[p] * 299 + rgba[p + 1] * 587 + rgba[p + 2] * 114) / 1000;
+  }
+  return { width, height, data };
+}
+
+export function downscale(image: GrayImage, maxSide: number): { image: GrayImage; scale: number } {
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  if (scale === 1) return { image, scale };
+
+  const width = Math.max(1, Math.round(image.width * scale));
+  const height = Math.max(1, Math.round(image.height * scale));
+  const data = new Uint8Array(width * height);
+  const step = 1 / scale;
+
+  // Box filter so thin pencil strokes are averaged rather than skipped
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.floor(y * step);
+    const y1 = Math.min(image.height, Math.floor((y + 1) * step));
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.floor(x * step);
+      const x1 = Math.min(image.width, Math.floor((x + 1) * step));
+      let sum = 0;
+      let count = 0;
+      for (let sy = y0; sy < y1; sy++) {
+        const row = sy * image.width;
+        for (let sx = x0; sx < x1; sx++) {
+          sum += image.data[row + sx];
+          count++;
+        }
+      }
+      data[y * width + x] = count > 0 ? sum / count : 0;
+    }
+  }
+  return { image: { width, height, data }, scale };
+}
+
+export function otsuThreshold(image: GrayImage): number {
+  const histogram = new Array(256).fill(0);
+  for (let i = 0; i < image.data.length; i++) histogram[image.data[i]]++;
+
+  const total = image.data.length;
+  let sumAll = 0;
+  for (let t = 0; t < 256; t++) sumAll += t * histogram[t];
+
+  let sumBackground = 0;
+  let weightBackground = 0;
+  let bestVariance = 0;
+  let threshold = 127;
+
+  for (let t = 0; t < 256; t++) {
+    weightBackground += histogram[t];
+    if (weightBackground === 0) continue;
+    const weightForeground = total - weightBackground;
+    if (weightForeground === 0) break;
+
+    sumBackground += t * histogram[t];
+    const meanBackground = sumBackground / weightBackground;
+    const meanForeground = (sumAll - sumBackground) / weightForeground;
+    const variance = weightBackground * weightForeground * (meanBackground - meanForeground) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * Locates the sheet as the largest bright connected region and returns its
+ * four extreme corners. Returns null when no region covers enough of the frame.
+ */
+export function findSheetCorners(image: GrayImage, minCoverage = 0.2): Quad | null {
+  const { width, height, data } = image;
+  const threshold = otsuThreshold(image);
+  const labels = new Int32Array(width * height).fill(-1);
+  const stack: number[] = [];
+
+  let bestArea = 0;
+  let bestLabel = -1;
+  let label = 0;
+
+  for (let start = 0; start < data.length; start++) {
+    if (labels[start] !== -1 || data[start] <= threshold) continue;
+
+    let area = 0;
+    labels[start] = label;
+    stack.push(start);
+    while (stack.length > 0) {
+      const idx = stack.pop()!;
+      area++;
+      const x = idx % width;
+      const y = (idx - x) / width;
+      if (x > 0) visit(idx - 1);
+      if (x < width - 1) visit(idx + 1);
+      if (y > 0) visit(idx - width);
+      if (y < height - 1) visit(idx + width);
+    }
+    if (area > bestArea) {
+      bestArea = area;
+      bestLabel = label;
+    }
+    label++;
+  }
+
+  function visit(idx: number) {
+    if (labels[idx] === -1 && data[idx] > threshold) {
+      labels[idx] = label;
+      stack.push(idx);
+    }
+  }
+
+  if (bestLabel === -1 || bestArea < width * height * minCoverage) return null;
+
+  let tl = { x: 0, y: 0, score: Infinity };
+  let br = { x: 0, y: 0, score: -Infinity };
+  let tr = { x: 0, y: 0, score: -Infinity };
+  let bl = { x: 0, y: 0, score: Infinity };
+
+  for (let idx = 0; idx < labels.length; idx++) {
+    if (labels[idx] !== bestLabel) continue;
+    const x = idx % width;
+    const y = (idx - x) / width;
+    const sum = x + y;
+    const diff = x - y;
+    if (sum < tl.score) tl = { x, y, score: sum };
+    if (sum > br.score) br = { x, y, score: sum };
+    if (diff > tr.score) tr = { x, y, score: diff };
+    if (diff < bl.score) bl = { x, y, score: diff };
+  }
+
+  return [
+    { x: tl.x, y: tl.y },
+    { x: tr.x, y: tr.y },
+    { x: br.x, y: br.y },
+    { x: bl.x, y: bl.y },
+  ];
+}
+
+export function scaleQuad(quad: Quad, factor: number): Quad {
+  return quad.map((p) => ({ x: p.x * factor, y: p.y * factor })) as Quad;
+}
+
+/** Solves the 3×3 homography (h33 = 1) that maps each `from` corner onto `to`. */
+export function computeHomography(from: Quad, to: Quad): number[] {
+  const a: number[][] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  }
+
+  // Gaussian elimination with partial pivoting on the augmented 8×9 matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < 8; row++) {
+      if (Math.abs(a[row][col]) > Math.abs(a[pivot][col])) pivot = row;
+    }
+    if (Math.abs(a[pivot][col]) < 1e-10) throw new Error("Degenerate corner configuration");
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+
+    for (let row = 0; row < 8; row++) {
+      if (row === col) continue;
+      const factor = a[row][col] / a[col][col];
+      for (let k = col; k < 9; k++) a[row][k] -= factor * a[col][k];
+    }
+  }
+
+  const h = a.map((row, i) => row[8] / row[i]);
+  h.push(1);
+  return h;
+}
+
+export function applyHomography(h: number[], x: number, y: number): Point {
+  const w = h[6] * x + h[7] * y + h[8];
+  return {
+    x: (h[0] * x + h[1] * y + h[2]) / w,
+    y: (h[3] * x + h[4] * y + h[5]) / w,
+  };
+}
+
+/** Warps the quadrilateral `corners` of `image` onto a flat width × height rectangle. */
+export function warpPerspective(image: GrayImage, corners: Quad, width: number, height: number): GrayImage {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: width - 1, y: 0 },
+    { x: width - 1, y: height - 1 },
+    { x: 0, y: height - 1 },
+  ];
+  // Map output pixels back into the source so every output pixel is sampled
+  const h = computeHomography(target, corners);
+  const data = new Uint8Array(width * height);
+  const maxX = image.width - 1;
+  const maxY = image.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = applyHomography(h, x, y);
+      const sx = Math.min(maxX, Math.max(0, src.x));
+      const sy = Math.min(maxY, Math.max(0, src.y));
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1);
+      const y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const top = image.data[y0 * image.width + x0] * (1 - fx) + image.data[y0 * image.width + x1] * fx;
+      const bottom = image.data[y1 * image.width + x0] * (1 - fx) + image.data[y1 * image.width + x1] * fx;
+      data[y * width + x] = top * (1 - fy) + bottom * fy;
+    }
+  }
+  return { width, height, data };
+}
+
+/** Width and height of the flat rectangle a quadrilateral unwarps to, from its longer opposite edges. */
+export function quadSize(corners: Quad): { width: number; height: number } {
+  const [tl, tr, br, bl] = corners;
+  const length = (a: Point, b: Point) => Math.hypot(b.x - a.x, b.y - a.y);
+  return {
+    width: Math.max(1, Math.round(Math.max(length(tl, tr), length(bl, br)))),
+    height: Math.max(1, Math.round(Math.max(length(tl, bl), length(tr, br)))),
+  };
+}
+
+/**
+ * Evens out uneven lighting. Each pixel is compared with the mean of the
+ * window × window square around it: pixels not at least `offset` darker than
+ * their surroundings become white paper, and darker ones keep their tone
+ * relative to the local mean, so faint pencil in a shadow stays faint pencil.
+ */
+export function adaptiveThreshold(image: GrayImage, window: number, offset: number): GrayImage {
+  const { width, height } = image;
+  const stride = width + 1;
+  // Summed-area table, so every window mean costs four lookups
+  const integral = new Uint32Array(stride * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += image.data[y * width + x];
+      integral[(y + 1) * stride + x + 1] = integral[y * stride + x + 1] + rowSum;
+    }
+  }
+
+  const half = Math.max(1, Math.floor(window / 2));
+  const data = new Uint8Array(width * height);
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const sum = integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+      const mean = sum / ((x1 - x0) * (y1 - y0));
+      const value = image.data[y * width + x];
+      data[y * width + x] = value < mean - offset ? Math.min(255, (value / mean) * 255) : 255;
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Brightness and contrast, each from -100 to 100 with 0 leaving the image as
+ * it is. Brightness scales and contrast stretches around mid-gray, in that
+ * order, like the CSS brightness() and contrast() filters.
+ */
+export function adjustLevels(image: GrayImage, brightness: number, contrast: number): GrayImage {
+  if (brightness === 0 && contrast === 0) return image;
+  const gain = 1 + brightness / 100;
+  const stretch = 1 + contrast / 100;
+  const lookup = new Uint8Array(256);
+  for (let v = 0; v < 256; v++) lookup[v] = Math.min(255, Math.max(0, (v * gain - 128) * stretch + 128));
+  return { width: image.width, height: image.height, data: image.data.map((v) => lookup[v]) };
+}
+
+/** Variance of the 4-neighbour Laplacian: low when edges are soft, as in a blurred photo. */
+export function laplacianVariance(image: GrayImage): number {
+  const { width, height, data } = image;
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = data[i - 1] + data[i + 1] + data[i - width] + data[i + width] - 4 * data[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+/** Area of a quadrilateral, by the shoelace formula. */
+export function quadArea(corners: Quad): number {
+  let twice = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = corners[i];
+    const b = corners[(i + 1) % 4];
+    twice += a.x * b.y - b.x * a.y;
+  }
+  return Math.abs(twice) / 2;
+}
@@ -0,0 +1,59 @@
+// Consensus mode, for high-stakes exams: the sheet is read by two independent
+// passes or providers and the readings are compared question by question.
+// Where they agree the answer is accepted; where they don't, the first reading
+// is kept at low confidence, which puts the question in the review queue, and
+// both readings are stored for the teacher to compare.
+
+import { isUnattemptedAnswer, normalizeResponse, specForQuestion } from "../_shared/scoring.ts";
+import type { QuestionReading } from "../_shared/grading.ts";
+import { questionNumber, type ReplySchema } from "./modelOutput.ts";
+
+const answerAt = (reading: Record<string, unknown>, index: number): string => {
+  const answer = Array.isArray(reading.answers) ? reading.answers[index] : undefined;
+  return answer == null ? "?" : String(answer);
+};
+
+export function mergeReadings(
+  first: Record<string, unknown>,
+  second: Record<string, unknown>,
+  readers: [string, string],
+  schema: ReplySchema,
+) {
+  const confidence: unknown[] = Array.isArray(first.confidence) ? first.confidence : [];
+  const notes: unknown[] = Array.isArray(first.notes) ? first.notes : [];
+  const merged = {
+    answers: [] as string[],
+    confidence: [] as string[],
+    notes: [] as string[],
+    readings: [] as (QuestionReading[] | null)[],
+  };
+  const disagreements: number[] = [];
+
+  for (let i = 0; i < schema.questionCount; i++) {
+    const spec = specForQuestion(schema.questionTypes, i);
+    const a = answerAt(first, i);
+    const b = answerAt(second, i);
+    const agree = isUnattemptedAnswer(a) || isUnattemptedAnswer(b)
+      ? isUnattemptedAnswer(a) && isUnattemptedAnswer(b)
+      : normalizeResponse(a, spec) === normalizeResponse(b, spec);
+
+    merged.answers.push(a);
+    if (agree) {
+      // Two independent readings of a mark are as sure as this gets
+      merged.confidence.push(isUnattemptedAnswer(a) ? String(confidence[i] ?? "low") : "high");
+      merged.notes.push(typeof notes[i] === "string" ? notes[i] as string : "");
+      merged.readings.push(null);
+    } else {
+      disagreements.push(questionNumber(schema, i));
+      merged.confidence.push("low");
+      merged.notes.push(`Readings disagree: ${a} vs ${b}`);
+      merged.readings.push([{ reader: readers[0], answer: a }, { reader: readers[1], answer: b }]);
+    }
+  }
+
+  // Identification fields come from the first reading unless only the second found them
+  const identification = Object.fromEntries(
+    (schema.fields ?? []).map((field) => [field, first[field] ?? second[field] ?? null]),
+  );
+  return { reading: { ...first, ...identification, ...merged }, disagreements };
+}
@@ -0,0 +1,133 @@
+// Runs the analyzer end to end with the mock AI provider and a fake Supabase
+// backend: deno test --allow-env --allow-read supabase/functions/analyze-answer-sheet
+
+import { assertEquals } from "https://deno.land/std@0.168.0/testing/asserts.ts";
+import { handleRequest } from "./handler.ts";
+
+const SUPABASE_URL = "http://supabase.test";
+const SERVICE_KEY = "service-role-key";
+const USER_ID = "00000000-0000-4000-8000-000000000001";
+const EVALUATION_ID = "00000000-0000-4000-8000-0000000000e1";
+const RESERVATION_ID = "00000000-0000-4000-8000-0000000000a1";
+
+// Replies in the fixture file are keyed by the SHA-256 of these bytes
+const SHEETS: Record<string, string> = {
+  "graded.png": "graded sheet",
+  "rate-limited.png": "rate-limited sheet",
+  "blank.png": "blank sheet",
+};
+
+Deno.env.set("SUPABASE_URL", SUPABASE_URL);
+Deno.env.set("SUPABASE_SERVICE_ROLE_KEY", SERVICE_KEY);
+Deno.env.set("AI_PROVIDER", "mock");
+Deno.env.set("AI_MOCK_FIXTURES", new URL("./fixtures/mock-replies.json", import.meta.url).pathname);
+
+interface RecordedCall {
+  method: string;
+  path: string;
+  search: string;
+  body: string;
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { "Content-Type": "application/json" } });
+
+/** Stands in for storage and the REST API while the analyzer runs; returns what it was asked. */
+function fakeSupabase(options: { failQuotaCommit?: boolean } = {}) {
+  const calls: RecordedCall[] = [];
+  const fetchStub = async (input: string | URL | Request, init?: RequestInit) => {
+    const request = new Request(input, init);
+    const url = new URL(request.url);
+    calls.push({ method: request.method, path: url.pathname, search: url.search, body: await request.text() });
+
+    const sheet = url.pathname.match(/^\/storage\/v1\/object\/answer-sheets\/[^/]+\/(.+)$/)?.[1];
+    if (sheet && SHEETS[sheet]) {
+      return new Response(new TextEncoder().encode(SHEETS[sheet]), { headers: { "Content-Type": "image/png" } });
+    }
+    if (url.pathname === "/rest/v1/rpc/reserve_sheet_quota") {
+      return json([{ allowed: true, scope: null, period: null, quota_limit: null, resets_at: null, reservation_id: RESERVATION_ID }]);
+    }
+    if (url.pathname === "/rest/v1/evaluations" && request.method === "POST") return json({ id: EVALUATION_ID }, 201);
+    if (url.pathname === "/rest/v1/usage_events") {
+      if (options.failQuotaCommit && request.method === "PATCH") return json({ message: "connection reset" }, 503);
+      return new Response(null, { status: 204 });
+    }
+    return json({ message: `Unexpected ${request.method} ${url.pathname}` }, 404);
+  };
+  return { calls, fetchStub };
+}
+
+async function analyze(sheet: string, body: Record<string, unknown>, options: { failQuotaCommit?: boolean } = {}) {
+  const backend = fakeSupabase(options);
+  const realFetch = globalThis.fetch;
+  globalThis.fetch = backend.fetchStub;
+  try {
+    const response = await handleRequest(new Request("http://localhost/analyze-answer-sheet", {
+      method: "POST",
+      headers: { "Authorization": `Bearer ${SERVICE_KEY}`, "x-acting-user-id": USER_ID },
+      body: JSON.stringify({ imagePath: `${USER_ID}/${sheet}`, ...body }),
+    }));
+    return { response, result: await response.json(), calls: backend.calls };
+  } finally {
+    globalThis.fetch = realFetch;
+  }
+}
+
+Deno.test("grades and saves a sheet read by the mock provider", async () => {
+  const { response, result, calls } = await analyze("graded.png", { answerKey: ["A", "B", "C", "D", "A"] });
+
+  assertEquals(response.status, 200);
+  assertEquals(result.evaluationId, EVALUATION_ID);
+  assertEquals(result.extractedAnswers, ["A", "B", "C", "A", "A"]);
+  assertEquals(result.score, 4);
+  assertEquals(result.correctCount, 4);
+  assertEquals(result.wrongCount, 1);
+  assertEquals(result.metadata.aiCalls, 1);
+
+  const insert = calls.find((call) => call.path === "/rest/v1/evaluations");
+  const saved = JSON.parse(insert?.body ?? "{}");
+  assertEquals(saved.user_id, USER_ID);
+  assertEquals(saved.score, 4);
+  assertEquals(saved.extracted_answers, ["A", "B", "C", "A", "A"]);
+
+  // The reserved quota is charged once the result is saved
+  const quota = calls.filter((call) => call.path === "/rest/v1/usage_events");
+  assertEquals(quota.map((call) => call.method), ["PATCH"]);
+  assertEquals(JSON.parse(quota[0].body), { committed: true });
+});
+
+Deno.test("saves a sheet the reader found blank with a score of zero", async () => {
+  const { response, result } = await analyze("blank.png", { answerKey: ["A", "B", "C", "D", "A"] });
+
+  assertEquals(response.status, 200);
+  assertEquals(result.evaluationId, EVALUATION_ID);
+  assertEquals(result.score, 0);
+  assertEquals(result.unattemptedCount, 5);
+});
+
+Deno.test("passes a provider rate limit on and gives the quota back", async () => {
+  const { response, result, calls } = await analyze("rate-limited.png", { answerKey: ["A", "B", "C", "D", "A"] });
+
+  assertEquals(response.status, 429);
+  assertEquals(response.headers.get("Retry-After"), "7");
+  assertEquals(result.retryAfter, 7);
+  assertEquals(calls.some((call) => call.path === "/rest/v1/evaluations"), false);
+
+  const quota = calls.filter((call) => call.path === "/rest/v1/usage_events");
+  assertEquals(quota.map((call) => call.method), ["DELETE"]);
+  assertEquals(quota[0].search.includes(`id=eq.${RESERVATION_ID}`), true);
+});
+
+Deno.test("returns a saved sheet even when its quota can't be charged", async () => {
+  const { response, result, calls } = await analyze(
+    "graded.png", { answerKey: ["A", "B", "C", "D", "A"] }, { failQuotaCommit: true },
+  );
+
+  // A failure here would be retried and saved twice, so the result still comes back
+  assertEquals(response.status, 200);
+  assertEquals(result.evaluationId, EVALUATION_ID);
+
+  // The reservation of a saved sheet is never given back
+  const quota = calls.filter((call) => call.path === "/rest/v1/usage_events");
+  assertEquals(quota.map((call) => call.method), ["PATCH"]);
+});
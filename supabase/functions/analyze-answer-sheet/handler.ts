@@ -0,0 +1,701 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { readBubbleGrid, type OmrResult } from "./omr.ts";
+import {
+  describeQuestionSpec,
+  isUnattemptedAnswer,
+  isDefaultOptionSet,
+  isValidKeyEntry,
+  listOptions,
+  normalizeMarkingScheme,
+  normalizeOptionSet,
+  normalizeQuestionTypes,
+  normalizeResponse,
+  scoreAnswers,
+  specForQuestion,
+  type QuestionSpec,
+  type QuestionType,
+} from "../_shared/scoring.ts";
+import { findPaperSet, normalizePaperSets, normalizeSetCode, type PaperSet } from "../_shared/paperSets.ts";
+import { boxFromModel, type CellBox } from "../_shared/cellBoxes.ts";
+import type { QuestionReading } from "../_shared/grading.ts";
+import type { ConsensusReport, ModelReply, ProcessingMetadata, ReplyValidation, VerificationCorrection } from "../_shared/processingMetadata.ts";
+import { createServiceClient, getRequestUser, getServiceCallerUserId } from "../_shared/auth.ts";
+import { commitSheetQuota, describeQuotaLimit, releaseSheetQuota, reserveSheetQuota } from "../_shared/quota.ts";
+import { AIProviderError, getAIProvider, getConsensusProvider } from "../_shared/aiProviders.ts";
+import { downloadSheetImage, insertEvaluation, ownedAnswerKeyId } from "./persist.ts";
+import { checkReply, normalizeCorrections, readSheet, type ReplySchema } from "./modelOutput.ts";
+import { mergeReadings } from "./consensus.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Batch ids are generated by the client with crypto.randomUUID()
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const AI_RETRY_AFTER_SECONDS = 20; // Suggested wait when the AI provider rate limits us
+
+// Saved with every evaluation; change it whenever the prompts below change, so a
+// reading can be traced back to the prompt that produced it
+const PROMPT_VERSION = "2026-10-19";
+const MAX_STORED_REPLY_CHARS = 20_000;
+
+interface ParsedSheet {
+  answers?: string[];
+  confidence?: string[];
+  notes?: string[];
+  sources?: string[];
+  boxes?: unknown[];
+}
+
+function restrictToSingleChoice(omr: OmrResult, types: QuestionSpec[]): OmrResult {
+  const readings = omr.readings.map((r) =>
+    specForQuestion(types, r.question - 1).type === "single" ? r : { ...r, answer: null, confident: false }
+  );
+  return {
+    ...omr,
+    readings,
+    resolvedCount: readings.filter((r) => r.confident).length,
+    ambiguousQuestions: readings.filter((r) => !r.confident).map((r) => r.question),
+  };
+}
+
+// Overwrites the model's reading with every cell the bubble reader resolved cleanly
+function applyOmrReadings(parsed: ParsedSheet, omr: OmrResult, questionCount: number) {
+  const answers: string[] = [...(parsed.answers || [])];
+  const confidence: string[] = [...(parsed.confidence || [])];
+  const notes: string[] = [...(parsed.notes || [])];
+  const sources: string[] = Array(questionCount).fill("ai");
+
+  for (const reading of omr.readings) {
+    if (!reading.confident || !reading.answer) continue;
+    const i = reading.question - 1;
+    answers[i] = reading.answer;
+    confidence[i] = "high";
+    notes[i] = `Bubble reader (fill ${reading.densities.map((d) => d.toFixed(2)).join("/")})`;
+    sources[i] = "omr";
+  }
+
+  parsed.answers = answers;
+  parsed.confidence = confidence;
+  parsed.notes = notes;
+  parsed.sources = sources;
+}
+
+// The model only reads the questions it was asked for; its arrays are spread
+// back over the whole sheet, leaving the other questions to the bubble reader
+function spreadReading(reading: Record<string, unknown>, questions: number[], questionCount: number): Record<string, unknown> {
+  const spread = (values: unknown, fill: unknown) => {
+    const full = Array(questionCount).fill(fill);
+    if (Array.isArray(values)) questions.forEach((q, k) => { if (values[k] !== undefined) full[q - 1] = values[k]; });
+    return full;
+  };
+  return {
+    ...reading,
+    answers: spread(reading.answers, "?"),
+    confidence: spread(reading.confidence, "low"),
+    notes: spread(reading.notes, ""),
+    ...(Array.isArray(reading.readings) ? { readings: spread(reading.readings, null) } : {}),
+    ...(Array.isArray(reading.boxes) ? { boxes: spread(reading.boxes, null) } : {}),
+  };
+}
+
+// Compact question list for prompts, e.g. "Q3, Q7-Q9"
+function formatQuestionRanges(questions: number[]): string {
+  const ranges: string[] = [];
+  let start = questions[0];
+  for (let i = 1; i <= questions.length; i++) {
+    if (questions[i] !== questions[i - 1] + 1) {
+      const end = questions[i - 1];
+      ranges.push(start === end ? `Q${start}` : `Q${start}-Q${end}`);
+      start = questions[i];
+    }
+  }
+  return ranges.join(", ");
+}
+
+const TYPE_INSTRUCTIONS: Record<Exclude<QuestionType, "single">, (options: string[]) => string> = {
+  multi: (options) => `Multi-select: one or more options may be marked. Return every marked option, comma-separated in the order ${options.join(", ")} (e.g. "${options[0]},${options[Math.min(2, options.length - 1)]}").`,
+  numeric: () => 'Numeric: an integer or decimal written in boxes. Return the number exactly as written (e.g. "12.5", "-3", "0.75").',
+  truefalse: () => 'True/False: return "T" or "F" (a written "True"/"False" or a marked T/F bubble).',
+};
+
+// Prompt section describing non-single questions; empty when every question is single-choice
+function questionTypeSection(types: QuestionSpec[] | undefined, questionCount: number, options: string[]): string {
+  if (!types) return "";
+  const lines = (Object.keys(TYPE_INSTRUCTIONS) as Array<keyof typeof TYPE_INSTRUCTIONS>)
+    .map((type) => {
+      const questions = Array.from({ length: questionCount }, (_, i) => i + 1)
+        .filter((q) => specForQuestion(types, q - 1).type === type);
+      return questions.length > 0 ? `- ${TYPE_INSTRUCTIONS[type](options)} Questions: ${formatQuestionRanges(questions)}` : "";
+    })
+    .filter(Boolean);
+  return `
+QUESTION TYPES (all other questions are a single option: ${listOptions(options)}):
+${lines.join("\n")}
+`;
+}
+
+// Look-alike hints for letter and digit option sets
+const LETTER_CONFUSION_HINTS = `- Commonly confused letters:
+  • A vs D (A has pointed top, D has curved top)
+  • B vs D (B has bumps on right, D is smooth curve)
+  • C vs G (G has a horizontal bar)
+  • B vs 8 or 3 (B is a letter context)
+`;
+
+const DIGIT_CONFUSION_HINTS = `- Commonly confused digits:
+  • 1 vs 7 (7 has a horizontal top stroke)
+  • 3 vs 8 (8 is closed on the left)
+  • 4 vs 9 (4 is open at the top)
+`;
+
+/** Reads, grades and saves one answer sheet. Served by index.ts. */
+export async function handleRequest(req: Request): Promise<Response> {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const startedAt = Date.now();
+  // Quota held for this sheet; given back unless the result gets saved
+  let heldQuota: { client: SupabaseClient; reservation: string } | null = null;
+  try {
+    // Results are saved under the caller's account, so a signed-in user is
+    // required; the batch worker calls in on behalf of the batch's owner
+    const userId = getServiceCallerUserId(req) ?? (await getRequestUser(req))?.id;
+    if (!userId) {
+      return new Response(
+        JSON.stringify({ error: "Sign in to evaluate answer sheets" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const { imagePath, answerKey, gridConfig, detectRollNumber, detectSubjectCode, markingScheme: rawMarkingScheme, questionTypes: rawQuestionTypes, optionSet: rawOptionSet, paperSets: rawPaperSets, answerKeyId, batchId, consensus, bubbleSheet } = await req.json();
+    const markingScheme = normalizeMarkingScheme(rawMarkingScheme);
+    const optionSet = normalizeOptionSet(rawOptionSet);
+    const isLetterSet = optionSet.every((o) => /^[A-Z]$/.test(o));
+    
+    if (!answerKey || !Array.isArray(answerKey) || answerKey.length === 0 || answerKey.length > 200) {
+      return new Response(
+        JSON.stringify({ error: "Invalid input: Answer key must be a non-empty array (max 200)" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const questionTypes = normalizeQuestionTypes(rawQuestionTypes, answerKey.length);
+    const paperSets = normalizePaperSets(rawPaperSets, answerKey.length);
+    const keysToCheck: Array<{ label: string; answers: unknown[] }> = paperSets
+      ? paperSets.map((set: PaperSet) => ({ label: `Set ${set.code} answer key`, answers: set.answers }))
+      : [{ label: "Answer key", answers: answerKey }];
+    for (const { label, answers } of keysToCheck) {
+      const invalidKeyIndex = answers.findIndex((entry: unknown, i: number) =>
+        typeof entry !== "string" || !isValidKeyEntry(entry, optionSet, specForQuestion(questionTypes, i)));
+      if (invalidKeyIndex !== -1) {
+        const typeLabel = describeQuestionSpec(specForQuestion(questionTypes, invalidKeyIndex)).toLowerCase();
+        return new Response(
+          JSON.stringify({ error: `Invalid input: ${label} entry for Q${invalidKeyIndex + 1} is not a valid ${typeLabel} answer (or BONUS/DROP)` }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+    }
+
+    // The client uploads the photo once and sends its path, so retries don't resend it
+    const serviceClient = createServiceClient();
+    const sheetImage = await downloadSheetImage(serviceClient, userId, imagePath);
+    if ("error" in sheetImage) {
+      return new Response(
+        JSON.stringify({ error: sheetImage.error }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+    const image = sheetImage.dataUrl;
+
+    // Reserved only once the request is valid, so rejected input doesn't use quota
+    const quota = await reserveSheetQuota(serviceClient, userId);
+    if (!quota.allowed) {
+      return new Response(
+        JSON.stringify({ error: describeQuotaLimit(quota), retryAfter: quota.retryAfter, quota: quota.period }),
+        {
+          status: 429,
+          headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(quota.retryAfter) }
+        }
+      );
+    }
+    heldQuota = { client: serviceClient, reservation: quota.reservation };
+
+    const ai = await getAIProvider();
+
+    // ===== LOCAL BUBBLE READER: deterministic first pass on the grid =====
+    // Only for keys marked as printed bubble sheets; the reader's fixed cell
+    // layout would misread handwritten letters
+    let omrResult: OmrResult | null = null;
+    let gridBoxes: CellBox[] = [];
+    if (gridConfig && bubbleSheet === true) {
+      try {
+        const grid = await readBubbleGrid(image, gridConfig, answerKey.length, optionSet);
+        gridBoxes = grid?.cellBoxes ?? [];
+        omrResult = grid?.result ?? null;
+        // The reader only knows single-choice bubbles; typed questions always go to the model
+        if (omrResult && questionTypes) omrResult = restrictToSingleChoice(omrResult, questionTypes);
+      } catch (omrError) {
+        console.error("Bubble reader failed, falling back to AI:", omrError);
+      }
+    }
+
+    // The model is only asked for the cells the reader could not resolve, and for
+    // roll number / subject code / set code boxes which the reader does not handle.
+    const allQuestions = Array.from({ length: answerKey.length }, (_, i) => i + 1);
+    const modelQuestions = omrResult ? omrResult.ambiguousQuestions : allQuestions;
+    const needsAI = modelQuestions.length > 0 || detectRollNumber || detectSubjectCode || !!paperSets;
+    let aiCallCount = 0;
+    const modelReplies: ModelReply[] = [];
+    const timing = { readMs: 0, verifyMs: 0 };
+
+    // ===== SINGLE COMBINED CALL: Validation + Answer Extraction + Roll Number + Subject Code + Set Code =====
+    const gridInfo = gridConfig 
+      ? `Grid Layout: ${gridConfig.rows} rows × ${gridConfig.columns} columns`
+      : "Sequential layout";
+
+    const rollNumberSection = detectRollNumber ? `
+ROLL NUMBER EXTRACTION:
+- Look for a dedicated section labeled "Roll No", "Roll Number", "Reg No", "Registration Number", "Student ID", "ID Number", "Enrollment No", or similar
+- Usually located at the TOP or RIGHT side of the sheet in a row of boxes
+- Can be ANY length (typically 5-15 characters), alphanumeric (A-Z, 0-9)
+- Read ALL characters in the boxes, use uppercase
+- If partially illegible, use "?" for unclear characters but still return what you can read
+- Return null ONLY if no roll number section exists at all on the sheet
+` : "";
+
+    const subjectCodeSection = detectSubjectCode ? `
+SUBJECT CODE EXTRACTION:
+- Look for labels: "Subject Code", "Paper Code", "Course Code", "Subject", "Paper", "Code" etc.
+- Found in header area, margins, top section, or near the answer grid
+- Can be any length (2-20 chars), alphanumeric, may include dashes/slashes/dots (e.g., "CS-101", "B20IT567")
+- DO NOT confuse with roll number — subject codes are typically shorter and in a different location
+- If partially illegible, return your best guess rather than null
+- Return null ONLY if no subject code section exists at all on the sheet
+` : "";
+
+    const setCodeSection = paperSets ? `
+SET CODE EXTRACTION:
+- Look for a box labeled "Set", "Paper Set", "Question Booklet Set", "Series", "Booklet Code" or similar
+- It holds ONE short code, usually a single letter or digit, written or bubbled in
+- This exam uses the sets: ${paperSets.map((set: PaperSet) => set.code).join(", ")}
+- Return only the code itself (e.g. "B", not "Set B")
+- Return null if the box is missing, blank or unreadable — do NOT guess
+` : "";
+
+    const omrSection = omrResult ? `
+BUBBLE READER PRE-PASS:
+- A deterministic bubble reader has already read every cleanly filled bubble on this sheet.
+- ${modelQuestions.length > 0
+    ? `Read ONLY the questions it could NOT read confidently: ${formatQuestionRanges(modelQuestions)}. These cells may be blank, double-marked, erased or faint.
+- "answers" and "confidence" hold one element per listed question, in question order: EXACTLY ${modelQuestions.length} elements.`
+    : `It resolved every question. Do NOT read any answers: return empty "answers" and "confidence" arrays and only the identification fields below.`}
+` : "";
+
+    // Cell positions come from the sheet outline when the reader found it;
+    // otherwise the model reports where it read each answer
+    const needsModelBoxes = gridBoxes.length !== answerKey.length;
+    const boxesSection = needsModelBoxes ? `
+ANSWER LOCATIONS:
+- For every question you read also return "boxes": the bounding box of the cell you read, as [ymin, xmin, ymax, xmax] on a 0-1000 scale of this image.
+- "boxes" MUST have EXACTLY ${modelQuestions.length} elements, in the same order as "answers". Use null for a cell you cannot locate.
+` : "";
+
+    const combinedPrompt = `You are an expert OCR engine for handwritten OMR/grid-based answer sheets. You MUST extract answers even from EXTREMELY dim, dark, faded, or poorly-lit images taken in near-darkness or minimal ambient light.
+
+CRITICAL LOW-LIGHT HANDLING:
+- You are trained to read answer sheets photographed in VERY LOW LIGHT conditions (e.g., a single lamp, phone flashlight, twilight, or near-dark rooms).
+- Mentally MAXIMIZE contrast and brightness before reading. Treat any slight variation in pixel shade as a potential pencil mark.
+- In dim images, pencil marks appear as VERY SUBTLE gray-on-gray differences. These are VALID answers — extract them.
+- Even if the image looks almost entirely dark or washed out, there ARE answers written. Try harder.
+- Shadows, uneven lighting, and glare are expected. Read through them.
+- If you can see even the OUTLINE or GRID of the answer sheet, the answers are there — look for any tonal variation within cells.
+- For overexposed/bright areas, look for subtle indentations or shadow edges of pencil strokes.
+- NEVER give up on a cell. A "?" should ONLY be returned if the cell area is completely destroyed/torn/missing.
+
+IMAGE QUALITY ADAPTATION:
+- VERY DIM/DARK: Increase sensitivity to maximum. Any gray variation = pencil mark. Squint harder.
+- DIM/LOW CONTRAST: Look for relative darkness within cells compared to cell background.
+- FADED/WASHED OUT: Focus on edges and outlines of handwritten characters.
+- UNEVEN LIGHTING: Compare marks within the same row/column for consistency.
+- BLURRY: Use character shape heuristics (curves vs straight lines) to distinguish letters.
+
+SHEET STRUCTURE:
+1. This is an answer sheet with EXACTLY ${answerKey.length} questions.
+2. ${gridConfig ? `Grid layout: ${gridConfig.rows} rows × ${gridConfig.columns} columns. Read LEFT-TO-RIGHT across each row, then move to the next row. Q1 is at top-left, Q${gridConfig.columns} is at top-right, Q${gridConfig.columns + 1} starts the second row.` : "Questions are numbered sequentially."}
+
+ANSWER EXTRACTION RULES:
+- ${questionTypes ? "Unless listed under QUESTION TYPES, each" : "Each"} cell contains a SINGLE handwritten ${isLetterSet ? "letter" : "option"}: ${listOptions(optionSet)}.
+- NEVER use "?" unless the physical cell is destroyed or completely missing from the image.
+- For faint/barely-visible marks: ALWAYS extract a best-guess answer. Even 30% visibility is enough.
+- For crossed-out or corrected answers: use the FINAL intended answer.
+${isLetterSet ? LETTER_CONFUSION_HINTS : optionSet.every((o) => /^[0-9]$/.test(o)) ? DIGIT_CONFUSION_HINTS : ""}- If a cell has a bubble/circle filled in, read which option (${listOptions(optionSet)}) is marked.
+${questionTypeSection(questionTypes, answerKey.length, optionSet)}${omrSection}${boxesSection}${rollNumberSection}${subjectCodeSection}${setCodeSection}
+
+OUTPUT FORMAT (strict JSON, no markdown):
+{
+  "isAnswerSheet": true,
+  "quality": "good"|"fair"|"poor"|"very_poor",
+  "qualityIssues": ["description of any issues"],
+  "brightnessLevel": "normal"|"dim"|"very_dim"|"near_dark"|"bright",
+  "lightingCondition": "good"|"uneven"|"low"|"minimal"|"near_dark",
+  "answers": ["A", "B", ...],
+  "confidence": ["high"|"medium"|"low", ...]${needsModelBoxes ? ',\n  "boxes": [[ymin, xmin, ymax, xmax], ...]' : ""}${detectRollNumber ? ',\n  "rollNumber": "string or null"' : ""}${detectSubjectCode ? ',\n  "subjectCode": "string or null"' : ""}${paperSets ? ',\n  "setCode": "string or null"' : ""}
+}
+
+CRITICAL RULES:
+- "answers" array MUST have EXACTLY ${modelQuestions.length} elements.
+- Each answer MUST be ${questionTypes ? "in the format of its question type above" : `exactly one of ${optionSet.join(", ")}`} or "?" (ONLY for destroyed/missing cells).
+- You MUST attempt a best-guess for EVERY cell, even in terrible lighting.
+- Return ONLY the JSON object, nothing else.`;
+
+    // The model's reply covers only the questions it was asked to read
+    const replySchema: ReplySchema = {
+      questionCount: modelQuestions.length,
+      questionNumbers: modelQuestions,
+      optionSet,
+      questionTypes: questionTypes && modelQuestions.map((q) => specForQuestion(questionTypes, q - 1)),
+      fields: [
+        ...(detectRollNumber ? ["rollNumber" as const] : []),
+        ...(detectSubjectCode ? ["subjectCode" as const] : []),
+        ...(paperSets ? ["setCode" as const] : []),
+      ],
+    };
+    let replyValidation: ReplyValidation = { valid: true, repairAttempted: false, problems: [], filledAnswers: 0 };
+    // Filled in when consensus mode read the sheet a second time
+    let consensusReport: ConsensusReport | null = null;
+    let verification: { applied: boolean; corrections: VerificationCorrection[] } = { applied: false, corrections: [] };
+
+    let parsed: any = {};
+    if (!needsAI) {
+      parsed = {
+        isAnswerSheet: true,
+        quality: "good",
+        qualityIssues: [],
+        answers: [],
+        confidence: [],
+        notes: [],
+      };
+    } else {
+      const readStarted = Date.now();
+      const first = await readSheet(ai, combinedPrompt, image, replySchema);
+      aiCallCount += first.replies.length;
+      modelReplies.push(...first.replies.map((text, i) => ({ pass: i === 0 ? "read" : "repair", text })));
+      replyValidation = first.validation;
+      parsed = first.reading;
+
+      if (consensus === true) {
+        // Passes run one after the other so a single provider's second pass is independent of the first
+        const secondReader = await getConsensusProvider(ai);
+        const second = await readSheet(secondReader, combinedPrompt, image, replySchema);
+        aiCallCount += second.replies.length;
+        modelReplies.push(...second.replies.map((text, i) => ({ pass: i === 0 ? "consensus" : "consensus repair", text })));
+        const readers: [string, string] = secondReader === ai
+          ? [`${ai.model} (pass 1)`, `${ai.model} (pass 2)`]
+          : [ai.model, secondReader.model];
+        const merged = mergeReadings(first.reading, second.reading, readers, replySchema);
+        parsed = merged.reading;
+        consensusReport = { readers, replyValidation: second.validation, disagreements: merged.disagreements };
+      }
+      timing.readMs = Date.now() - readStarted;
+    }
+    parsed = spreadReading(parsed, modelQuestions, answerKey.length);
+
+    if (omrResult) applyOmrReadings(parsed, omrResult, answerKey.length);
+
+    // === VERIFICATION PASS for dim/poor quality or high uncertainty ===
+    const isDimOrPoor = parsed.brightnessLevel === "dim" || parsed.brightnessLevel === "very_dim" || parsed.brightnessLevel === "near_dark" || parsed.quality === "poor" || parsed.quality === "very_poor" || parsed.lightingCondition === "minimal" || parsed.lightingCondition === "near_dark";
+    const lowConfAnswers = (parsed.confidence || []).filter((c: string) => c === "low" || c === "medium");
+    const questionMarkCount = (parsed.answers || []).filter((a: string) => a === "?").length;
+    const uncertaintyRatio = parsed.answers ? lowConfAnswers.length / parsed.answers.length : 0;
+    const questionMarkRatio = parsed.answers ? questionMarkCount / parsed.answers.length : 0;
+    
+    // Trigger verification more aggressively for dim images
+    // In consensus mode disagreements go to a teacher instead of a third reading
+    if (modelQuestions.length > 0 && !consensusReport && (isDimOrPoor || uncertaintyRatio > 0.2 || questionMarkRatio > 0.1)) {
+      const verifyPrompt = `You are a SPECIALIST in reading answer sheets photographed in EXTREMELY LOW LIGHT or MINIMAL LIGHTING conditions. Your job is to verify and correct a previous OCR pass that struggled with this dim image.
+
+Previous extraction: ${JSON.stringify(parsed.answers || [])}
+Previous quality: ${parsed.quality}, brightness: ${parsed.brightnessLevel || "unknown"}, lighting: ${parsed.lightingCondition || "unknown"}
+Number of "?" (unread) cells: ${questionMarkCount} out of ${answerKey.length}
+
+THIS IMAGE WAS TAKEN IN LOW LIGHT. You MUST:
+1. Mentally boost contrast to MAXIMUM — imagine cranking brightness +200% and contrast +300%
+2. Every cell has an answer written in it. Students fill ALL cells. A "?" means the previous pass failed, not that the cell is blank.
+3. Look for the SLIGHTEST tonal variation within each cell boundary — even 5% darker = a pencil mark
+4. For cells marked "?" by previous pass: look EXTRA hard. Zoom into that cell mentally. The answer IS there.
+5. Use context clues: if surrounding answers are clear, the grid structure helps locate exact cell boundaries
+6. Common in dim photos: pencil marks appear as very subtle gray smudges — these ARE valid letters
+
+Grid: ${gridConfig ? `${gridConfig.rows}×${gridConfig.columns}` : "sequential"}, EXACTLY ${answerKey.length} questions.
+
+Return JSON only:
+{
+  "answers": ["A", "B", ...],
+  "confidence": ["high"|"medium"|"low", ...],
+  "corrections": [{"q": 1, "from": "?", "to": "B", "reason": "faint pencil mark visible as B shape"}]
+}
+
+EXACTLY ${answerKey.length} answers. Every answer MUST be ${questionTypes ? "in the format of its question type" : `one of ${optionSet.join(", ")}`}. Do NOT return "?" — always give your best guess.
+${questionTypeSection(questionTypes, answerKey.length, optionSet)}`;
+
+      const verifyStarted = Date.now();
+      try {
+        const verifyResponse = await ai.complete(verifyPrompt, image);
+        aiCallCount++;
+        modelReplies.push({ pass: "verify", text: verifyResponse });
+        // A verification reply that doesn't match the schema is ignored, not repaired
+        const verifyCheck = checkReply(verifyResponse, { questionCount: answerKey.length, optionSet, questionTypes });
+        if (verifyCheck.problems.length > 0) {
+          console.error("Verification reply failed validation:", verifyCheck.problems.join(" "));
+        } else {
+          const verified = verifyCheck.value as { answers: string[]; confidence: string[]; corrections?: unknown[] };
+          parsed.answers = parsed.answers.map((orig: string, i: number) => {
+            const origConf = (parsed.confidence || [])[i] || "unknown";
+            const verifiedAnswer = verified.answers[i];
+            // Use verified answer if original was uncertain, "?", or medium confidence
+            if (orig === "?" && verifiedAnswer !== "?") return verifiedAnswer;
+            if ((origConf === "low" || origConf === "medium") && verifiedAnswer !== "?") return verifiedAnswer;
+            return orig;
+          });
+          // Update confidence from verification
+          if (verified.confidence) {
+            parsed.confidence = verified.confidence;
+          }
+          // Verification must never override the deterministic readings
+          if (omrResult) applyOmrReadings(parsed, omrResult, answerKey.length);
+          verification = { applied: true, corrections: normalizeCorrections(verified.corrections, parsed.answers) };
+        }
+      } catch (verifyError) {
+        console.error("Verification pass failed, using original results:", verifyError);
+      }
+      timing.verifyMs = Date.now() - verifyStarted;
+    }
+
+    // Validation check
+    if (parsed.isAnswerSheet === false) {
+      return new Response(
+        JSON.stringify({ 
+          error: "The uploaded image does not appear to be an answer sheet.",
+          validationReason: "Not an answer sheet"
+        }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const rollNumber = detectRollNumber ? (parsed.rollNumber || null) : null;
+    const subjectCode = detectSubjectCode ? (parsed.subjectCode || null) : null;
+    const imageQuality = parsed.quality || "unknown";
+    const qualityIssues = parsed.qualityIssues || [];
+
+    // Soft-fail warnings for missing roll number / subject code
+    const rollNumberWarning = (detectRollNumber && !rollNumber) 
+      ? "Roll number could not be detected from the answer sheet." 
+      : null;
+    const subjectCodeWarning = (detectSubjectCode && !subjectCode)
+      ? "Subject code could not be detected from the answer sheet."
+      : null;
+
+    // Sheets whose set can't be matched have no key to be graded against yet:
+    // they are saved without a score until a teacher picks the set
+    const setCode = paperSets ? normalizeSetCode(parsed.setCode) : null;
+    const paperSet = findPaperSet(paperSets, setCode);
+    const awaitingPaperSet = !!paperSets && !paperSet;
+    const gradingKey: string[] = paperSet?.answers ?? answerKey;
+    const setCodeWarning = paperSets && !paperSet
+      ? setCode
+        ? `Set code "${setCode}" does not match any paper set of this key.`
+        : "Set code could not be detected from the answer sheet."
+      : null;
+
+    // Process extracted answers
+    let extractedAnswers: string[] = parsed.answers || [];
+    const confidenceLevels: string[] = parsed.confidence || [];
+    const analysisNotes: string[] = parsed.notes || [];
+    const answerSources: string[] = parsed.sources || [];
+    const answerReadings: (QuestionReading[] | null)[] = parsed.readings || [];
+    const modelBoxes: unknown[] = Array.isArray(parsed.boxes) ? parsed.boxes : [];
+    const boxFor = (index: number): CellBox | null => gridBoxes[index] ?? boxFromModel(modelBoxes[index]);
+
+    // Ensure correct length
+    while (extractedAnswers.length < answerKey.length) {
+      extractedAnswers.push("?");
+    }
+    // Models sometimes return numeric answers as JSON numbers
+    extractedAnswers = extractedAnswers.slice(0, answerKey.length).map((answer) => (answer == null ? "?" : String(answer)));
+    // Canonical forms ("C, A" → "A,C", "True" → "T") so results and exports read consistently
+    if (questionTypes) {
+      extractedAnswers = extractedAnswers.map((answer, i) =>
+        isUnattemptedAnswer(answer) ? answer : normalizeResponse(answer, specForQuestion(questionTypes, i)));
+    }
+
+    // When the reply had to be salvaged and nothing usable was left, saving it
+    // would record a score of 0 the student never got. A valid reply that reads
+    // every cell as blank is a blank sheet and is graded like any other.
+    if (!replyValidation.valid && extractedAnswers.every((answer) => isUnattemptedAnswer(answer))) {
+      return new Response(
+        JSON.stringify({
+          error: "The AI reply could not be used, so no answers were read from this sheet. Try again.",
+          replyValidation,
+          consensus: consensusReport,
+        }),
+        { status: 422, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Calculate score with the key's marking scheme
+    const summary = scoreAnswers(extractedAnswers, gradingKey, markingScheme, questionTypes);
+    const graded = awaitingPaperSet ? null : summary;
+    const lowConfidenceCount = confidenceLevels.slice(0, answerKey.length).filter((c) => c === "low").length;
+    const detailedResults = extractedAnswers.map((extracted, index) => {
+      const outcome = summary.outcomes[index];
+      return {
+        question: index + 1,
+        extracted: isUnattemptedAnswer(extracted) ? "UNATTEMPTED" : extracted,
+        ...(graded ? {
+          correct: gradingKey[index],
+          isCorrect: outcome.status === "correct" || outcome.status === "bonus",
+          status: outcome.status,
+          marks: outcome.marks,
+        } : {}),
+        confidence: confidenceLevels[index] || "unknown",
+        note: analysisNotes[index] || "",
+        source: answerSources[index] || "ai",
+        type: specForQuestion(questionTypes, index).type,
+        box: boxFor(index),
+        ...(answerSources[index] !== "omr" && answerReadings[index] ? { readings: answerReadings[index] } : {}),
+      };
+    });
+
+    // Dropped questions no longer count towards the paper's total
+    const totalQuestions = summary.scoredQuestions;
+    const { unattemptedCount } = summary;
+    const avgConfidence = lowConfidenceCount === 0 ? "high" : 
+                         lowConfidenceCount < totalQuestions / 2 ? "medium" : "low";
+
+    const optionSetColumn = isDefaultOptionSet(optionSet) ? null : optionSet;
+
+    const processingMetadata: ProcessingMetadata = {
+      promptVersion: PROMPT_VERSION,
+      timestamp: new Date().toISOString(),
+      aiProvider: { name: ai.name, model: ai.model },
+      aiCalls: aiCallCount,
+      replyValidation,
+      consensus: consensusReport,
+      bubbleReader: omrResult
+        ? { applied: true, resolved: omrResult.resolvedCount, ambiguous: omrResult.ambiguousQuestions.length }
+        : { applied: false, resolved: 0, ambiguous: answerKey.length },
+      verification,
+      quality: {
+        imageQuality,
+        brightnessLevel: typeof parsed.brightnessLevel === "string" ? parsed.brightnessLevel : null,
+        lightingCondition: typeof parsed.lightingCondition === "string" ? parsed.lightingCondition : null,
+        issues: qualityIssues,
+      },
+      timing: { totalMs: Date.now() - startedAt, ...timing },
+      modelReplies: modelReplies.map((reply) => ({ ...reply, text: reply.text.slice(0, MAX_STORED_REPLY_CHARS) })),
+    };
+    // The raw replies are only kept on the saved row
+    const { modelReplies: _storedReplies, ...reportedMetadata } = processingMetadata;
+
+    // ===== PERSIST: the result is graded and saved here, never by the client =====
+    const linkedKeyId = await ownedAnswerKeyId(serviceClient, userId, answerKeyId);
+    const saved = await insertEvaluation(serviceClient, {
+      user_id: userId,
+      image_url: imagePath,
+      answer_key: gradingKey,
+      answer_key_id: linkedKeyId,
+      batch_id: typeof batchId === "string" && UUID_PATTERN.test(batchId) ? batchId : null,
+      extracted_answers: extractedAnswers,
+      correct_answers: gradingKey,
+      roll_number: rollNumber,
+      subject_code: subjectCode,
+      grid_rows: gridConfig?.rows ?? null,
+      grid_columns: gridConfig?.columns ?? null,
+      score: graded?.netMarks ?? null,
+      total_questions: totalQuestions,
+      accuracy: graded?.accuracy ?? null,
+      correct_count: graded?.correctCount ?? null,
+      wrong_count: graded?.wrongCount ?? null,
+      raw_marks: graded?.rawMarks ?? null,
+      penalty_marks: graded?.penaltyMarks ?? null,
+      max_marks: graded?.maxMarks ?? null,
+      marking_scheme: markingScheme,
+      question_types: questionTypes ?? null,
+      option_set: optionSetColumn,
+      paper_set: paperSet?.code ?? null,
+      needs_paper_set: awaitingPaperSet,
+      confidence: avgConfidence,
+      low_confidence_count: lowConfidenceCount,
+      detailed_results: detailedResults,
+      processing_metadata: processingMetadata,
+    });
+    if (saved.id) {
+      // The row exists now, so the reservation is never given back; if it can't
+      // be charged the sheet is still returned rather than failed and re-sent
+      heldQuota = null;
+      try {
+        await commitSheetQuota(serviceClient, quota.reservation);
+      } catch (error) {
+        console.error("Quota commit failed:", error instanceof Error ? error.message : error);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({
+        evaluationId: saved.id, conflictWith: saved.conflictWith, saveError: saved.error,
+        extractedAnswers, correctAnswers: gradingKey,
+        rollNumber, subjectCode, gridConfig,
+        setCode, paperSet: paperSet?.code ?? null, awaitingPaperSet,
+        score: graded?.netMarks ?? null, totalQuestions,
+        attemptedQuestions: summary.attemptedCount, unattemptedCount,
+        correctCount: graded?.correctCount ?? null, wrongCount: graded?.wrongCount ?? null,
+        bonusCount: graded?.bonusCount ?? null, droppedCount: graded?.droppedCount ?? null,
+        rawMarks: graded?.rawMarks ?? null, penaltyMarks: graded?.penaltyMarks ?? null, maxMarks: graded?.maxMarks ?? null,
+        markingScheme, questionTypes: questionTypes ?? null,
+        optionSet: optionSetColumn,
+        accuracy: graded?.accuracy ?? null,
+        confidence: avgConfidence, imageQuality, lowConfidenceCount, qualityIssues,
+        detailedResults,
+        rollNumberWarning, subjectCodeWarning, setCodeWarning,
+        metadata: {
+          ...reportedMetadata,
+          processingNotes: !replyValidation.valid
+            ? `${replyValidation.filledAnswers} answer(s) could not be taken from the AI reply and were left unread.`
+            : awaitingPaperSet
+            ? "Saved without a score until the sheet's paper set is picked."
+            : qualityIssues.length > 0 
+            ? "Quality issues detected. Results may need verification."
+            : unattemptedCount > 0
+            ? `${unattemptedCount} question(s) unattempted.`
+            : "Processing completed successfully."
+        }
+      }),
+      { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error) {
+    console.error("Error:", error instanceof Error ? error.message : "Unknown error");
+    
+    if (error instanceof AIProviderError && error.status === 429) {
+      // Providers rarely say when they will take more, so suggest a pause
+      const retryAfter = error.retryAfter ?? AI_RETRY_AFTER_SECONDS;
+      return new Response(
+        JSON.stringify({ error: "Rate limit exceeded. Please try again later.", retryAfter }),
+        { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(retryAfter) } }
+      );
+    }
+    
+    return new Response(
+      JSON.stringify({ error: "An unexpected error occurred. Please try again." }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } finally {
+    if (heldQuota) {
+      await releaseSheetQuota(heldQuota.client, heldQuota.reservation)
+        .catch((error) => console.error("Quota release failed:", error instanceof Error ? error.message : error));
+    }
+  }
+}
@@ -0,0 +1,170 @@
+// Checks the model's replies against the shape the prompts ask for, so a
+// malformed reply is sent back for repair or flagged instead of being graded
+// as if it were a real reading.
+
+import { isUnattemptedAnswer, isValidResponse, specForQuestion, type QuestionSpec } from "../_shared/scoring.ts";
+import type { AIProvider } from "../_shared/aiProviders.ts";
+import type { ReplyValidation, VerificationCorrection } from "../_shared/processingMetadata.ts";
+
+const CONFIDENCE_LEVELS = ["high", "medium", "low"];
+const LISTED_QUESTIONS = 10;
+
+export interface ReplySchema {
+  questionCount: number;
+  questionNumbers?: number[];  // The question each answer is for, when only some were asked; else 1 to questionCount
+  optionSet: string[];
+  questionTypes?: QuestionSpec[];
+  fields?: Array<"rollNumber" | "subjectCode" | "setCode">;  // Identification fields the prompt asked for
+}
+
+export interface ReplyCheck {
+  value: Record<string, unknown> | null;  // The reply's JSON object, if it had one
+  problems: string[];                      // Empty when the reply matches the schema
+}
+
+// Replies are meant to be bare JSON, but some models wrap them in a code fence
+function parseReply(text: string): Record<string, unknown> | null {
+  const unfenced = text.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    const value = JSON.parse(unfenced);
+    return value && typeof value === "object" && !Array.isArray(value) ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Models sometimes return numeric answers as JSON numbers; null means unread
+function isValidAnswer(answer: unknown, schema: ReplySchema, index: number): boolean {
+  if (answer === null) return true;
+  if (typeof answer !== "string" && typeof answer !== "number") return false;
+  const value = String(answer);
+  return isUnattemptedAnswer(value) || isValidResponse(value, schema.optionSet, specForQuestion(schema.questionTypes, index));
+}
+
+const listQuestions = (questions: number[]) =>
+  questions.slice(0, LISTED_QUESTIONS).map((q) => `Q${q}`).join(", ")
+  + (questions.length > LISTED_QUESTIONS ? ` and ${questions.length - LISTED_QUESTIONS} more` : "");
+
+export const questionNumber = (schema: ReplySchema, index: number) => schema.questionNumbers?.[index] ?? index + 1;
+
+export function checkReply(text: string, schema: ReplySchema): ReplyCheck {
+  const value = parseReply(text);
+  if (!value) return { value: null, problems: ["The reply is not a single JSON object."] };
+
+  const problems: string[] = [];
+  const { answers, confidence } = value;
+  if (!Array.isArray(answers)) {
+    problems.push('"answers" is missing or not an array.');
+  } else {
+    if (answers.length !== schema.questionCount) {
+      problems.push(`"answers" has ${answers.length} elements; it must have exactly ${schema.questionCount}.`);
+    }
+    const invalid = answers
+      .slice(0, schema.questionCount)
+      .flatMap((answer, i) => (isValidAnswer(answer, schema, i) ? [] : [questionNumber(schema, i)]));
+    if (invalid.length > 0) problems.push(`Not a valid answer for the question's type: ${listQuestions(invalid)}.`);
+  }
+  if (!Array.isArray(confidence) || confidence.length !== schema.questionCount) {
+    problems.push(`"confidence" must be an array of exactly ${schema.questionCount} elements.`);
+  } else if (confidence.some((level) => !CONFIDENCE_LEVELS.includes(level))) {
+    problems.push('Every "confidence" value must be "high", "medium" or "low".');
+  }
+  if ("isAnswerSheet" in value && typeof value.isAnswerSheet !== "boolean") {
+    problems.push('"isAnswerSheet" must be true or false.');
+  }
+  for (const field of schema.fields ?? []) {
+    if (value[field] != null && typeof value[field] !== "string") problems.push(`"${field}" must be a string or null.`);
+  }
+  return { value, problems };
+}
+
+/** The prompt again, with the rejected reply and what was wrong with it. */
+export function repairPrompt(prompt: string, reply: string, problems: string[]): string {
+  return `${prompt}
+
+YOUR PREVIOUS REPLY WAS REJECTED:
+${problems.map((problem) => `- ${problem}`).join("\n")}
+
+Previous reply:
+${reply.slice(0, 4000)}
+
+Read the sheet again and return ONLY the corrected JSON object.`;
+}
+
+/**
+ * Keeps what is usable from a reply that failed the check: answers that are
+ * missing or invalid become "?" and unknown confidence becomes "low".
+ */
+export function salvageReply(value: Record<string, unknown> | null, schema: ReplySchema) {
+  const source = value ?? {};
+  const answers: unknown[] = Array.isArray(source.answers) ? source.answers : [];
+  const confidence: unknown[] = Array.isArray(source.confidence) ? source.confidence : [];
+  const notes: unknown[] = Array.isArray(source.notes) ? source.notes : [];
+  const filled = new Set<number>();
+
+  const reading: Record<string, unknown> = {
+    ...source,
+    answers: Array.from({ length: schema.questionCount }, (_, i) => {
+      const answer = answers[i];
+      if (answer === undefined || !isValidAnswer(answer, schema, i)) {
+        filled.add(i);
+        return "?";
+      }
+      return answer === null ? "?" : String(answer);
+    }),
+    confidence: Array.from({ length: schema.questionCount }, (_, i) =>
+      !filled.has(i) && CONFIDENCE_LEVELS.includes(confidence[i] as string) ? confidence[i] : "low"),
+    notes: Array.from({ length: schema.questionCount }, (_, i) =>
+      filled.has(i) ? "No usable answer in the AI reply" : typeof notes[i] === "string" ? notes[i] : ""),
+  };
+  if (typeof source.isAnswerSheet !== "boolean") delete reading.isAnswerSheet;
+  for (const field of schema.fields ?? []) {
+    if (typeof source[field] !== "string") reading[field] = null;
+  }
+  return { reading, filledAnswers: filled.size };
+}
+
+/**
+ * Reads the sheet with one provider. A reply that fails the check is sent back
+ * once for repair; if the repaired one fails too, what is usable is kept.
+ */
+export async function readSheet(ai: AIProvider, prompt: string, imageUrl: string, schema: ReplySchema) {
+  const validation: ReplyValidation = { valid: true, repairAttempted: false, problems: [], filledAnswers: 0 };
+  const replies = [await ai.complete(prompt, imageUrl)];
+  let check = checkReply(replies[0], schema);
+  if (check.problems.length > 0) {
+    console.error(`${ai.name} reply failed validation, asking for a repair:`, check.problems.join(" "));
+    validation.repairAttempted = true;
+    validation.problems = check.problems;
+    replies.push(await ai.complete(repairPrompt(prompt, replies[0], check.problems), imageUrl));
+    check = checkReply(replies[1], schema);
+  }
+  if (check.value && check.problems.length === 0) return { reading: check.value, validation, replies };
+
+  const salvaged = salvageReply(check.value, schema);
+  return {
+    reading: salvaged.reading,
+    validation: { ...validation, valid: false, filledAnswers: salvaged.filledAnswers },
+    replies,
+  };
+}
+
+/**
+ * The verification pass's list of changes, keeping the well-formed entries and
+ * marking which of them made it into the final answers.
+ */
+export function normalizeCorrections(raw: unknown, answers: string[]): VerificationCorrection[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((entry) => {
+    const question = Number(entry?.q ?? entry?.question);
+    if (!Number.isInteger(question) || question < 1 || question > answers.length) return [];
+    const to = entry?.to == null ? "" : String(entry.to);
+    return [{
+      question,
+      from: entry?.from == null ? "" : String(entry.from),
+      to,
+      reason: typeof entry?.reason === "string" ? entry.reason.slice(0, 300) : "",
+      applied: answers[question - 1] === to,
+    }];
+  });
+}
@@ -0,0 +1,206 @@
+import { decode } from "https://deno.land/x/imagescript@1.2.15/mod.ts";
+import {
+  applyHomography,
+  computeHomography,
+  downscale,
+  findSheetCorners,
+  otsuThreshold,
+  scaleQuad,
+  toGrayscale,
+  warpPerspective,
+  type GrayImage,
+  type Quad,
+} from "../_shared/vision.ts";
+import { boxFromPoints, type CellBox } from "../_shared/cellBoxes.ts";
+
+// Deterministic bubble reader. Works on the gridConfig layout: the sheet is
+// divided into rows × columns cells (read left-to-right, top-to-bottom) and
+// each cell holds a question label followed by one bubble per option. The grid
+// has to fill the sheet's outline: a header or roll-number block above it
+// shifts every cell, which the layout check below catches.
+
+const MAX_WORKING_SIDE = 1400;   // Source is downscaled to this before warping
+const CORNER_SEARCH_SIDE = 400;  // Corner detection runs on a small thumbnail
+const MAX_WARP_SIDE = 2000;
+const LABEL_FRACTION = 0.25;     // Left part of a cell reserved for the question number
+const BUBBLE_INSET = 0.2;        // Ignore the outer 20% of each bubble slot (printed outline)
+
+// Fill-density thresholds (fraction of dark pixels inside a bubble)
+const FILLED_MIN = 0.45;
+const EMPTY_MAX = 0.2;
+const MIN_MARGIN = 0.25;
+
+// If fewer cells than this resolve cleanly, the sheet is probably not a bubble
+// sheet (or the photo is too poor) and the local pass is discarded entirely.
+const MIN_RESOLVED_RATIO = 0.5;
+
+// On a grid that lines up with the sheet every bubble is clearly empty or
+// clearly filled. When more cells than this have a slot in between, the slots
+// are landing on printed text or lines and the readings are discarded.
+const MAX_MISALIGNED_RATIO = 0.5;
+
+export interface OmrCellReading {
+  question: number;
+  answer: string | null;
+  densities: number[];
+  confident: boolean;
+}
+
+export interface OmrResult {
+  readings: OmrCellReading[];
+  resolvedCount: number;
+  ambiguousQuestions: number[];
+}
+
+export interface OmrGrid {
+  // Where each question's cell sits on the photo, found from the sheet corners
+  cellBoxes: CellBox[];
+  // Null when too few cells resolved for the readings to be trusted
+  result: OmrResult | null;
+}
+
+/**
+ * Finds the sheet, maps the grid onto it and reads every bubble. Returns null
+ * when the sheet outline cannot be found at all.
+ */
+export async function readBubbleGrid(
+  imageDataUrl: string,
+  gridConfig: { rows: number; columns: number },
+  questionCount: number,
+  options: string[],
+): Promise<OmrGrid | null> {
+  const { rows, columns } = gridConfig;
+  if (!rows || !columns || questionCount === 0 || questionCount > rows * columns) return null;
+
+  const base64 = imageDataUrl.split(",")[1];
+  if (!base64) return null;
+  const bytes = Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+  const decoded = await decode(bytes);
+  if (!("bitmap" in decoded) || !decoded.width || !decoded.height) return null;
+
+  const full = toGrayscale(decoded.bitmap, decoded.width, decoded.height);
+  const { image: working } = downscale(full, MAX_WORKING_SIDE);
+  const { image: thumb, scale: thumbScale } = downscale(working, CORNER_SEARCH_SIDE);
+
+  const thumbCorners = findSheetCorners(thumb);
+  if (!thumbCorners) return null;
+  const corners = scaleQuad(thumbCorners, 1 / thumbScale);
+
+  const cellWidth = Math.min(120, Math.floor(MAX_WARP_SIDE / columns));
+  const cellHeight = Math.min(40, Math.floor(MAX_WARP_SIDE / rows));
+  const sheet = warpPerspective(working, corners, cellWidth * columns, cellHeight * rows);
+  const inkThreshold = otsuThreshold(sheet);
+  const cellBoxes = locateCells(working, corners, sheet, cellWidth, cellHeight, columns, questionCount);
+
+  const readings: OmrCellReading[] = [];
+  for (let index = 0; index < questionCount; index++) {
+    const row = Math.floor(index / columns);
+    const col = index % columns;
+    const densities = measureCell(sheet, col * cellWidth, row * cellHeight, cellWidth, cellHeight, options.length, inkThreshold);
+    readings.push(classifyCell(index + 1, densities, options));
+  }
+
+  const resolvedCount = readings.filter((r) => r.confident).length;
+  if (resolvedCount / questionCount < MIN_RESOLVED_RATIO) return { cellBoxes, result: null };
+  const misaligned = readings.filter((r) => r.densities.some((d) => d > EMPTY_MAX && d < FILLED_MIN)).length;
+  if (misaligned / questionCount > MAX_MISALIGNED_RATIO) return { cellBoxes, result: null };
+
+  return {
+    cellBoxes,
+    result: {
+      readings,
+      resolvedCount,
+      ambiguousQuestions: readings.filter((r) => !r.confident).map((r) => r.question),
+    },
+  };
+}
+
+// Projects each warped cell rectangle back onto the photo
+function locateCells(
+  working: GrayImage,
+  corners: Quad,
+  sheet: GrayImage,
+  cellWidth: number,
+  cellHeight: number,
+  columns: number,
+  questionCount: number,
+): CellBox[] {
+  const target: Quad = [
+    { x: 0, y: 0 },
+    { x: sheet.width - 1, y: 0 },
+    { x: sheet.width - 1, y: sheet.height - 1 },
+    { x: 0, y: sheet.height - 1 },
+  ];
+  const h = computeHomography(target, corners);
+
+  const boxes: CellBox[] = [];
+  for (let index = 0; index < questionCount; index++) {
+    const left = (index % columns) * cellWidth;
+    const top = Math.floor(index / columns) * cellHeight;
+    const points = [
+      applyHomography(h, left, top),
+      applyHomography(h, left + cellWidth, top),
+      applyHomography(h, left + cellWidth, top + cellHeight),
+      applyHomography(h, left, top + cellHeight),
+    ];
+    const box = boxFromPoints(points, working.width, working.height);
+    if (!box) return [];
+    boxes.push(box);
+  }
+  return boxes;
+}
+
+function measureCell(
+  sheet: GrayImage,
+  left: number,
+  top: number,
+  width: number,
+  height: number,
+  optionCount: number,
+  inkThreshold: number,
+): number[] {
+  const bubbleArea = width * (1 - LABEL_FRACTION);
+  const slotWidth = bubbleArea / optionCount;
+  const y0 = Math.floor(top + height * BUBBLE_INSET);
+  const y1 = Math.ceil(top + height * (1 - BUBBLE_INSET));
+
+  const densities: number[] = [];
+  for (let option = 0; option < optionCount; option++) {
+    const slotLeft = left + width * LABEL_FRACTION + option * slotWidth;
+    const x0 = Math.floor(slotLeft + slotWidth * BUBBLE_INSET);
+    const x1 = Math.ceil(slotLeft + slotWidth * (1 - BUBBLE_INSET));
+
+    let dark = 0;
+    let total = 0;
+    for (let y = y0; y < y1; y++) {
+      const rowOffset = y * sheet.width;
+      for (let x = x0; x < x1; x++) {
+        if (sheet.data[rowOffset + x] < inkThreshold) dark++;
+        total++;
+      }
+    }
+    densities.push(total > 0 ? Math.round((dark / total) * 1000) / 1000 : 0);
+  }
+  return densities;
+}
+
+function classifyCell(question: number, densities: number[], options: string[]): OmrCellReading {
+  const ranked = densities
+    .map((density, i) => ({ density, i }))
+    .sort((a, b) => b.density - a.density);
+  const [top, second] = ranked;
+  const secondDensity = second?.density ?? 0;
+
+  // Only a single clearly filled bubble with every other bubble clearly empty
+  // counts. Blank cells, double marks and erasures are left to the model.
+  const confident = top.density >= FILLED_MIN
+    && secondDensity <= EMPTY_MAX
+    && top.density - secondDensity >= MIN_MARGIN;
+
+  return {
+    question,
+    answer: confident ? options[top.i] : null,
+    densities,
+    confident,
+  };
+}
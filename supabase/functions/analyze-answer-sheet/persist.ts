@@ -0,0 +1,92 @@
+// Storage side of the analyzer: the photo is read from the answer-sheets bucket,
+// where the client uploaded it, and the graded result is written to the
+// evaluations table with the service role so the client never writes scores.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { encode } from "https://deno.land/std@0.168.0/encoding/base64.ts";
+import { findAuthoritative, nextVersion, type VersionGroup } from "../_shared/versions.ts";
+
+const MAX_IMAGE_BYTES = 15 * 1024 * 1024;
+
+export type SheetImage = { dataUrl: string } | { error: string };
+
+/**
+ * Reads the sheet photo the client uploaded to its own folder of the bucket,
+ * as a data URL for the bubble reader and the model.
+ */
+export async function downloadSheetImage(client: SupabaseClient, userId: string, path: unknown): Promise<SheetImage> {
+  if (typeof path !== "string" || !path.startsWith(`${userId}/`) || path.includes("..")) {
+    return { error: "Invalid input: imagePath must point to a sheet you uploaded" };
+  }
+  const { data, error } = await client.storage.from("answer-sheets").download(path);
+  if (error || !data) {
+    console.error("Sheet download failed:", error?.message);
+    return { error: "Uploaded sheet image not found" };
+  }
+  if (!data.type.startsWith("image/")) return { error: "Invalid input: the uploaded file is not an image" };
+  if (data.size > MAX_IMAGE_BYTES) return { error: "Image too large (max 15MB)" };
+
+  const bytes = new Uint8Array(await data.arrayBuffer());
+  return { dataUrl: `data:${data.type};base64,${encode(bytes)}` };
+}
+
+/** The saved key the sheet was graded with, if it belongs to the user. */
+export async function ownedAnswerKeyId(client: SupabaseClient, userId: string, keyId: unknown): Promise<string | null> {
+  if (typeof keyId !== "string" || !keyId) return null;
+  const { data } = await client
+    .from("saved_answer_keys")
+    .select("id")
+    .eq("id", keyId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  return data?.id ?? null;
+}
+
+export interface SavedEvaluation {
+  id: string | null;
+  conflictWith: string | null;  // Saved scan of the same roll number and subject, if any
+  error: string | null;
+}
+
+/**
+ * Inserts the evaluation row. A rescan of a student who already has a result
+ * for the subject and exam joins that result's version history as a
+ * non-authoritative scan pointing at it, for the teacher to resolve. Returns a
+ * message the teacher can act on when the row could not be written.
+ */
+export async function insertEvaluation(client: SupabaseClient, row: VersionGroup & Record<string, unknown>): Promise<SavedEvaluation> {
+  try {
+    let saved = await insertVersion(client, row);
+    // Another scan of the same student was saved as authoritative between the
+    // lookup and the insert: this one becomes a rescan of it instead
+    if ("raced" in saved) saved = await insertVersion(client, row);
+    if ("raced" in saved) throw saved.raced;
+    return saved;
+  } catch (error) {
+    console.error("Evaluation insert failed:", error instanceof Error ? error.message : error);
+    return { id: null, conflictWith: null, error: "Evaluation completed but couldn't be saved." };
+  }
+}
+
+const UNIQUE_VIOLATION = "23505";
+
+async function insertVersion(
+  client: SupabaseClient,
+  row: VersionGroup & Record<string, unknown>,
+): Promise<SavedEvaluation | { raced: unknown }> {
+  const existing = await findAuthoritative(client, row);
+  const versioning = existing
+    ? {
+        lineage_id: existing.lineage_id,
+        version: await nextVersion(client, existing.lineage_id),
+        version_source: "rescan",
+        is_authoritative: false,
+        conflict_with: existing.id,
+      }
+    : {};
+
+  const { data, error } = await client.from("evaluations").insert({ ...row, ...versioning }).select("id").single();
+  if (error?.code === UNIQUE_VIOLATION && !existing) return { raced: error };
+  if (error) throw error;
+  return { id: data.id, conflictWith: existing?.id ?? null, error: null };
+}
@@ -0,0 +1,230 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { createServiceClient, getRequestUser, getServiceCallerUserId, isServiceCall, serviceCallHeaders } from "../_shared/auth.ts";
+import { runJob, STALE_AFTER_MS, type BatchJob } from "./worker.ts";
+
+// Server-side batch processing. The client uploads the sheet photos, creates a
+// job here and can then close the tab: a worker run (the "work" action, which
+// only other functions may call) processes the items in the background and
+// chains into a new run until the job is done. A scheduled "sweep" restarts
+// jobs whose worker died without chaining. Progress is read from the
+// batch_jobs and batch_items tables.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void } | undefined;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_ITEMS_PER_JOB = 500;
+// Analyzer fields every sheet of the job is sent with
+const SETTINGS_FIELDS = [
+  "answerKey", "gridConfig", "detectRollNumber", "detectSubjectCode",
+  "markingScheme", "questionTypes", "optionSet", "paperSets", "answerKeyId", "consensus",
+  "bubbleSheet",
+];
+
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+/** Keeps the function alive for work that outlasts the response. */
+function runInBackground(task: Promise<unknown>) {
+  const logged = task.catch((error) => console.error("Batch worker failed:", error instanceof Error ? error.message : error));
+  if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(logged);
+}
+
+/** Starts a worker run for the job in a fresh invocation, with its own time limit. */
+async function startWorker(userId: string, jobId: string) {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/batch-jobs`, {
+    method: "POST",
+    headers: serviceCallHeaders(userId),
+    body: JSON.stringify({ action: "work", jobId }),
+  });
+  if (!response.ok) console.error("Batch worker did not start:", response.status);
+  await response.body?.cancel();
+}
+
+async function fetchOwnedJob(client: SupabaseClient, userId: string, jobId: unknown): Promise<BatchJob & { heartbeat_at: string | null }> {
+  if (typeof jobId !== "string" || !jobId) throw new RequestError("jobId is required");
+  const { data, error } = await client
+    .from("batch_jobs")
+    .select("id, user_id, status, settings, concurrency, heartbeat_at")
+    .eq("id", jobId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new RequestError("Batch not found", 404);
+  return data;
+}
+
+function parseItems(userId: string, items: unknown): Array<{ file_name: string; image_path: string }> {
+  if (!Array.isArray(items) || items.length === 0) throw new RequestError("items must list at least one sheet");
+  return items.map((item, i) => {
+    const path = item?.imagePath;
+    if (typeof path !== "string" || !path.startsWith(`${userId}/`) || path.includes("..")) {
+      throw new RequestError(`Sheet ${i + 1} must point to an image you uploaded`);
+    }
+    const name = typeof item.fileName === "string" && item.fileName ? item.fileName.slice(0, 255) : `Sheet ${i + 1}`;
+    return { file_name: name, image_path: path };
+  });
+}
+
+async function insertItems(client: SupabaseClient, userId: string, jobId: string, items: unknown) {
+  const parsed = parseItems(userId, items);
+  const { data: last } = await client
+    .from("batch_items")
+    .select("position")
+    .eq("job_id", jobId)
+    .order("position", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  const first = last ? last.position + 1 : 0;
+  if (first + parsed.length > MAX_ITEMS_PER_JOB) throw new RequestError(`A batch holds at most ${MAX_ITEMS_PER_JOB} sheets`);
+
+  const { error } = await client.from("batch_items").insert(
+    parsed.map((item, i) => ({ ...item, job_id: jobId, user_id: userId, position: first + i })),
+  );
+  if (error) throw error;
+  return parsed.length;
+}
+
+/** Queues the job again and starts a worker unless a live one is already on it. */
+async function wakeJob(client: SupabaseClient, userId: string, job: BatchJob & { heartbeat_at: string | null }) {
+  const workerAlive = job.status === "running" && !!job.heartbeat_at &&
+    Date.now() - Date.parse(job.heartbeat_at) < STALE_AFTER_MS;
+  if (workerAlive) return;
+  const { error } = await client.from("batch_jobs").update({ status: "queued" }).eq("id", job.id);
+  if (error) throw error;
+  await startWorker(userId, job.id);
+}
+
+async function createJob(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const raw = (body.settings ?? {}) as Record<string, unknown>;
+  if (!Array.isArray(raw.answerKey) || raw.answerKey.length === 0) throw new RequestError("settings.answerKey is required");
+  const settings = Object.fromEntries(SETTINGS_FIELDS.filter((field) => raw[field] !== undefined).map((field) => [field, raw[field]]));
+  const expectedCount = Number.isInteger(body.expectedCount) ? body.expectedCount : null;
+  parseItems(userId, body.items);
+
+  const { data: job, error } = await client
+    .from("batch_jobs")
+    .insert({ user_id: userId, settings, expected_count: expectedCount })
+    .select("id, user_id, status, settings, concurrency, heartbeat_at")
+    .single();
+  if (error) throw error;
+
+  try {
+    await insertItems(client, userId, job.id, body.items);
+  } catch (insertError) {
+    await client.from("batch_jobs").delete().eq("id", job.id);
+    throw insertError;
+  }
+  await startWorker(userId, job.id);
+  return { jobId: job.id };
+}
+
+async function addItems(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const job = await fetchOwnedJob(client, userId, body.jobId);
+  const added = await insertItems(client, userId, job.id, body.items);
+  await wakeJob(client, userId, job);
+  return { added };
+}
+
+/** Queues failed sheets again, all of them or just the ones listed. */
+async function retryItems(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const job = await fetchOwnedJob(client, userId, body.jobId);
+  let query = client
+    .from("batch_items")
+    .update({ status: "pending", attempts: 0, throttle_count: 0, error: null, retry_at: null, finished_at: null })
+    .eq("job_id", job.id)
+    .eq("status", "error");
+  if (Array.isArray(body.itemIds)) query = query.in("id", body.itemIds.filter((id) => typeof id === "string"));
+  const { data, error } = await query.select("id");
+  if (error) throw error;
+  if (data.length > 0) await wakeJob(client, userId, job);
+  return { retried: data.length };
+}
+
+/** Stops the job after the sheets being read now; the rest stay pending. */
+async function cancelJob(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const job = await fetchOwnedJob(client, userId, body.jobId);
+  const { error } = await client.from("batch_jobs").update({ status: "cancelled" }).eq("id", job.id);
+  if (error) throw error;
+  return { cancelled: job.id };
+}
+
+/** Picks a stopped or stalled job back up, e.g. when a device reattaches to it. */
+async function resumeJob(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const job = await fetchOwnedJob(client, userId, body.jobId);
+  if (job.status === "completed") return { resumed: false };
+  await wakeJob(client, userId, job);
+  return { resumed: true };
+}
+
+/**
+ * Restarts unfinished jobs no worker has made progress on for a while, e.g.
+ * because a run crashed before chaining the next one. Called every minute by
+ * a pg_cron job.
+ */
+async function sweepStaleJobs(client: SupabaseClient) {
+  const staleSince = new Date(Date.now() - STALE_AFTER_MS).toISOString();
+  const { data, error } = await client
+    .from("batch_jobs")
+    .select("id, user_id, status, settings, concurrency, heartbeat_at")
+    .in("status", ["queued", "running"])
+    .or(`heartbeat_at.lt.${staleSince},and(heartbeat_at.is.null,created_at.lt.${staleSince})`);
+  if (error) throw error;
+  for (const job of data ?? []) await wakeJob(client, job.user_id, job);
+  return { restarted: data?.length ?? 0 };
+}
+
+const ACTIONS = {
+  "create": createJob,
+  "add-items": addItems,
+  "retry": retryItems,
+  "cancel": cancelJob,
+  "resume": resumeJob,
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body = await req.json();
+    const client = createServiceClient();
+
+    if (body?.action === "work") {
+      const userId = getServiceCallerUserId(req);
+      if (!userId) return json({ error: "Not allowed" }, 403);
+      const job = await fetchOwnedJob(client, userId, body.jobId);
+      if (job.status === "cancelled" || job.status === "completed") return json({ started: false });
+      runInBackground(runJob(client, job).then((more) => more ? startWorker(userId, job.id) : undefined));
+      return json({ started: true }, 202);
+    }
+
+    if (body?.action === "sweep") {
+      if (!isServiceCall(req)) return json({ error: "Not allowed" }, 403);
+      return json(await sweepStaleJobs(client));
+    }
+
+    const user = await getRequestUser(req);
+    if (!user) return json({ error: "Sign in to process batches" }, 401);
+
+    const action = ACTIONS[body?.action as keyof typeof ACTIONS];
+    if (!action) return json({ error: `Unknown action "${body?.action}"` }, 400);
+
+    return json(await action(client, user.id, body));
+  } catch (error) {
+    if (error instanceof RequestError) return json({ error: error.message }, error.status);
+    console.error("Error:", error instanceof Error ? error.message : error);
+    return json({ error: "An unexpected error occurred. Please try again." }, 500);
+  }
+});
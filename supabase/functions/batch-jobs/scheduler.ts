@@ -0,0 +1,50 @@
+// Pacing for the batch worker: how many sheets it reads at once and how long a
+// sheet waits before another attempt.
+
+const MIN_CONCURRENCY = 1;
+const MAX_CONCURRENCY = 8;
+const INITIAL_CONCURRENCY = 3;
+const BASE_BACKOFF_MS = 2_000;
+const MAX_BACKOFF_MS = 60_000;
+
+/**
+ * Concurrency that halves when the analyzer pushes back (429 or 5xx) and grows
+ * by one after a full round of successes at the current level.
+ */
+export class AdaptiveConcurrency {
+  private current: number;
+  private successes = 0;
+
+  constructor(initial = INITIAL_CONCURRENCY) {
+    this.current = Math.min(MAX_CONCURRENCY, Math.max(MIN_CONCURRENCY, initial));
+  }
+
+  get limit() {
+    return this.current;
+  }
+
+  succeeded() {
+    this.successes++;
+    if (this.successes >= this.current && this.current < MAX_CONCURRENCY) {
+      this.current++;
+      this.successes = 0;
+    }
+  }
+
+  throttled() {
+    this.current = Math.max(MIN_CONCURRENCY, Math.floor(this.current / 2));
+    this.successes = 0;
+  }
+}
+
+/** Exponential delay before the given attempt, jittered so retries of many sheets don't line up. */
+export function backoffDelay(attempt: number): number {
+  const ceiling = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** Math.max(0, attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * (ceiling / 2));
+}
+
+/** The wait a 429 asked for, from its Retry-After header or retryAfter field, in ms. */
+export function retryAfterMs(header: string | null, bodyValue: unknown): number | null {
+  const seconds = Number(header ?? bodyValue);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : null;
+}
@@ -0,0 +1,229 @@
+// The batch worker: claims pending sheets of a job, runs each through
+// analyze-answer-sheet on behalf of the job's owner and records the outcome on
+// the item. How many sheets it reads at once adapts to how the analyzer copes,
+// and sheets that hit a limit or a server error are retried after a backoff.
+// A run stops claiming sheets early enough for the ones it is reading to finish
+// before the function's time limit, and hands the rest of the job to a fresh run.
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { serviceCallHeaders } from "../_shared/auth.ts";
+import { AdaptiveConcurrency, backoffDelay, retryAfterMs } from "./scheduler.ts";
+
+// Edge functions are stopped after 150 s; a run, including the sheets still
+// being read when it stops claiming, stays under this
+const RUN_BUDGET_MS = 140_000;
+// Longest a single analyzer call may take before the sheet is retried
+const ANALYZE_TIMEOUT_MS = 90_000;
+const MAX_ATTEMPTS = 5;
+// Rate limits don't use up attempts; a sheet throttled this often fails instead
+const MAX_THROTTLE_RETRIES = 20;
+// A sheet claimed this long ago by a run that never finished it is claimed again
+export const STALE_AFTER = "5 minutes";
+export const STALE_AFTER_MS = 5 * 60 * 1000;
+
+export interface BatchJob {
+  id: string;
+  user_id: string;
+  status: string;
+  settings: Record<string, unknown>;
+  concurrency: number | null;
+}
+
+interface ClaimedItem {
+  id: string;
+  image_path: string;
+  attempts: number;
+  throttle_count: number;
+}
+
+interface ItemOutcome {
+  update: Record<string, unknown>;
+  throttled: boolean;  // The analyzer pushed back (429 or 5xx); read fewer sheets at once
+  pauseMs?: number;    // Start no other sheet for this long
+}
+
+class ItemError extends Error {
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const inMs = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+async function analyzeItem(job: BatchJob, item: ClaimedItem): Promise<ItemOutcome> {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/analyze-answer-sheet`, {
+    method: "POST",
+    headers: serviceCallHeaders(job.user_id),
+    body: JSON.stringify({ ...job.settings, imagePath: item.image_path, batchId: job.id }),
+    signal: AbortSignal.timeout(ANALYZE_TIMEOUT_MS),
+  }).catch((error) => {
+    if (error instanceof DOMException && error.name === "TimeoutError") throw new ItemError("Analyzer timed out", true);
+    throw error;
+  });
+  const result = await response.json().catch(() => ({}));
+
+  // A used-up daily or monthly quota won't free up within this batch's retries
+  if (response.status === 429 && (result.quota === "day" || result.quota === "month")) {
+    throw new ItemError(result.error || "Grading quota reached", false);
+  }
+  if (response.status === 429) {
+    if (item.throttle_count >= MAX_THROTTLE_RETRIES) {
+      throw new ItemError(`Still rate limited after ${MAX_THROTTLE_RETRIES} retries; retry the sheet later`, false);
+    }
+    // Being rate limited isn't the sheet's fault, so it doesn't use up an attempt
+    const wait = retryAfterMs(response.headers.get("Retry-After"), result.retryAfter) ?? backoffDelay(item.attempts);
+    return {
+      throttled: true,
+      pauseMs: wait,
+      update: {
+        status: "pending",
+        attempts: item.attempts - 1,
+        throttle_count: item.throttle_count + 1,
+        retry_at: inMs(wait),
+        error: "Rate limited, waiting to retry",
+      },
+    };
+  }
+  // 4xx means the sheet itself was rejected; trying again won't change that
+  if (!response.ok) throw new ItemError(result.error || `Server error (${response.status})`, response.status >= 500);
+  if (!result.evaluationId) throw new ItemError(`Not saved: ${result.saveError || "database error"}`, true);
+
+  // Sheets whose set couldn't be matched are saved without a score and held
+  // until a teacher picks the set; a rescan of a student already graded waits
+  // for a keep/replace decision first
+  const needsSet = result.awaitingPaperSet === true;
+  return {
+    throttled: false,
+    update: {
+      status: result.conflictWith ? "conflict" : needsSet ? "review" : "completed",
+      evaluation_id: result.evaluationId,
+      needs_paper_set: needsSet,
+      set_code: result.setCode ?? null,
+      error: needsSet ? result.setCodeWarning ?? null : null,
+      finished_at: new Date().toISOString(),
+    },
+  };
+}
+
+async function processItem(client: SupabaseClient, job: BatchJob, item: ClaimedItem): Promise<ItemOutcome> {
+  let outcome: ItemOutcome;
+  try {
+    outcome = await analyzeItem(job, item);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Processing failed";
+    const retryable = !(error instanceof ItemError) || error.retryable;
+    outcome = retryable && item.attempts < MAX_ATTEMPTS
+      ? { throttled: true, update: { status: "pending", retry_at: inMs(backoffDelay(item.attempts)), error: `${message} (retrying)` } }
+      : { throttled: retryable, update: { status: "error", error: message, finished_at: new Date().toISOString() } };
+  }
+  const { error } = await client.from("batch_items").update(outcome.update).eq("id", item.id);
+  if (error) console.error("Batch item update failed:", error.message);
+  return outcome;
+}
+
+async function countItems(client: SupabaseClient, jobId: string, status: string) {
+  const { count, error } = await client
+    .from("batch_items")
+    .select("id", { count: "exact", head: true })
+    .eq("job_id", jobId)
+    .eq("status", status);
+  if (error) throw error;
+  return count ?? 0;
+}
+
+/** When the earliest sheet waiting on a backoff may be tried again, if any. */
+async function nextRetryAt(client: SupabaseClient, jobId: string): Promise<number | null> {
+  const { data, error } = await client
+    .from("batch_items")
+    .select("retry_at")
+    .eq("job_id", jobId)
+    .eq("status", "pending")
+    .not("retry_at", "is", null)
+    .order("retry_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+  if (error) throw error;
+  return data?.retry_at ? Date.parse(data.retry_at) : null;
+}
+
+async function updateJob(client: SupabaseClient, jobId: string, update: Record<string, unknown>) {
+  const { error } = await client.from("batch_jobs").update(update).eq("id", jobId);
+  if (error) throw error;
+}
+
+/**
+ * Processes the job's pending sheets until none are left or the run's time is
+ * up. Returns true when sheets remain and another run should pick them up.
+ */
+export async function runJob(client: SupabaseClient, job: BatchJob): Promise<boolean> {
+  // Nothing new is claimed after this, so the last sheets can still finish
+  const claimUntil = Date.now() + RUN_BUDGET_MS - ANALYZE_TIMEOUT_MS;
+  const concurrency = new AdaptiveConcurrency(job.concurrency ?? undefined);
+  const inFlight = new Set<Promise<void>>();
+  let pausedUntil = 0;
+  let cancelled = false;
+
+  const start = (item: ClaimedItem) => {
+    const task: Promise<void> = processItem(client, job, item)
+      .then((outcome) => {
+        if (outcome.throttled) concurrency.throttled();
+        else concurrency.succeeded();
+        if (outcome.pauseMs) pausedUntil = Math.max(pausedUntil, Date.now() + outcome.pauseMs);
+      })
+      .finally(() => inFlight.delete(task));
+    inFlight.add(task);
+  };
+
+  await updateJob(client, job.id, { status: "running", heartbeat_at: new Date().toISOString(), concurrency: concurrency.limit });
+
+  while (Date.now() < claimUntil) {
+    const { data: current } = await client.from("batch_jobs").select("status").eq("id", job.id).maybeSingle();
+    if (!current || current.status === "cancelled") {
+      cancelled = true;
+      break;
+    }
+
+    // After a 429 nothing new starts until the analyzer said it would take more
+    if (pausedUntil > Date.now()) {
+      await sleep(Math.min(pausedUntil, claimUntil) - Date.now());
+      continue;
+    }
+
+    let claimed: ClaimedItem[] = [];
+    const free = concurrency.limit - inFlight.size;
+    if (free > 0) {
+      const { data, error } = await client.rpc("claim_batch_items", {
+        _job_id: job.id,
+        _limit: free,
+        _stale_after: STALE_AFTER,
+      });
+      if (error) throw error;
+      claimed = (data ?? []) as ClaimedItem[];
+      claimed.forEach(start);
+    }
+    await updateJob(client, job.id, { heartbeat_at: new Date().toISOString(), concurrency: concurrency.limit });
+
+    if (inFlight.size > 0) {
+      await Promise.race(inFlight);
+      continue;
+    }
+    if (claimed.length === 0) {
+      // Only sheets waiting on a backoff are left: sleep until the first one is due
+      const next = await nextRetryAt(client, job.id);
+      if (next === null) break;
+      await sleep(Math.max(0, Math.min(next, claimUntil) - Date.now()));
+    }
+  }
+
+  await Promise.all(inFlight);
+  await updateJob(client, job.id, { concurrency: concurrency.limit });
+  if (cancelled) return false;
+
+  if (await countItems(client, job.id, "pending") > 0) return true;
+  // Sheets still being read belong to another run, which finishes the job
+  if (await countItems(client, job.id, "processing") === 0) {
+    await client.from("batch_jobs").update({ status: "completed" }).eq("id", job.id).neq("status", "cancelled");
+  }
+  return false;
+}
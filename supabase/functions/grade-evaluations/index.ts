@@ -0,0 +1,377 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.75.0";
+import { createServiceClient, getRequestUser } from "../_shared/auth.ts";
+import {
+  confirmDetails,
+  correctSheet,
+  gradeWithSet,
+  regradeSheet,
+  type CorrectableSheet,
+  type StoredSheet,
+} from "../_shared/grading.ts";
+import { findPaperSet, normalizePaperSets } from "../_shared/paperSets.ts";
+import { archiveVersion, makeAuthoritative, nextVersion } from "../_shared/versions.ts";
+import {
+  isValidKeyEntry,
+  normalizeOptionSet,
+  normalizeQuestionTypes,
+  specForQuestion,
+} from "../_shared/scoring.ts";
+
+// Every change to a saved evaluation's score goes through here: clients can
+// read their evaluations but only this function (with the service role) writes
+// the graded columns. Each action checks that the row belongs to the caller.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const REGRADE_BATCH_SIZE = 10;
+const MAX_REASON_LENGTH = 500;
+
+class RequestError extends Error {
+  constructor(message: string, readonly status = 400) {
+    super(message);
+  }
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+async function fetchOwnedEvaluation<T>(
+  client: SupabaseClient,
+  userId: string,
+  evaluationId: unknown,
+  columns: string,
+): Promise<T & { id: string }> {
+  if (typeof evaluationId !== "string" || !evaluationId) throw new RequestError("evaluationId is required");
+  const { data, error } = await client
+    .from("evaluations")
+    .select(columns)
+    .eq("id", evaluationId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data) throw new RequestError("Evaluation not found", 404);
+  return data as unknown as T & { id: string };
+}
+
+async function updateEvaluation(client: SupabaseClient, userId: string, id: string, update: Record<string, unknown>) {
+  const { error } = await client.from("evaluations").update(update).eq("id", id).eq("user_id", userId);
+  if (error) throw error;
+}
+
+/** Moves the batch item that produced an evaluation on, so every device following the batch sees it. */
+async function updateBatchItem(
+  client: SupabaseClient,
+  userId: string,
+  evaluationId: string,
+  fromStatus: string,
+  update: Record<string, unknown>,
+  match: Record<string, unknown> = {},
+) {
+  const { error } = await client
+    .from("batch_items")
+    .update(update)
+    .eq("evaluation_id", evaluationId)
+    .eq("user_id", userId)
+    .eq("status", fromStatus)
+    .match(match);
+  if (error) throw error;
+}
+
+interface ScoredRow extends CorrectableSheet {
+  lineage_id: string;
+  version: number;
+  version_source: string;
+  score: number;
+  total_questions: number;
+  accuracy: number;
+  correct_count: number | null;
+  wrong_count: number | null;
+  raw_marks: number | null;
+  penalty_marks: number | null;
+  max_marks: number | null;
+  low_confidence_count: number | null;
+  needs_paper_set: boolean;
+}
+
+/**
+ * Overrides one extracted answer and records it in answer_corrections. The
+ * sheet keeps its id and becomes a new "correction" version; its previous
+ * state is kept as a copy in the version history. apply_answer_correction does
+ * all three in one transaction, so none of them happens without the others.
+ */
+async function correctAnswer(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const { evaluationId, question, answer, reason } = body;
+  if (typeof answer !== "string") throw new RequestError("answer must be a string");
+  const trimmedReason = typeof reason === "string" ? reason.trim().slice(0, MAX_REASON_LENGTH) : "";
+  if (!trimmedReason) throw new RequestError("A reason is required for every correction");
+
+  const row = await fetchOwnedEvaluation<ScoredRow>(client, userId, evaluationId, "*");
+  if (row.needs_paper_set) throw new RequestError("Pick the sheet's paper set before correcting its answers");
+  let graded;
+  try {
+    graded = correctSheet(row, Number(question), answer, trimmedReason);
+  } catch (error) {
+    throw new RequestError(error instanceof Error ? error.message : "Invalid correction");
+  }
+
+  const { data, error } = await client.rpc("apply_answer_correction", {
+    _evaluation_id: row.id,
+    _user_id: userId,
+    _expected_version: row.version,
+    _fields: graded.fields,
+    _question_number: Number(question),
+    _original_answer: graded.originalAnswer,
+    _new_answer: graded.newAnswer,
+    _reason: trimmedReason,
+  });
+  if (error) throw error;
+  const correction = data?.[0];
+  if (!correction) throw new RequestError("The sheet changed while it was being corrected; reload it and try again");
+
+  return { summary: graded.summary, fields: graded.fields, correction };
+}
+
+async function confirmAnswers(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const questions = Array.isArray(body.questions) ? body.questions.filter(Number.isInteger) as number[] : [];
+  if (questions.length === 0) throw new RequestError("questions must list at least one question number");
+
+  const row = await fetchOwnedEvaluation<{ detailed_results: unknown }>(client, userId, body.evaluationId, "id, detailed_results");
+  const update = confirmDetails(row.detailed_results, questions);
+  await updateEvaluation(client, userId, row.id, update);
+  return update;
+}
+
+/**
+ * Grades a sheet whose set code could not be read against the set a teacher
+ * picked; until then it was saved without a score. Linked keys supply their
+ * own sets; otherwise the sets sent with the request are validated like any
+ * other key. A sheet that already has a score is left alone: changing it goes
+ * through a correction or a re-grade, which keep a version and an audit trail.
+ */
+async function assignPaperSet(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const row = await fetchOwnedEvaluation<
+    CorrectableSheet & StoredSheet & { answer_key_id: string | null; needs_paper_set: boolean }
+  >(
+    client, userId, body.evaluationId,
+    "id, answer_key_id, extracted_answers, correct_answers, marking_scheme, question_types, option_set, detailed_results, paper_set, needs_paper_set",
+  );
+  if (!row.needs_paper_set) throw new RequestError("This sheet is already graded against a paper set");
+  const questionCount = row.correct_answers.length;
+
+  let paperSets = normalizePaperSets(body.paperSets, questionCount);
+  if (row.answer_key_id) {
+    const { data: key } = await client
+      .from("saved_answer_keys")
+      .select("paper_sets")
+      .eq("id", row.answer_key_id)
+      .eq("user_id", userId)
+      .maybeSingle();
+    paperSets = normalizePaperSets(key?.paper_sets, questionCount);
+  }
+
+  const set = findPaperSet(paperSets, typeof body.code === "string" ? body.code : null);
+  if (!set) throw new RequestError(`Set "${body.code}" is not a paper set of this key`);
+
+  const options = normalizeOptionSet(row.option_set);
+  const questionTypes = normalizeQuestionTypes(row.question_types, questionCount);
+  if (set.answers.some((entry, i) => !isValidKeyEntry(entry, options, specForQuestion(questionTypes, i)))) {
+    throw new RequestError(`Set ${set.code} answer key has invalid entries`);
+  }
+
+  const { summary, update } = gradeWithSet(row, set);
+  await updateEvaluation(client, userId, row.id, { ...update, needs_paper_set: false });
+  await updateBatchItem(client, userId, row.id, "review", { status: "completed", needs_paper_set: false, error: null });
+  return { summary, fields: update };
+}
+
+/**
+ * Re-scores the sheets that count for a saved key against its current answers
+ * and settings. Each sheet the key changes becomes a new "regrade" version;
+ * sheets it grades the same way, earlier versions and rescans still waiting for
+ * a decision are left as they are.
+ */
+async function regradeKey(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  if (typeof body.answerKeyId !== "string") throw new RequestError("answerKeyId is required");
+  const { data: key, error: keyError } = await client
+    .from("saved_answer_keys")
+    .select("id, answers, marking_scheme, question_types, option_set, paper_sets")
+    .eq("id", body.answerKeyId)
+    .eq("user_id", userId)
+    .maybeSingle();
+  if (keyError) throw keyError;
+  if (!key) throw new RequestError("Answer key not found", 404);
+
+  let query = client
+    .from("evaluations")
+    .select("*")
+    .eq("answer_key_id", key.id)
+    .eq("user_id", userId)
+    .eq("is_authoritative", true)
+    .is("conflict_with", null)
+    .eq("needs_paper_set", false);
+  // Limit to the sheets the teacher previewed, when given
+  if (Array.isArray(body.evaluationIds)) query = query.in("id", body.evaluationIds.filter((id) => typeof id === "string"));
+  const { data, error } = await query;
+  if (error) throw error;
+  const rows = (data ?? []) as (StoredSheet & { id: string; lineage_id: string })[];
+
+  const changed = rows
+    .map((row) => ({ row, update: regradeSheet(row, key).update }))
+    .filter(({ row, update }) => !isUnchanged(row, update));
+
+  let failed = 0;
+  for (let i = 0; i < changed.length; i += REGRADE_BATCH_SIZE) {
+    const results = await Promise.all(
+      changed.slice(i, i + REGRADE_BATCH_SIZE).map(({ row, update }) =>
+        regradeVersion(client, userId, row, update).then(() => true, () => false)
+      ),
+    );
+    failed += results.filter((ok) => !ok).length;
+  }
+  return { updated: changed.length - failed, unchanged: rows.length - changed.length, failed };
+}
+
+async function regradeVersion(
+  client: SupabaseClient,
+  userId: string,
+  row: StoredSheet & { id: string; lineage_id: string },
+  update: Record<string, unknown>,
+) {
+  await archiveVersion(client, { ...row });
+  const version = await nextVersion(client, row.lineage_id);
+  await updateEvaluation(client, userId, row.id, { ...update, version, version_source: "regrade" });
+}
+
+// jsonb reorders object keys and numeric columns keep two decimals, so
+// values are compared in that form rather than as written
+function canonical(value: unknown): unknown {
+  if (typeof value === "number") return Math.round(value * 100) / 100;
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([, entry]) => entry !== undefined)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, entry]) => [name, canonical(entry)]),
+    );
+  }
+  return value ?? null;
+}
+
+/** Whether re-grading would write back exactly what the row already holds. */
+function isUnchanged(row: object, update: Record<string, unknown>) {
+  const stored = row as Record<string, unknown>;
+  return Object.entries(update).every(([column, value]) =>
+    JSON.stringify(canonical(value)) === JSON.stringify(canonical(stored[column]))
+  );
+}
+
+const DUPLICATE_CHOICES = ["keep-old", "replace", "keep-both"] as const;
+
+interface RescanRow {
+  lineage_id: string;
+  is_authoritative: boolean;
+  conflict_with: string | null;
+}
+
+/**
+ * Settles a rescan that was saved next to an existing result for the same
+ * student, subject and exam. "keep-old" discards the rescan; "keep-both" files
+ * it as another version while the saved result keeps counting; "replace" makes
+ * the rescan the authoritative result. The old result is then only demoted,
+ * never deleted, so it and its correction log stay in the lineage.
+ */
+async function resolveDuplicate(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const choice = DUPLICATE_CHOICES.find((c) => c === body.choice);
+  if (!choice) throw new RequestError(`choice must be one of ${DUPLICATE_CHOICES.join(", ")}`);
+
+  const rescan = await fetchOwnedEvaluation<RescanRow>(
+    client, userId, body.evaluationId, "id, lineage_id, is_authoritative, conflict_with",
+  );
+  // Without conflict_with the saved result was deleted meanwhile; anything else
+  // non-authoritative is an ordinary earlier version
+  let pending = !rescan.is_authoritative && !!rescan.conflict_with;
+  if (!rescan.is_authoritative && !rescan.conflict_with) {
+    const { count, error } = await client
+      .from("evaluations")
+      .select("id", { count: "exact", head: true })
+      .eq("lineage_id", rescan.lineage_id)
+      .eq("is_authoritative", true);
+    if (error) throw error;
+    pending = count === 0;
+  }
+  if (!pending) throw new RequestError("This sheet has no pending duplicate");
+
+  if (choice === "keep-both") {
+    if (!rescan.conflict_with) throw new RequestError("The saved result no longer exists; keep or discard the new scan");
+    const { error } = await client
+      .from("evaluations")
+      .update({ conflict_with: null })
+      .eq("id", rescan.id)
+      .eq("user_id", userId);
+    if (error) throw error;
+    await updateBatchItem(client, userId, rescan.id, "conflict", {
+      status: "completed", evaluation_id: rescan.conflict_with, needs_paper_set: false, error: null,
+    });
+    return { kept: rescan.conflict_with, removed: null };
+  }
+
+  if (choice === "keep-old") {
+    // The batch item now shows the saved result, which needs no set picked
+    await updateBatchItem(client, userId, rescan.id, "conflict", {
+      status: "completed", evaluation_id: rescan.conflict_with, needs_paper_set: false, error: null,
+    });
+    const { error } = await client.from("evaluations").delete().eq("id", rescan.id).eq("user_id", userId);
+    if (error) throw error;
+    return { kept: rescan.conflict_with, removed: rescan.id };
+  }
+
+  await makeAuthoritative(client, userId, rescan.lineage_id, rescan.id);
+  await updateBatchItem(client, userId, rescan.id, "conflict", { status: "review" }, { needs_paper_set: true });
+  await updateBatchItem(client, userId, rescan.id, "conflict", { status: "completed" }, { needs_paper_set: false });
+  return { kept: rescan.id, removed: null };
+}
+
+/** Marks an earlier or later version as the result that counts for the student. */
+async function setAuthoritative(client: SupabaseClient, userId: string, body: Record<string, unknown>) {
+  const row = await fetchOwnedEvaluation<{ lineage_id: string; conflict_with: string | null }>(
+    client, userId, body.evaluationId, "id, lineage_id, conflict_with",
+  );
+  if (row.conflict_with) throw new RequestError("Resolve this rescan against the saved result first");
+  await makeAuthoritative(client, userId, row.lineage_id, row.id);
+  return { authoritative: row.id };
+}
+
+const ACTIONS = {
+  "correct": correctAnswer,
+  "confirm": confirmAnswers,
+  "assign-paper-set": assignPaperSet,
+  "regrade": regradeKey,
+  "resolve-duplicate": resolveDuplicate,
+  "set-authoritative": setAuthoritative,
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const user = await getRequestUser(req);
+    if (!user) return json({ error: "Sign in to change evaluations" }, 401);
+
+    const body = await req.json();
+    const action = ACTIONS[body?.action as keyof typeof ACTIONS];
+    if (!action) return json({ error: `Unknown action "${body?.action}"` }, 400);
+
+    return json(await action(createServiceClient(), user.id, body));
+  } catch (error) {
+    if (error instanceof RequestError) return json({ error: error.message }, error.status);
+    console.error("Error:", error instanceof Error ? error.message : error);
+    return json({ error: "An unexpected error occurred. Please try again." }, 500);
+  }
+});
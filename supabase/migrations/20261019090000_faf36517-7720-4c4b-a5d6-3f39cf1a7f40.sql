@@ -0,0 +1,24 @@
+-- Marking scheme per saved answer key, e.g. {"correct": 4, "wrong": -1, "unattempted": 0, "sections": [...]}
+ALTER TABLE public.saved_answer_keys
+ADD COLUMN IF NOT EXISTS marking_scheme JSONB;
+
+-- Scores become net marks, which can be fractional or negative
+ALTER TABLE public.evaluations
+ALTER COLUMN score TYPE NUMERIC(8,2);
+
+-- Marks breakdown and the scheme that produced it
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS correct_count INTEGER,
+ADD COLUMN IF NOT EXISTS wrong_count INTEGER,
+ADD COLUMN IF NOT EXISTS raw_marks NUMERIC(8,2),
+ADD COLUMN IF NOT EXISTS penalty_marks NUMERIC(8,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS max_marks NUMERIC(8,2),
+ADD COLUMN IF NOT EXISTS marking_scheme JSONB;
+
+-- Existing rows were scored one mark per correct answer with no penalty
+UPDATE public.evaluations
+SET correct_count = score,
+    raw_marks = score,
+    penalty_marks = 0,
+    max_marks = total_questions
+WHERE raw_marks IS NULL;
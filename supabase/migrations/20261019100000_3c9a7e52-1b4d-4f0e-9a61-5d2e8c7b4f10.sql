@@ -0,0 +1,6 @@
+-- Link each evaluation to the saved answer key it was graded with, so editing
+-- the key can re-grade the sheets from their stored extracted answers
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS answer_key_id UUID REFERENCES public.saved_answer_keys(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_evaluations_answer_key_id ON public.evaluations(answer_key_id);
@@ -0,0 +1,7 @@
+-- Per-question answer types, e.g. [{"type": "single"}, {"type": "numeric", "tolerance": 0.5}, ...]
+-- NULL means every question is single-choice (A–E)
+ALTER TABLE public.saved_answer_keys
+ADD COLUMN IF NOT EXISTS question_types JSONB;
+
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS question_types JSONB;
@@ -0,0 +1,7 @@
+-- Options printed on the sheet, e.g. {A,B,C,D} or {1,2,3,4}
+-- NULL means the default A–E
+ALTER TABLE public.saved_answer_keys
+ADD COLUMN IF NOT EXISTS option_set TEXT[];
+
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS option_set TEXT[];
@@ -0,0 +1,8 @@
+-- Paper set variants of a key, e.g. [{"code": "A", "answers": [...]}, {"code": "B", "answers": [...]}]
+-- NULL means the key has a single set; "answers" always mirrors the first variant
+ALTER TABLE public.saved_answer_keys
+ADD COLUMN IF NOT EXISTS paper_sets JSONB;
+
+-- Set code the sheet was graded against (NULL for keys without paper sets)
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS paper_set TEXT;
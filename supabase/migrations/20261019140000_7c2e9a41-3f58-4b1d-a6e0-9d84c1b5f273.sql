@@ -0,0 +1,37 @@
+-- Audit trail of manual corrections to extracted answers. Rows are append-only:
+-- there are no update or delete policies, so a disputed score can always be
+-- traced back to the sheet as read.
+CREATE TABLE IF NOT EXISTS public.answer_corrections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  evaluation_id UUID NOT NULL REFERENCES public.evaluations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  question_number INTEGER NOT NULL,
+  original_answer TEXT NOT NULL,
+  new_answer TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  old_score NUMERIC,
+  new_score NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_answer_corrections_evaluation
+ON public.answer_corrections(evaluation_id, created_at DESC);
+
+-- Enable RLS
+ALTER TABLE public.answer_corrections ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own answer corrections"
+ON public.answer_corrections
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users insert corrections on own evaluations"
+ON public.answer_corrections
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.evaluations e
+    WHERE e.id = evaluation_id AND e.user_id = auth.uid()
+  )
+);
@@ -0,0 +1,12 @@
+-- Sheets processed in the same batch run share a batch_id (NULL for single uploads)
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS batch_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_evaluations_batch_id
+ON public.evaluations(user_id, batch_id);
+
+-- Low-confidence review queue: low_confidence_count counts cells still waiting
+-- for review, so the queue only has to read sheets where it is above zero
+CREATE INDEX IF NOT EXISTS idx_evaluations_review_queue
+ON public.evaluations(user_id, created_at DESC)
+WHERE low_confidence_count > 0;
@@ -0,0 +1,17 @@
+-- Evaluations are now written by the analyze-answer-sheet and grade-evaluations
+-- edge functions with the service role, which bypasses RLS. Clients keep read
+-- and delete access to their own rows but can no longer insert sheets or
+-- change scores directly.
+DROP POLICY IF EXISTS "Users insert own evaluations" ON public.evaluations;
+
+REVOKE INSERT, UPDATE ON public.evaluations FROM anon, authenticated;
+
+-- Identification fields stay editable by the owner ("Users update own
+-- evaluations" still scopes the rows)
+GRANT UPDATE (roll_number, subject_code) ON public.evaluations TO authenticated;
+
+-- The correction audit trail is written together with the re-scored sheet by
+-- grade-evaluations, so clients only read it
+DROP POLICY IF EXISTS "Users insert corrections on own evaluations" ON public.answer_corrections;
+
+REVOKE INSERT, UPDATE, DELETE ON public.answer_corrections FROM anon, authenticated;
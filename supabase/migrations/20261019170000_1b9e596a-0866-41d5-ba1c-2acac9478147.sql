@@ -0,0 +1,17 @@
+-- Rescans of a sheet that is already saved (same roll number and subject code)
+-- are kept instead of rejected. The new scan waits in conflict_with until the
+-- teacher keeps the old result, replaces it, or keeps both; only one scan per
+-- student and subject is authoritative at a time.
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS is_authoritative BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN IF NOT EXISTS conflict_with UUID REFERENCES public.evaluations(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS idx_unique_roll_subject_per_user;
+
+CREATE UNIQUE INDEX idx_unique_roll_subject_per_user
+ON public.evaluations (user_id, roll_number, subject_code)
+WHERE roll_number IS NOT NULL AND subject_code IS NOT NULL AND is_authoritative;
+
+CREATE INDEX IF NOT EXISTS idx_evaluations_conflict_with
+ON public.evaluations(conflict_with)
+WHERE conflict_with IS NOT NULL;
@@ -0,0 +1,59 @@
+-- Version history for evaluations. Every scan, rescan and manual correction of
+-- a student's sheet is a row sharing one lineage_id; exactly one row of a
+-- lineage is authoritative and that is the one shown and exported. The exam is
+-- the saved answer key the sheet was graded with.
+ALTER TABLE public.evaluations
+ADD COLUMN IF NOT EXISTS lineage_id UUID,
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1,
+ADD COLUMN IF NOT EXISTS version_source TEXT NOT NULL DEFAULT 'scan'
+  CHECK (version_source IN ('scan', 'rescan', 'correction'));
+
+-- Existing rows: scans of the same student, subject and exam form one lineage,
+-- numbered in the order they were taken
+WITH numbered AS (
+  SELECT
+    id,
+    first_value(id) OVER w AS lineage,
+    row_number() OVER w AS position
+  FROM public.evaluations
+  WHERE roll_number IS NOT NULL AND subject_code IS NOT NULL
+  WINDOW w AS (PARTITION BY user_id, roll_number, subject_code, answer_key_id ORDER BY created_at)
+)
+UPDATE public.evaluations e
+SET lineage_id = numbered.lineage,
+    version = numbered.position,
+    version_source = CASE WHEN numbered.position = 1 THEN 'scan' ELSE 'rescan' END
+FROM numbered
+WHERE e.id = numbered.id;
+
+UPDATE public.evaluations SET lineage_id = id WHERE lineage_id IS NULL;
+
+ALTER TABLE public.evaluations ALTER COLUMN lineage_id SET NOT NULL;
+
+-- A new scan starts its own lineage unless it is saved into an existing one
+CREATE OR REPLACE FUNCTION public.set_evaluation_lineage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+BEGIN
+  NEW.lineage_id = COALESCE(NEW.lineage_id, NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_evaluations_lineage
+BEFORE INSERT ON public.evaluations
+FOR EACH ROW
+EXECUTE FUNCTION public.set_evaluation_lineage();
+
+CREATE INDEX IF NOT EXISTS idx_evaluations_lineage
+ON public.evaluations(lineage_id, version DESC);
+
+-- One authoritative result per student, subject and exam
+DROP INDEX IF EXISTS idx_unique_roll_subject_per_user;
+
+CREATE UNIQUE INDEX idx_unique_roll_subject_per_user
+ON public.evaluations (user_id, roll_number, subject_code, COALESCE(answer_key_id, '00000000-0000-0000-0000-000000000000'::uuid))
+WHERE roll_number IS NOT NULL AND subject_code IS NOT NULL AND is_authoritative;
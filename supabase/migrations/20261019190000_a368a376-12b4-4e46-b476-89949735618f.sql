@@ -0,0 +1,9 @@
+-- Sheet photos are referenced by their path in the private answer-sheets
+-- bucket; the app signs short-lived links when it shows them. Turn the stored
+-- one-year signed (or public) links back into paths.
+UPDATE public.evaluations
+SET image_url = regexp_replace(image_url, '^https?://[^?]*/storage/v1/object/(sign|public)/answer-sheets/([^?]+)(\?.*)?$', '\2')
+WHERE image_url ~ '^https?://[^?]*/storage/v1/object/(sign|public)/answer-sheets/';
+
+COMMENT ON COLUMN public.evaluations.image_url IS
+  'Path of the sheet photo in the answer-sheets bucket, or storage-upload-failed';
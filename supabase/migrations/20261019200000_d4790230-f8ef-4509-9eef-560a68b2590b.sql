@@ -0,0 +1,79 @@
+-- Server-side batch processing. A job carries the analyzer settings shared by
+-- its sheets and each item is one uploaded sheet. Only the batch-jobs function
+-- writes these tables; its worker claims pending items, so a batch keeps going
+-- after the tab closes and can be followed from any device.
+CREATE TABLE public.batch_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'completed', 'cancelled')),
+  settings JSONB NOT NULL,
+  expected_count INTEGER,
+  heartbeat_at TIMESTAMP WITH TIME ZONE,  -- Last time a worker made progress
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.batch_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  job_id UUID NOT NULL REFERENCES public.batch_jobs(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  file_name TEXT NOT NULL,
+  image_path TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'completed', 'review', 'conflict', 'error')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  evaluation_id UUID REFERENCES public.evaluations(id) ON DELETE SET NULL,
+  needs_paper_set BOOLEAN NOT NULL DEFAULT false,
+  set_code TEXT,
+  error TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (job_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_batch_jobs_user_id ON public.batch_jobs (user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_batch_items_job_status ON public.batch_items (job_id, status);
+CREATE INDEX IF NOT EXISTS idx_batch_items_evaluation_id ON public.batch_items (evaluation_id);
+
+ALTER TABLE public.batch_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.batch_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users view own batch jobs" ON public.batch_jobs FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users view own batch items" ON public.batch_items FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_updated_at_batch_jobs
+  BEFORE UPDATE ON public.batch_jobs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_updated_at_batch_items
+  BEFORE UPDATE ON public.batch_items
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hands the next pending sheets of a job to a worker. Sheets a worker took but
+-- never finished (it timed out or crashed) become claimable again once stale.
+CREATE OR REPLACE FUNCTION public.claim_batch_items(_job_id UUID, _limit INTEGER, _stale_after INTERVAL)
+RETURNS SETOF public.batch_items
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.batch_items
+  SET status = 'processing', started_at = now(), attempts = attempts + 1, error = NULL
+  WHERE id IN (
+    SELECT id FROM public.batch_items
+    WHERE job_id = _job_id
+      AND (status = 'pending' OR (status = 'processing' AND started_at < now() - _stale_after))
+    ORDER BY position
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_batch_items(UUID, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Progress reaches every open tab and device through realtime
+ALTER PUBLICATION supabase_realtime ADD TABLE public.batch_jobs, public.batch_items;
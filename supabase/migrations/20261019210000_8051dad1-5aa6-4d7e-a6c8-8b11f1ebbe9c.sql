@@ -0,0 +1,34 @@
+-- Backoff for batch sheets. A sheet that hit a rate limit or a server error
+-- goes back to pending with a retry_at before which no worker claims it, and
+-- finished_at records when a sheet was done so throughput can be shown. The
+-- job keeps the number of sheets its worker currently reads at once.
+ALTER TABLE public.batch_items
+ADD COLUMN IF NOT EXISTS retry_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS finished_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.batch_jobs
+ADD COLUMN IF NOT EXISTS concurrency INTEGER;
+
+CREATE OR REPLACE FUNCTION public.claim_batch_items(_job_id UUID, _limit INTEGER, _stale_after INTERVAL)
+RETURNS SETOF public.batch_items
+LANGUAGE sql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  UPDATE public.batch_items
+  SET status = 'processing', started_at = now(), attempts = attempts + 1, error = NULL, retry_at = NULL
+  WHERE id IN (
+    SELECT id FROM public.batch_items
+    WHERE job_id = _job_id
+      AND (
+        (status = 'pending' AND (retry_at IS NULL OR retry_at <= now()))
+        OR (status = 'processing' AND started_at < now() - _stale_after)
+      )
+    ORDER BY position
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING *;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_batch_items(UUID, INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,166 @@
+-- Grading quotas kept in the database, keyed by the verified user and, for
+-- members, by their organization, so every function instance and cold start
+-- sees the same counts. Each sheet admitted to the analyzer is one usage event;
+-- limits left NULL on a user fall back to the defaults in quota_status, and an
+-- organization only limits the periods it sets.
+CREATE TABLE public.organizations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  per_minute_limit INTEGER CHECK (per_minute_limit > 0),
+  daily_limit INTEGER CHECK (daily_limit > 0),
+  monthly_limit INTEGER CHECK (monthly_limit > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.user_quotas (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  per_minute_limit INTEGER CHECK (per_minute_limit > 0),
+  daily_limit INTEGER CHECK (daily_limit > 0),
+  monthly_limit INTEGER CHECK (monthly_limit > 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.usage_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES public.organizations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_organization_id ON public.organization_members (organization_id);
+CREATE INDEX IF NOT EXISTS idx_usage_events_user_id ON public.usage_events (user_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_usage_events_organization_id ON public.usage_events (organization_id, created_at);
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.user_quotas ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.usage_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members view own organization" ON public.organizations FOR SELECT TO authenticated
+  USING (id IN (SELECT organization_id FROM public.organization_members WHERE user_id = auth.uid()));
+CREATE POLICY "Users view own membership" ON public.organization_members FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users view own quota" ON public.user_quotas FOR SELECT TO authenticated USING (auth.uid() = user_id);
+CREATE POLICY "Users view own usage" ON public.usage_events FOR SELECT TO authenticated USING (auth.uid() = user_id);
+
+CREATE TRIGGER set_updated_at_organizations
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER set_updated_at_user_quotas
+  BEFORE UPDATE ON public.user_quotas
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Usage against every limit that applies to the user: the last minute (rolling),
+-- the current day and the current month (UTC), for the user and for their
+-- organization. resets_at is when usage next drops below the limit.
+CREATE OR REPLACE FUNCTION public.quota_status(_user_id UUID)
+RETURNS TABLE (scope TEXT, period TEXT, used INTEGER, quota_limit INTEGER, resets_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH limits AS (
+    SELECT 'user'::text AS scope, NULL::uuid AS organization_id,
+      COALESCE(q.per_minute_limit, 60) AS per_minute,
+      COALESCE(q.daily_limit, 500) AS daily,
+      COALESCE(q.monthly_limit, 5000) AS monthly
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.user_quotas q ON q.user_id = _user_id
+    UNION ALL
+    SELECT 'organization', o.id, o.per_minute_limit, o.daily_limit, o.monthly_limit
+    FROM public.organization_members m
+    JOIN public.organizations o ON o.id = m.organization_id
+    WHERE m.user_id = _user_id
+  ),
+  periods AS (
+    SELECT l.scope, l.organization_id, p.period, p.quota_limit, p.since, p.resets_at
+    FROM limits l
+    CROSS JOIN LATERAL (VALUES
+      ('minute', l.per_minute, now() - INTERVAL '1 minute', NULL::timestamptz),
+      ('day', l.daily, date_trunc('day', now(), 'UTC'), date_trunc('day', now(), 'UTC') + INTERVAL '1 day'),
+      ('month', l.monthly, date_trunc('month', now(), 'UTC'), date_trunc('month', now(), 'UTC') + INTERVAL '1 month')
+    ) AS p(period, quota_limit, since, resets_at)
+    WHERE p.quota_limit IS NOT NULL
+  )
+  SELECT p.scope, p.period, COUNT(e.id)::integer, p.quota_limit,
+    COALESCE(p.resets_at, MIN(e.created_at) + INTERVAL '1 minute', now())
+  FROM periods p
+  LEFT JOIN public.usage_events e
+    ON e.created_at >= p.since
+    AND CASE WHEN p.scope = 'user' THEN e.user_id = _user_id ELSE e.organization_id = p.organization_id END
+  GROUP BY p.scope, p.organization_id, p.period, p.quota_limit, p.resets_at;
+$$;
+
+-- Admits one sheet for grading when no limit is used up and records it.
+-- Sheets counted against the same quota are admitted one at a time, so
+-- parallel requests can't all slip in under the limit.
+CREATE OR REPLACE FUNCTION public.consume_sheet_quota(_user_id UUID)
+RETURNS TABLE (allowed BOOLEAN, scope TEXT, period TEXT, quota_limit INTEGER, resets_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id UUID;
+  _exceeded RECORD;
+BEGIN
+  SELECT m.organization_id INTO _organization_id FROM public.organization_members m WHERE m.user_id = _user_id;
+  PERFORM pg_advisory_xact_lock(hashtext('sheet-quota:' || COALESCE(_organization_id, _user_id)::text));
+
+  SELECT s.* INTO _exceeded
+  FROM public.quota_status(_user_id) s
+  WHERE s.used >= s.quota_limit
+  ORDER BY s.resets_at DESC
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN QUERY SELECT false, _exceeded.scope, _exceeded.period, _exceeded.quota_limit, _exceeded.resets_at;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.usage_events (user_id, organization_id) VALUES (_user_id, _organization_id);
+  RETURN QUERY SELECT true, NULL::text, NULL::text, NULL::integer, NULL::timestamptz;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.quota_status(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_sheet_quota(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The signed-in user's own quota status and daily sheet counts, for the usage page
+CREATE OR REPLACE FUNCTION public.get_my_quota_status()
+RETURNS TABLE (scope TEXT, period TEXT, used INTEGER, quota_limit INTEGER, resets_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM public.quota_status(auth.uid());
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_my_daily_usage(_days INTEGER DEFAULT 30)
+RETURNS TABLE (day DATE, sheets INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT (created_at AT TIME ZONE 'UTC')::date AS day, COUNT(*)::integer
+  FROM public.usage_events
+  WHERE user_id = auth.uid()
+    AND created_at >= date_trunc('day', now(), 'UTC') - make_interval(days => LEAST(GREATEST(_days, 1), 366) - 1)
+  GROUP BY 1
+  ORDER BY 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_my_quota_status() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.get_my_daily_usage(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.get_my_quota_status() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.get_my_daily_usage(INTEGER) TO authenticated;
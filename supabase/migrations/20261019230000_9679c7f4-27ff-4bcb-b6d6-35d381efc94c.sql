@@ -0,0 +1,4 @@
+-- Keys for high-stakes exams can have every sheet read twice and compared;
+-- questions the two readings disagree on go to the review queue
+ALTER TABLE public.saved_answer_keys
+  ADD COLUMN IF NOT EXISTS consensus_mode BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,5 @@
+-- How each sheet was read: prompt version, model, verification corrections,
+-- quality flags, timing and the raw model replies. Written by the analyzer and
+-- shown in the history details; copies made for the version history keep it.
+ALTER TABLE public.evaluations
+  ADD COLUMN IF NOT EXISTS processing_metadata JSONB;
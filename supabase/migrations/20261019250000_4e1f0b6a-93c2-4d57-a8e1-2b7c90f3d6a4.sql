@@ -0,0 +1,5 @@
+-- The local bubble reader assumes a printed bubble layout (question number on
+-- the left, evenly spaced option bubbles). Keys opt in to it, so handwritten
+-- grid sheets are left to the model.
+ALTER TABLE public.saved_answer_keys
+  ADD COLUMN IF NOT EXISTS bubble_sheet BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,8 @@
+-- A sheet whose paper set code can't be matched has no key to be graded
+-- against, so it is saved without a score and flagged until a teacher picks
+-- the set (grade-evaluations assign-paper-set). Exports, re-grading and the
+-- review queue leave flagged sheets out.
+ALTER TABLE public.evaluations
+  ADD COLUMN IF NOT EXISTS needs_paper_set BOOLEAN NOT NULL DEFAULT false,
+  ALTER COLUMN score DROP NOT NULL,
+  ALTER COLUMN accuracy DROP NOT NULL;
@@ -0,0 +1,8 @@
+-- Re-grading a sheet against an edited key records a new version of it, like
+-- a manual correction, instead of rewriting the graded row in place
+ALTER TABLE public.evaluations
+DROP CONSTRAINT IF EXISTS evaluations_version_source_check;
+
+ALTER TABLE public.evaluations
+ADD CONSTRAINT evaluations_version_source_check
+  CHECK (version_source IN ('scan', 'rescan', 'correction', 'regrade'));
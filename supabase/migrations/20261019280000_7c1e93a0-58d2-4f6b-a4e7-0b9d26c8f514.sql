@@ -0,0 +1,27 @@
+-- Restarts batch jobs whose worker stopped without handing the job to a new
+-- run. Every minute, if a queued or running job has made no progress for five
+-- minutes, the batch-jobs function is asked to sweep. The project URL and
+-- service role key are read from the vault (secrets "project_url" and
+-- "service_role_key").
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'sweep-stale-batch-jobs',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/batch-jobs',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{"action": "sweep"}'::jsonb
+  )
+  WHERE EXISTS (
+    SELECT 1 FROM public.batch_jobs
+    WHERE status IN ('queued', 'running')
+      AND COALESCE(heartbeat_at, created_at) < now() - interval '5 minutes'
+  );
+  $$
+);
@@ -0,0 +1,5 @@
+-- Being rate limited doesn't use up a sheet's attempts, so it is counted
+-- separately: a sheet throttled too often is failed rather than
+-- retried forever.
+ALTER TABLE public.batch_items
+ADD COLUMN IF NOT EXISTS throttle_count INTEGER NOT NULL DEFAULT 0;
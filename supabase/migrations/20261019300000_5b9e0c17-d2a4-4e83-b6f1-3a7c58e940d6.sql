@@ -0,0 +1,101 @@
+-- A sheet's quota is reserved before it is read and only kept once its result
+-- is saved: sheets the analyzer refuses or fails on, and retries of them, are
+-- not charged. A reservation counts against the limits while it is open, and
+-- one left behind by a request that died stops counting after ten minutes.
+ALTER TABLE public.usage_events
+ADD COLUMN IF NOT EXISTS committed BOOLEAN NOT NULL DEFAULT true;
+
+CREATE OR REPLACE FUNCTION public.quota_status(_user_id UUID)
+RETURNS TABLE (scope TEXT, period TEXT, used INTEGER, quota_limit INTEGER, resets_at TIMESTAMP WITH TIME ZONE)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH limits AS (
+    SELECT 'user'::text AS scope, NULL::uuid AS organization_id,
+      COALESCE(q.per_minute_limit, 60) AS per_minute,
+      COALESCE(q.daily_limit, 500) AS daily,
+      COALESCE(q.monthly_limit, 5000) AS monthly
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.user_quotas q ON q.user_id = _user_id
+    UNION ALL
+    SELECT 'organization', o.id, o.per_minute_limit, o.daily_limit, o.monthly_limit
+    FROM public.organization_members m
+    JOIN public.organizations o ON o.id = m.organization_id
+    WHERE m.user_id = _user_id
+  ),
+  periods AS (
+    SELECT l.scope, l.organization_id, p.period, p.quota_limit, p.since, p.resets_at
+    FROM limits l
+    CROSS JOIN LATERAL (VALUES
+      ('minute', l.per_minute, now() - INTERVAL '1 minute', NULL::timestamptz),
+      ('day', l.daily, date_trunc('day', now(), 'UTC'), date_trunc('day', now(), 'UTC') + INTERVAL '1 day'),
+      ('month', l.monthly, date_trunc('month', now(), 'UTC'), date_trunc('month', now(), 'UTC') + INTERVAL '1 month')
+    ) AS p(period, quota_limit, since, resets_at)
+    WHERE p.quota_limit IS NOT NULL
+  )
+  SELECT p.scope, p.period, COUNT(e.id)::integer, p.quota_limit,
+    COALESCE(p.resets_at, MIN(e.created_at) + INTERVAL '1 minute', now())
+  FROM periods p
+  LEFT JOIN public.usage_events e
+    ON e.created_at >= p.since
+    AND (e.committed OR e.created_at >= now() - INTERVAL '10 minutes')
+    AND CASE WHEN p.scope = 'user' THEN e.user_id = _user_id ELSE e.organization_id = p.organization_id END
+  GROUP BY p.scope, p.organization_id, p.period, p.quota_limit, p.resets_at;
+$$;
+
+DROP FUNCTION IF EXISTS public.consume_sheet_quota(UUID);
+
+-- Reserves quota for one sheet when no limit is used up and returns the
+-- reservation; the analyzer commits it once the result is saved and releases
+-- it otherwise. Sheets counted against the same quota are admitted one at a
+-- time, so parallel requests can't all slip in under the limit.
+CREATE OR REPLACE FUNCTION public.reserve_sheet_quota(_user_id UUID)
+RETURNS TABLE (allowed BOOLEAN, scope TEXT, period TEXT, quota_limit INTEGER, resets_at TIMESTAMP WITH TIME ZONE, reservation_id UUID)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _organization_id UUID;
+  _exceeded RECORD;
+  _reservation_id UUID;
+BEGIN
+  SELECT m.organization_id INTO _organization_id FROM public.organization_members m WHERE m.user_id = _user_id;
+  PERFORM pg_advisory_xact_lock(hashtext('sheet-quota:' || COALESCE(_organization_id, _user_id)::text));
+
+  SELECT s.* INTO _exceeded
+  FROM public.quota_status(_user_id) s
+  WHERE s.used >= s.quota_limit
+  ORDER BY s.resets_at DESC
+  LIMIT 1;
+  IF FOUND THEN
+    RETURN QUERY SELECT false, _exceeded.scope, _exceeded.period, _exceeded.quota_limit, _exceeded.resets_at, NULL::uuid;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.usage_events (user_id, organization_id, committed)
+  VALUES (_user_id, _organization_id, false)
+  RETURNING id INTO _reservation_id;
+  RETURN QUERY SELECT true, NULL::text, NULL::text, NULL::integer, NULL::timestamptz, _reservation_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_sheet_quota(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.get_my_daily_usage(_days INTEGER DEFAULT 30)
+RETURNS TABLE (day DATE, sheets INTEGER)
+LANGUAGE sql
+STABLE
+SECURITY INVOKER
+SET search_path = public
+AS $$
+  SELECT (created_at AT TIME ZONE 'UTC')::date AS day, COUNT(*)::integer
+  FROM public.usage_events
+  WHERE user_id = auth.uid()
+    AND committed
+    AND created_at >= date_trunc('day', now(), 'UTC') - make_interval(days => LEAST(GREATEST(_days, 1), 366) - 1)
+  GROUP BY 1
+  ORDER BY 1;
+$$;
@@ -0,0 +1,71 @@
+-- A manual correction keeps a copy of the sheet as it was, writes the corrected
+-- grading as a new "correction" version and logs it in answer_corrections in
+-- one transaction: a failure part-way leaves neither a stray copy in the
+-- lineage nor a change without its audit entry. Returns no row when the sheet
+-- is not the caller's or has changed since it was read.
+CREATE OR REPLACE FUNCTION public.apply_answer_correction(
+  _evaluation_id UUID,
+  _user_id UUID,
+  _expected_version INTEGER,
+  _fields JSONB,
+  _question_number INTEGER,
+  _original_answer TEXT,
+  _new_answer TEXT,
+  _reason TEXT
+)
+RETURNS SETOF public.answer_corrections
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _row public.evaluations;
+  _copy public.evaluations;
+  _graded public.evaluations;
+  _version INTEGER;
+BEGIN
+  SELECT * INTO _row
+  FROM public.evaluations
+  WHERE id = _evaluation_id AND user_id = _user_id
+  FOR UPDATE;
+  IF NOT FOUND OR _row.version <> _expected_version THEN
+    RETURN;
+  END IF;
+
+  _copy := jsonb_populate_record(_row, jsonb_build_object(
+    'id', gen_random_uuid(),
+    'created_at', _row.updated_at,
+    'is_authoritative', false,
+    'conflict_with', NULL
+  ));
+  INSERT INTO public.evaluations SELECT (_copy).*;
+
+  SELECT MAX(version) + 1 INTO _version FROM public.evaluations WHERE lineage_id = _row.lineage_id;
+  _graded := jsonb_populate_record(_row, _fields);
+  UPDATE public.evaluations
+  SET extracted_answers = _graded.extracted_answers,
+      detailed_results = _graded.detailed_results,
+      score = _graded.score,
+      total_questions = _graded.total_questions,
+      accuracy = _graded.accuracy,
+      correct_count = _graded.correct_count,
+      wrong_count = _graded.wrong_count,
+      raw_marks = _graded.raw_marks,
+      penalty_marks = _graded.penalty_marks,
+      max_marks = _graded.max_marks,
+      low_confidence_count = _graded.low_confidence_count,
+      version = _version,
+      version_source = 'correction'
+  WHERE id = _row.id;
+
+  RETURN QUERY
+  INSERT INTO public.answer_corrections
+    (evaluation_id, user_id, question_number, original_answer, new_answer, reason, old_score, new_score)
+  VALUES
+    (_row.id, _user_id, _question_number, _original_answer, _new_answer, _reason, _row.score, _graded.score)
+  RETURNING *;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_answer_correction(UUID, UUID, INTEGER, JSONB, INTEGER, TEXT, TEXT, TEXT)
+FROM PUBLIC, anon, authenticated;